@@ -0,0 +1,16 @@
+// Seller details printed on every invoice. Real values come from the environment;
+// the defaults only make development invoices readable.
+module.exports = {
+  numberPrefix: process.env.INVOICE_PREFIX || 'MS',
+  currency: 'INR',
+  // HSN code for candles, used for every line
+  hsnCode: '3406',
+  seller: {
+    name: process.env.SELLER_NAME || 'Moh-Scent',
+    gstin: process.env.SELLER_GSTIN || '',
+    address: process.env.SELLER_ADDRESS || '',
+    state: process.env.SELLER_STATE || 'Maharashtra',
+    stateCode: process.env.SELLER_STATE_CODE || 'MH',
+    email: process.env.EMAIL_USER || '',
+  },
+};
@@ -0,0 +1,100 @@
+// Tax and shipping rules, grouped into zones by destination country.
+//
+// - countries: ISO codes or names matched case-insensitively against the shipping address
+// - taxRate: default rate for the zone; regionTaxRates overrides it per state/region
+// - pricesIncludeTax: catalog prices already contain tax, which is then only broken out
+// - taxScheme: 'gst' splits tax into CGST/SGST within the seller's state and IGST
+//   across states on invoices; anything else prints a single tax line
+// - shipping: per method, the first tier whose conditions match sets the price.
+//   subtotalAbove is exclusive, maxWeight (grams) is inclusive; a tier without
+//   conditions is the fallback.
+module.exports = {
+  defaultZone: 'international',
+  zones: [
+    {
+      id: 'india',
+      name: 'India',
+      countries: ['IN', 'India'],
+      taxRate: 0.18,
+      regionTaxRates: {},
+      pricesIncludeTax: false,
+      taxScheme: 'gst',
+      shipping: {
+        standard: {
+          label: 'Standard',
+          description: '5-7 business days. Free on orders over $100.',
+          tiers: [
+            { subtotalAbove: 100, price: 0 },
+            { maxWeight: 2000, price: 10 },
+            { price: 15 },
+          ],
+        },
+        express: {
+          label: 'Express',
+          description: '1-2 business days.',
+          tiers: [
+            { maxWeight: 2000, price: 25 },
+            { price: 35 },
+          ],
+        },
+      },
+    },
+    {
+      id: 'us',
+      name: 'United States',
+      countries: ['US', 'USA', 'United States', 'United States of America'],
+      taxRate: 0,
+      regionTaxRates: {
+        CA: 0.0725,
+        NY: 0.04,
+        TX: 0.0625,
+        WA: 0.065,
+      },
+      pricesIncludeTax: false,
+      shipping: {
+        standard: {
+          label: 'Standard',
+          description: '7-10 business days. Free on orders over $150.',
+          tiers: [
+            { subtotalAbove: 150, price: 0 },
+            { maxWeight: 2000, price: 20 },
+            { price: 30 },
+          ],
+        },
+        express: {
+          label: 'Express',
+          description: '3-5 business days.',
+          tiers: [
+            { maxWeight: 2000, price: 45 },
+            { price: 60 },
+          ],
+        },
+      },
+    },
+    {
+      id: 'international',
+      name: 'International',
+      countries: [],
+      taxRate: 0.15,
+      regionTaxRates: {},
+      pricesIncludeTax: false,
+      shipping: {
+        standard: {
+          label: 'Standard',
+          description: '5-7 business days. Free on orders over $100.',
+          tiers: [
+            { subtotalAbove: 100, price: 0 },
+            { price: 10 },
+          ],
+        },
+        express: {
+          label: 'Express',
+          description: '1-2 business days.',
+          tiers: [
+            { price: 25 },
+          ],
+        },
+      },
+    },
+  ],
+};
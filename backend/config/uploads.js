@@ -0,0 +1,5 @@
+// Customer uploads are stored as paths under /uploads and served from the API's own
+// public address, never from whatever host a request claimed to be for
+module.exports = {
+  publicUrl: (process.env.API_URL || `http://localhost:${process.env.PORT || 5000}`).replace(/\/+$/, ''),
+};
@@ -0,0 +1,112 @@
+const mongoose = require('mongoose');
+const asyncHandler = require('../middleware/asyncHandler');
+const ProductAlert = require('../models/ProductAlert');
+const Product = require('../models/Product');
+
+// @desc    Get logged in user's product alerts
+// @route   GET /api/alerts?product=
+// @access  Private
+const getMyAlerts = asyncHandler(async (req, res) => {
+  const filter = { user: req.user._id };
+  if (req.query.product) {
+    if (!mongoose.isValidObjectId(req.query.product)) {
+      res.status(400);
+      throw new Error('Invalid product ID');
+    }
+    filter.product = req.query.product;
+  }
+
+  const alerts = await ProductAlert.find(filter)
+    .populate('product', 'name images price stock options variants')
+    .sort({ createdAt: -1 });
+
+  res.json({
+    success: true,
+    // Alerts for products that have since been deleted are left out
+    data: alerts.filter((alert) => alert.product),
+  });
+});
+
+// @desc    Subscribe to a back-in-stock (optionally for one variant) or price-drop alert
+// @route   POST /api/alerts
+// @access  Private
+const createAlert = asyncHandler(async (req, res) => {
+  const { product: productId, type, variant: variantId } = req.body;
+
+  if (!ProductAlert.TYPES.includes(type)) {
+    res.status(400);
+    throw new Error(`Alert type must be one of: ${ProductAlert.TYPES.join(', ')}`);
+  }
+
+  const product = mongoose.isValidObjectId(productId)
+    ? await Product.findById(productId).select('name images price stock options variants')
+    : null;
+
+  if (!product) {
+    res.status(404);
+    throw new Error('Product not found');
+  }
+
+  // Price drops are watched on the product; stock can be watched for one variant
+  const watched = type === 'back_in_stock' && variantId ? product.resolveVariant(variantId) : null;
+
+  if (watched && watched.error) {
+    res.status(400);
+    throw new Error(watched.error);
+  }
+
+  if (type === 'back_in_stock' && (watched ? watched.stock : product.stock) > 0) {
+    res.status(400);
+    throw new Error(
+      watched && watched.label
+        ? `${product.name} (${watched.label}) is in stock`
+        : `${product.name} is in stock`
+    );
+  }
+
+  // Subscribing again switches a used-up alert back on and resets the price to watch
+  const alert = await ProductAlert.findOneAndUpdate(
+    {
+      user: req.user._id,
+      product: product._id,
+      type,
+      variant: watched && watched.variant ? watched.variant._id : null,
+    },
+    {
+      active: true,
+      ...(type === 'price_drop' && { referencePrice: product.price }),
+    },
+    { new: true, upsert: true, setDefaultsOnInsert: true }
+  );
+  alert.product = product;
+
+  res.status(201).json({
+    success: true,
+    data: alert,
+  });
+});
+
+// @desc    Unsubscribe from an alert
+// @route   DELETE /api/alerts/:id
+// @access  Private
+const deleteAlert = asyncHandler(async (req, res) => {
+  const alert = mongoose.isValidObjectId(req.params.id)
+    ? await ProductAlert.findOneAndDelete({ _id: req.params.id, user: req.user._id })
+    : null;
+
+  if (!alert) {
+    res.status(404);
+    throw new Error('Alert not found');
+  }
+
+  res.json({
+    success: true,
+    message: 'Alert removed',
+  });
+});
+
+module.exports = {
+  getMyAlerts,
+  createAlert,
+  deleteAlert,
+};
@@ -0,0 +1,232 @@
+const mongoose = require('mongoose');
+const asyncHandler = require('../middleware/asyncHandler');
+const Cart = require('../models/Cart');
+const Product = require('../models/Product');
+
+const lineKey = (productId, variantId) => `${productId}:${variantId || ''}`;
+
+// Drop unknown products and variants and clamp quantities to what is in stock
+const sanitizeItems = async (items = []) => {
+  const ids = items
+    .filter((item) => item && mongoose.isValidObjectId(item.product))
+    .map((item) => item.product);
+  const products = await Product.find({ _id: { $in: ids } }).select('name stock options variants');
+  const productsById = new Map(products.map((p) => [p._id.toString(), p]));
+
+  const merged = new Map();
+  items.forEach((item) => {
+    if (!item || !item.product) return;
+    const product = productsById.get(item.product.toString());
+    const quantity = Math.floor(Number(item.quantity));
+    if (!product || !(quantity > 0)) return;
+
+    const offer = product.resolveVariant(item.variant && item.variant.toString());
+    if (offer.error) return;
+
+    const key = lineKey(product._id, offer.variant && offer.variant._id);
+    const line = merged.get(key) || {
+      product: product._id,
+      variant: offer.variant ? offer.variant._id : undefined,
+      stock: offer.stock,
+      quantity: 0,
+    };
+    line.quantity += quantity;
+    merged.set(key, line);
+  });
+
+  return Array.from(merged.values(), ({ product, variant, stock, quantity }) => ({
+    product,
+    ...(variant && { variant }),
+    quantity: stock > 0 ? Math.min(quantity, stock) : quantity,
+  }));
+};
+
+const populateCart = (cart) =>
+  cart.populate('items.product');
+
+// Products deleted after being carted come back as null after populate
+const formatCart = (cart) => ({
+  items: cart.items
+    .filter((item) => item.product)
+    .map((item) => ({ product: item.product, variant: item.variant, quantity: item.quantity })),
+  updatedAt: cart.updatedAt,
+});
+
+const findOrCreateCart = async (userId) => {
+  const cart = await Cart.findOne({ user: userId });
+  return cart || new Cart({ user: userId, items: [] });
+};
+
+// @desc    Get logged in user's cart
+// @route   GET /api/cart
+// @access  Private
+const getCart = asyncHandler(async (req, res) => {
+  const cart = await findOrCreateCart(req.user._id);
+  await populateCart(cart);
+
+  res.json({
+    success: true,
+    data: formatCart(cart),
+  });
+});
+
+// @desc    Replace logged in user's cart
+// @route   PUT /api/cart
+// @access  Private
+const updateCart = asyncHandler(async (req, res) => {
+  const { items } = req.body;
+
+  if (!Array.isArray(items)) {
+    res.status(400);
+    throw new Error('Cart items must be an array');
+  }
+
+  const cart = await findOrCreateCart(req.user._id);
+  cart.items = await sanitizeItems(items);
+  await cart.save();
+  await populateCart(cart);
+
+  res.json({
+    success: true,
+    data: formatCart(cart),
+  });
+});
+
+// @desc    Merge an anonymous cart into the logged in user's cart
+// @route   POST /api/cart/merge
+// @access  Private
+const mergeCart = asyncHandler(async (req, res) => {
+  const { items = [] } = req.body;
+
+  if (!Array.isArray(items)) {
+    res.status(400);
+    throw new Error('Cart items must be an array');
+  }
+
+  const cart = await findOrCreateCart(req.user._id);
+  cart.items = await sanitizeItems([
+    ...cart.items.map((item) => ({
+      product: item.product,
+      variant: item.variant,
+      quantity: item.quantity,
+    })),
+    ...items,
+  ]);
+  await cart.save();
+  await populateCart(cart);
+
+  res.json({
+    success: true,
+    data: formatCart(cart),
+  });
+});
+
+// @desc    Empty logged in user's cart
+// @route   DELETE /api/cart
+// @access  Private
+const clearCart = asyncHandler(async (req, res) => {
+  await Cart.findOneAndUpdate(
+    { user: req.user._id },
+    { items: [] },
+    { upsert: true }
+  );
+
+  res.json({
+    success: true,
+    data: { items: [] },
+  });
+});
+
+// @desc    Compare cart snapshots with live product data
+// @route   POST /api/cart/validate
+// @access  Public
+const validateCart = asyncHandler(async (req, res) => {
+  const { items } = req.body;
+
+  if (!Array.isArray(items)) {
+    res.status(400);
+    throw new Error('Cart items must be an array');
+  }
+
+  const ids = items
+    .filter((item) => item && mongoose.isValidObjectId(item.product))
+    .map((item) => item.product);
+  const products = await Product.find({ _id: { $in: ids } });
+  const productsById = new Map(products.map((p) => [p._id.toString(), p]));
+
+  const validItems = [];
+  const changes = [];
+
+  items.forEach((item) => {
+    if (!item || !item.product) return;
+
+    const productId = item.product.toString();
+    const variantId = item.variant ? item.variant.toString() : undefined;
+    const product = productsById.get(productId);
+    const requestedQuantity = Math.floor(Number(item.quantity)) || 1;
+    const offer = product ? product.resolveVariant(variantId) : null;
+
+    if (!offer || offer.error) {
+      changes.push({ productId, variantId, name: item.name, type: 'removed' });
+      return;
+    }
+
+    const name = offer.label ? `${product.name} (${offer.label})` : product.name;
+
+    if (item.price !== undefined && Number(item.price) !== offer.price) {
+      changes.push({
+        productId,
+        variantId,
+        name,
+        type: 'price_changed',
+        previousPrice: Number(item.price),
+        currentPrice: offer.price,
+      });
+    }
+
+    if (offer.stock === 0) {
+      changes.push({
+        productId,
+        variantId,
+        name,
+        type: 'out_of_stock',
+        requestedQuantity,
+        availableStock: 0,
+      });
+      return;
+    }
+
+    if (requestedQuantity > offer.stock) {
+      changes.push({
+        productId,
+        variantId,
+        name,
+        type: 'stock_reduced',
+        requestedQuantity,
+        availableStock: offer.stock,
+      });
+    }
+
+    validItems.push({
+      product,
+      ...(variantId && { variant: variantId }),
+      quantity: Math.min(requestedQuantity, offer.stock),
+    });
+  });
+
+  res.json({
+    success: true,
+    data: {
+      items: validItems,
+      changes,
+    },
+  });
+});
+
+module.exports = {
+  getCart,
+  updateCart,
+  mergeCart,
+  clearCart,
+  validateCart,
+};
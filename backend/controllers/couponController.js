@@ -0,0 +1,177 @@
+const asyncHandler = require('../middleware/asyncHandler');
+const Coupon = require('../models/Coupon');
+const Order = require('../models/Order');
+const { isShippingMethod } = require('../utils/pricingRules');
+const {
+  buildOrderItems,
+  calculatePrices,
+  resolveCoupon,
+} = require('../utils/orderPricing');
+
+// @desc    Preview a coupon against cart items
+// @route   POST /api/coupons/apply
+// @access  Public
+const applyCoupon = asyncHandler(async (req, res) => {
+  const { code, items, shippingMethod = 'standard', shippingAddress } = req.body;
+
+  if (!code) {
+    res.status(400);
+    throw new Error('Please enter a coupon code');
+  }
+
+  if (!Array.isArray(items) || items.length === 0) {
+    res.status(400);
+    throw new Error('Your cart is empty');
+  }
+
+  if (!isShippingMethod(shippingMethod)) {
+    res.status(400);
+    throw new Error(`Unknown shipping method: ${shippingMethod}`);
+  }
+
+  const { orderItems, error: itemsError } = await buildOrderItems(items);
+
+  if (itemsError) {
+    res.status(400);
+    throw new Error(itemsError);
+  }
+
+  const { coupon, error } = await resolveCoupon(code, {
+    orderItems,
+    shippingMethod,
+    shippingAddress,
+  });
+
+  if (error) {
+    res.status(400);
+    throw new Error(error);
+  }
+
+  const priceBreakdown = calculatePrices(orderItems, {
+    shippingMethod,
+    shippingAddress,
+    coupon,
+  });
+
+  res.json({
+    success: true,
+    data: {
+      code: coupon.code,
+      type: coupon.type,
+      description: coupon.description,
+      discount: priceBreakdown.discountPrice,
+      priceBreakdown,
+    },
+  });
+});
+
+// @desc    Get all coupons
+// @route   GET /api/coupons
+// @access  Private/Admin
+const getCoupons = asyncHandler(async (req, res) => {
+  const coupons = await Coupon.find({}).sort({ createdAt: -1 });
+  res.json({
+    success: true,
+    count: coupons.length,
+    data: coupons,
+  });
+});
+
+// @desc    Create a coupon
+// @route   POST /api/coupons
+// @access  Private/Admin
+const createCoupon = asyncHandler(async (req, res) => {
+  const coupon = await Coupon.create(req.body);
+
+  res.status(201).json({
+    success: true,
+    data: coupon,
+  });
+});
+
+// @desc    Update a coupon
+// @route   PUT /api/coupons/:id
+// @access  Private/Admin
+const updateCoupon = asyncHandler(async (req, res) => {
+  const coupon = await Coupon.findById(req.params.id);
+
+  if (!coupon) {
+    res.status(404);
+    throw new Error('Coupon not found');
+  }
+
+  // usageCount is maintained by order placement only
+  const { usageCount, ...changes } = req.body;
+  coupon.set(changes);
+  const updatedCoupon = await coupon.save();
+
+  res.json({
+    success: true,
+    data: updatedCoupon,
+  });
+});
+
+// @desc    Delete a coupon
+// @route   DELETE /api/coupons/:id
+// @access  Private/Admin
+const deleteCoupon = asyncHandler(async (req, res) => {
+  const coupon = await Coupon.findById(req.params.id);
+
+  if (!coupon) {
+    res.status(404);
+    throw new Error('Coupon not found');
+  }
+
+  await coupon.deleteOne();
+
+  res.json({
+    success: true,
+    message: 'Coupon removed successfully',
+  });
+});
+
+// @desc    Get redemption totals for a coupon
+// @route   GET /api/coupons/:id/report
+// @access  Private/Admin
+const getCouponReport = asyncHandler(async (req, res) => {
+  const coupon = await Coupon.findById(req.params.id);
+
+  if (!coupon) {
+    res.status(404);
+    throw new Error('Coupon not found');
+  }
+
+  const [report] = await Order.aggregate([
+    { $match: { 'discount.code': coupon.code, status: { $ne: 'cancelled' } } },
+    {
+      $group: {
+        _id: null,
+        orders: { $sum: 1 },
+        paidOrders: { $sum: { $cond: ['$isPaid', 1, 0] } },
+        totalDiscount: { $sum: '$discountPrice' },
+        totalRevenue: { $sum: '$totalPrice' },
+      },
+    },
+  ]);
+
+  res.json({
+    success: true,
+    data: {
+      code: coupon.code,
+      usageCount: coupon.usageCount,
+      orders: report ? report.orders : 0,
+      paidOrders: report ? report.paidOrders : 0,
+      totalDiscount: report ? report.totalDiscount : 0,
+      totalRevenue: report ? report.totalRevenue : 0,
+    },
+  });
+});
+
+module.exports = {
+  applyCoupon,
+  getCoupons,
+  createCoupon,
+  updateCoupon,
+  deleteCoupon,
+  getCouponReport,
+};
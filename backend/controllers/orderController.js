@@ -1,81 +1,219 @@
 const asyncHandler = require('../middleware/asyncHandler');
 const Order = require('../models/Order');
 const Product = require('../models/Product');
-const Razorpay = require('razorpay');
-const paymentFallback = require('../utils/paymentFallback');
+const User = require('../models/User');
 const emailService = require('../utils/emailService');
+const { markOrderPaid, issueRefund } = require('../utils/orderPayments');
+const { isShippingMethod } = require('../utils/pricingRules');
+const {
+  roundPrice,
+  buildOrderItems,
+  calculatePrices,
+  resolveCoupon,
+  redeemCoupon,
+  releaseCoupon,
+  releaseOrderCoupon,
+} = require('../utils/orderPricing');
+const {
+  getReservationExpiry,
+  reserveStock,
+  releaseStock,
+  stockConflictError,
+  releaseOrderStock,
+} = require('../utils/inventory');
+const {
+  getPaymentProvider,
+  isPaymentMethod,
+  isPaymentMethodConfigured,
+  MockPaymentProvider,
+} = require('../utils/payments');
+const { assignInvoice, renderInvoiceHtml, renderInvoicesPdf } = require('../utils/invoices');
+
+// Cancel an order, putting its stock and coupon back and refunding what was paid.
+// Releasing the stock doubles as the guard against cancelling twice, so this
+// resolves to null if the order was already cancelled.
+const cancelAndRefund = async (order, { user, reason }) => {
+  const cancelledOrder = await releaseOrderStock(order, {
+    set: {
+      status: 'cancelled',
+      cancelledAt: Date.now(),
+      cancelReason: reason,
+    },
+    history: Order.historyEntry('cancelled', 'cancelled', { user, note: reason }),
+  });
+
+  if (!cancelledOrder) {
+    return null;
+  }
+
+  await releaseOrderCoupon(cancelledOrder);
 
-// Initialize Razorpay
-let razorpay;
-try {
-  razorpay = new Razorpay({
-    key_id: process.env.RAZORPAY_KEY_ID,
-    key_secret: process.env.RAZORPAY_KEY_SECRET,
+  const remaining = roundPrice(cancelledOrder.totalPrice - cancelledOrder.refundedAmount);
+
+  if (!cancelledOrder.isPaid || remaining <= 0) {
+    return cancelledOrder;
+  }
+
+  // A failed refund leaves a failed record on the cancelled order for an admin to retry
+  const { order: refundedOrder } = await issueRefund(cancelledOrder, {
+    amount: remaining,
+    reason: reason || 'Order cancelled',
+    userId: user._id,
   });
-} catch (error) {
-  console.error('Failed to initialize Razorpay:', error);
-}
+
+  return refundedOrder || Order.findById(order._id);
+};
 
 // @desc    Create new order
 // @route   POST /api/orders
 // @access  Private
 const createOrder = asyncHandler(async (req, res) => {
   const {
-    orderItems,
+    orderItems: requestedItems,
     shippingAddress,
-    paymentMethod,
+    shippingMethod = 'standard',
+    paymentMethod = 'razorpay',
+    couponCode,
   } = req.body;
 
-  if (!orderItems || orderItems.length === 0) {
+  if (!requestedItems || requestedItems.length === 0) {
     res.status(400);
     throw new Error('No order items');
   }
 
-  // Calculate prices
-  const itemsPrice = orderItems.reduce(
-    (acc, item) => acc + item.price * item.quantity,
-    0
-  );
-  const shippingPrice = itemsPrice > 100 ? 0 : 10; // Free shipping over $100
-  const taxPrice = Number((0.15 * itemsPrice).toFixed(2));
-  const totalPrice = itemsPrice + shippingPrice + taxPrice;
+  if (!isShippingMethod(shippingMethod)) {
+    res.status(400);
+    throw new Error(`Unknown shipping method: ${shippingMethod}`);
+  }
 
-  // Create order in database
-  const order = await Order.create({
-    user: req.user._id,
-    orderItems,
+  // Mock payments are only registered outside production
+  if (!isPaymentMethod(paymentMethod)) {
+    res.status(400);
+    throw new Error(`Unknown payment method: ${paymentMethod}`);
+  }
+
+  if (!isPaymentMethodConfigured(paymentMethod)) {
+    res.status(503);
+    throw new Error('Online payments are unavailable right now. Please try again later.');
+  }
+
+  // Prices always come from the catalog, never from the client
+  const { orderItems, error: itemsError, conflicts } = await buildOrderItems(requestedItems);
+
+  if (conflicts) {
+    res.status(409);
+    throw stockConflictError(conflicts);
+  }
+
+  if (itemsError) {
+    res.status(400);
+    throw new Error(itemsError);
+  }
+
+  let coupon = null;
+  if (couponCode) {
+    const { coupon: applicableCoupon, error: couponError } = await resolveCoupon(couponCode, {
+      orderItems,
+      shippingMethod,
+      shippingAddress,
+      userId: req.user._id,
+    });
+
+    if (couponError) {
+      res.status(400);
+      throw new Error(couponError);
+    }
+
+    coupon = applicableCoupon;
+  }
+
+  const priceBreakdown = calculatePrices(orderItems, {
+    shippingMethod,
     shippingAddress,
-    paymentMethod,
+    coupon,
+  });
+  const {
     itemsPrice,
+    discountPrice,
     shippingPrice,
     taxPrice,
     totalPrice,
-  });
+    taxRate,
+    taxInclusive,
+  } = priceBreakdown;
+
+  if (coupon && !(await redeemCoupon(coupon))) {
+    res.status(400);
+    throw new Error('This coupon has reached its usage limit');
+  }
+
+  // Hold the stock now; another checkout may have taken it since the lines were built
+  const { conflicts: stockConflicts } = await reserveStock(orderItems);
+
+  if (stockConflicts.length > 0) {
+    if (coupon) await releaseCoupon(coupon);
+    res.status(409);
+    throw stockConflictError(stockConflicts);
+  }
+
+  // Create order in database
+  let order;
+  try {
+    order = await Order.create({
+      user: req.user._id,
+      orderItems,
+      shippingAddress,
+      shippingMethod,
+      paymentMethod,
+      itemsPrice,
+      discountPrice,
+      shippingPrice,
+      taxPrice,
+      taxRate,
+      taxInclusive,
+      totalPrice,
+      stockStatus: 'reserved',
+      reservationExpiresAt: getReservationExpiry(),
+      statusHistory: [Order.historyEntry('placed', 'pending', { user: req.user })],
+      ...(coupon && {
+        discount: {
+          code: coupon.code,
+          type: coupon.type,
+          description: coupon.description,
+          amount: discountPrice,
+        },
+      }),
+    });
+  } catch (error) {
+    await releaseStock(orderItems);
+    if (coupon) await releaseCoupon(coupon);
+    throw error;
+  }
 
   // Create payment order
   try {
-    let paymentOrder;
-    if (paymentMethod === 'razorpay' && razorpay) {
-      paymentOrder = await razorpay.orders.create({
-        amount: Math.round(totalPrice * 100), // Razorpay expects amount in smallest currency unit
-        currency: 'INR',
-        receipt: order._id.toString(),
-      });
-    } else {
-      // Use fallback payment system
-      paymentOrder = await paymentFallback.createOrder(totalPrice, 'INR');
-    }
+    const paymentOrder = await getPaymentProvider(paymentMethod).createOrder({
+      amount: totalPrice,
+      currency: 'INR',
+      receipt: order._id.toString(),
+    });
+
+    order.paymentOrderId = paymentOrder.id;
+    await order.save();
 
     res.status(201).json({
       success: true,
       data: {
         order,
         paymentOrder,
+        priceBreakdown,
       },
     });
   } catch (error) {
     // If payment order creation fails, delete the order and throw error
     await Order.findByIdAndDelete(order._id);
+    await releaseStock(orderItems);
+    if (coupon) await releaseCoupon(coupon);
     throw error;
   }
 });
@@ -103,6 +241,51 @@ const getOrderById = asyncHandler(async (req, res) => {
   });
 });
 
+// @desc    Download the invoice for a paid order as HTML or PDF
+// @route   GET /api/orders/:id/invoice?format=html|pdf
+// @access  Private
+const getOrderInvoice = asyncHandler(async (req, res) => {
+  const format = req.query.format || 'pdf';
+
+  if (!['html', 'pdf'].includes(format)) {
+    res.status(400);
+    throw new Error('Invoice format must be html or pdf');
+  }
+
+  let order = await Order.findById(req.params.id);
+
+  if (!order) {
+    res.status(404);
+    throw new Error('Order not found');
+  }
+
+  if (order.user.toString() !== req.user._id.toString() && req.user.role !== 'admin') {
+    res.status(401);
+    throw new Error('Not authorized');
+  }
+
+  if (!order.isPaid) {
+    res.status(400);
+    throw new Error('Invoices are issued once an order is paid');
+  }
+
+  // Orders paid before invoicing existed get their number on first download
+  order = await assignInvoice(order);
+  await order.populate('user', 'name email');
+
+  if (format === 'html') {
+    res.type('html').send(renderInvoiceHtml(order));
+    return;
+  }
+
+  const pdf = await renderInvoicesPdf([order]);
+  res.set({
+    'Content-Type': 'application/pdf',
+    'Content-Disposition': `attachment; filename="invoice-${order.invoice.number.replace(/\//g, '-')}.pdf"`,
+  });
+  res.send(pdf);
+});
+
 // @desc    Update order to paid
 // @route   PUT /api/orders/:id/pay
 // @access  Private
@@ -116,50 +299,187 @@ const updateOrderToPaid = asyncHandler(async (req, res) => {
 
   const { razorpay_payment_id, razorpay_order_id, razorpay_signature } = req.body;
 
+  let isValid = false;
   try {
-    let isValid = false;
-
-    if (order.paymentMethod === 'razorpay' && razorpay) {
-      // Verify Razorpay payment
-      const body = razorpay_order_id + "|" + razorpay_payment_id;
-      isValid = razorpay.validateWebhookSignature(body, razorpay_signature);
-    } else {
-      // Verify fallback payment
-      isValid = await paymentFallback.verifyPayment(
-        razorpay_payment_id,
-        razorpay_order_id,
-        razorpay_signature
-      );
-    }
+    // The proof must be for this order's payment, not any payment the provider accepted
+    isValid = razorpay_order_id === order.paymentOrderId &&
+      await getPaymentProvider(order.paymentMethod).verifyPayment({
+        orderId: razorpay_order_id,
+        paymentId: razorpay_payment_id,
+        signature: razorpay_signature,
+      });
+  } catch (error) {
+    console.error('Payment verification failed:', error);
+  }
 
-    if (!isValid) {
-      res.status(400);
-      throw new Error('Invalid payment verification');
-    }
+  if (!isValid) {
+    res.status(400);
+    throw new Error('Payment verification failed');
+  }
 
-    order.isPaid = true;
-    order.paidAt = Date.now();
-    order.paymentResult = {
-      razorpay_payment_id,
-      razorpay_order_id,
-      razorpay_signature,
-      status: 'completed',
-    };
+  // The webhook may already have recorded this payment, in which case nothing changes
+  const { order: updatedOrder, conflicts } = await markOrderPaid(order, {
+    razorpay_payment_id,
+    razorpay_order_id,
+    razorpay_signature,
+    status: 'completed',
+  }, { user: req.user });
+
+  if (conflicts) {
+    res.status(409);
+    throw stockConflictError(
+      conflicts,
+      'Some items sold out before your payment arrived, so it has been refunded'
+    );
+  }
 
-    const updatedOrder = await order.save();
+  res.json({
+    success: true,
+    data: updatedOrder,
+  });
+});
 
-    // Send order confirmation email
-    await emailService.sendOrderConfirmation(updatedOrder, req.user);
+// @desc    Run a mock payment for an order
+// @route   POST /api/orders/:id/mock-payment
+// @access  Private (not available in production)
+const processMockPayment = asyncHandler(async (req, res) => {
+  const order = await Order.findById(req.params.id);
 
-    res.json({
-      success: true,
-      data: updatedOrder,
+  if (!order) {
+    res.status(404);
+    throw new Error('Order not found');
+  }
+
+  if (order.user.toString() !== req.user._id.toString()) {
+    res.status(401);
+    throw new Error('Not authorized');
+  }
+
+  const provider = getPaymentProvider(order.paymentMethod);
+
+  if (!(provider instanceof MockPaymentProvider)) {
+    res.status(400);
+    throw new Error('Order does not use mock payments');
+  }
+
+  if (order.isPaid) {
+    res.status(400);
+    throw new Error('Order is already paid');
+  }
+
+  // QA can force an outcome per payment
+  const { outcome } = req.body;
+  if (outcome !== undefined && !MockPaymentProvider.isOutcome(outcome)) {
+    res.status(400);
+    throw new Error(`Unknown mock payment outcome: ${outcome}`);
+  }
+
+  let payment;
+  try {
+    payment = await provider.capturePayment({
+      orderId: order.paymentOrderId,
+      amount: order.totalPrice,
+      ...(outcome && { outcome }),
     });
   } catch (error) {
-    console.error('Payment verification failed:', error);
+    if (error.code === 'PAYMENT_DECLINED') res.status(402);
+    if (error.code === 'PAYMENT_TIMEOUT') res.status(504);
+    throw error;
+  }
+
+  // Same shape the Razorpay checkout hands back, so both verify through PUT /:id/pay
+  res.json({
+    success: true,
+    data: {
+      razorpay_payment_id: payment.paymentId,
+      razorpay_order_id: payment.orderId,
+      razorpay_signature: payment.signature,
+      mock: true,
+    },
+  });
+});
+
+// @desc    Cancel an order before it ships, refunding it if it was paid
+// @route   PUT /api/orders/:id/cancel
+// @access  Private
+const cancelOrder = asyncHandler(async (req, res) => {
+  const order = await Order.findById(req.params.id);
+
+  if (!order) {
+    res.status(404);
+    throw new Error('Order not found');
+  }
+
+  if (order.user.toString() !== req.user._id.toString() && req.user.role !== 'admin') {
+    res.status(401);
+    throw new Error('Not authorized');
+  }
+
+  if (order.status === 'cancelled') {
     res.status(400);
-    throw new Error('Payment verification failed');
+    throw new Error('Order is already cancelled');
+  }
+
+  if (!['pending', 'processing'].includes(order.status) || order.isDelivered) {
+    res.status(400);
+    throw new Error('Orders can only be cancelled before they ship');
+  }
+
+  const cancelledOrder = await cancelAndRefund(order, {
+    user: req.user,
+    reason: req.body.reason,
+  });
+
+  if (!cancelledOrder) {
+    res.status(400);
+    throw new Error('Order is already cancelled');
+  }
+
+  res.json({
+    success: true,
+    data: cancelledOrder,
+  });
+});
+
+// @desc    Refund all or part of a paid order
+// @route   POST /api/orders/:id/refunds
+// @access  Private/Admin
+const refundOrder = asyncHandler(async (req, res) => {
+  const order = await Order.findById(req.params.id);
+
+  if (!order) {
+    res.status(404);
+    throw new Error('Order not found');
+  }
+
+  if (!order.isPaid) {
+    res.status(400);
+    throw new Error('Only paid orders can be refunded');
   }
+
+  const remaining = roundPrice(order.totalPrice - order.refundedAmount);
+  const amount = req.body.amount === undefined ? remaining : Number(req.body.amount);
+
+  if (!(amount > 0) || amount > remaining) {
+    res.status(400);
+    throw new Error(`Refund amount must be more than 0 and at most ${remaining}`);
+  }
+
+  const { order: refundedOrder, error, statusCode } = await issueRefund(order, {
+    amount,
+    reason: req.body.reason,
+    userId: req.user._id,
+  });
+
+  if (error) {
+    res.status(statusCode);
+    throw new Error(error);
+  }
+
+  res.status(201).json({
+    success: true,
+    data: refundedOrder,
+  });
 });
 
 // @desc    Update order to delivered
@@ -173,10 +493,19 @@ const updateOrderToDelivered = asyncHandler(async (req, res) => {
     throw new Error('Order not found');
   }
 
+  if (order.status === 'cancelled') {
+    res.status(400);
+    throw new Error('Cancelled orders cannot be reopened');
+  }
+
   order.isDelivered = true;
   order.deliveredAt = Date.now();
   order.status = 'delivered';
   order.trackingNumber = req.body.trackingNumber;
+  order.statusHistory.push(Order.historyEntry('delivered', 'delivered', {
+    user: req.user,
+    note: req.body.note,
+  }));
 
   const updatedOrder = await order.save();
 
@@ -193,14 +522,64 @@ const updateOrderToDelivered = asyncHandler(async (req, res) => {
   });
 });
 
-// @desc    Get logged in user orders
-// @route   GET /api/orders/myorders
+const ORDER_STATUSES = ['pending', 'processing', 'shipped', 'delivered', 'cancelled'];
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const parseDate = (value) => {
+  const date = new Date(String(value));
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+// @desc    Get logged in user orders, filtered and paginated
+// @route   GET /api/orders/myorders?status=&from=&to=&q=&page=
 // @access  Private
 const getMyOrders = asyncHandler(async (req, res) => {
-  const orders = await Order.find({ user: req.user._id });
+  const pageSize = 10;
+  const page = Math.max(Number(req.query.page) || 1, 1);
+  const { status, from, to, q } = req.query;
+  const filter = { user: req.user._id };
+
+  if (status) {
+    if (!ORDER_STATUSES.includes(status)) {
+      res.status(400);
+      throw new Error(`Unknown order status: ${status}`);
+    }
+    filter.status = status;
+  }
+
+  if (from || to) {
+    const fromDate = from ? parseDate(from) : null;
+    const toDate = to ? parseDate(to) : null;
+
+    if ((from && !fromDate) || (to && !toDate)) {
+      res.status(400);
+      throw new Error('Dates must be in YYYY-MM-DD format');
+    }
+
+    filter.createdAt = {
+      ...(fromDate && { $gte: fromDate }),
+      // `to` is a calendar day, so include all of it
+      ...(toDate && { $lt: new Date(toDate.getTime() + 24 * 60 * 60 * 1000) }),
+    };
+  }
+
+  if (q && String(q).trim()) {
+    filter['orderItems.name'] = { $regex: escapeRegex(String(q).trim()), $options: 'i' };
+  }
+
+  const count = await Order.countDocuments(filter);
+  const orders = await Order.find(filter)
+    .limit(pageSize)
+    .skip(pageSize * (page - 1))
+    .sort({ createdAt: -1 });
+
   res.json({
     success: true,
     data: orders,
+    page,
+    pages: Math.ceil(count / pageSize),
+    total: count,
   });
 });
 
@@ -215,6 +594,51 @@ const getOrders = asyncHandler(async (req, res) => {
   });
 });
 
+const MAX_BULK_INVOICES = 500;
+
+// @desc    Download the invoices issued in a date range as one PDF
+// @route   GET /api/orders/invoices?from=&to=
+// @access  Private/Admin
+const getInvoices = asyncHandler(async (req, res) => {
+  const { from, to } = req.query;
+  const fromDate = from ? parseDate(from) : null;
+  const toDate = to ? parseDate(to) : null;
+
+  if (!fromDate || !toDate) {
+    res.status(400);
+    throw new Error('from and to dates are required in YYYY-MM-DD format');
+  }
+
+  const filter = {
+    'invoice.number': { $exists: true },
+    // `to` is a calendar day, so include all of it
+    'invoice.issuedAt': { $gte: fromDate, $lt: new Date(toDate.getTime() + 24 * 60 * 60 * 1000) },
+  };
+
+  const count = await Order.countDocuments(filter);
+
+  if (count === 0) {
+    res.status(404);
+    throw new Error('No invoices were issued in this period');
+  }
+
+  if (count > MAX_BULK_INVOICES) {
+    res.status(400);
+    throw new Error(`Too many invoices (${count}); choose a range with at most ${MAX_BULK_INVOICES}`);
+  }
+
+  const orders = await Order.find(filter)
+    .populate('user', 'name email')
+    .sort({ 'invoice.issuedAt': 1 });
+  const pdf = await renderInvoicesPdf(orders);
+
+  res.set({
+    'Content-Type': 'application/pdf',
+    'Content-Disposition': `attachment; filename="invoices-${from}-to-${to}.pdf"`,
+  });
+  res.send(pdf);
+});
+
 // @desc    Update order status
 // @route   PUT /api/orders/:id/status
 // @access  Private/Admin
@@ -226,7 +650,52 @@ const updateOrderStatus = asyncHandler(async (req, res) => {
     throw new Error('Order not found');
   }
 
-  order.status = req.body.status;
+  const { status, note, trackingNumber } = req.body;
+
+  if (status !== undefined && !ORDER_STATUSES.includes(status)) {
+    res.status(400);
+    throw new Error(`Unknown order status: ${status}`);
+  }
+
+  if (order.status === 'cancelled' && status !== undefined && status !== 'cancelled') {
+    res.status(400);
+    throw new Error('Cancelled orders cannot be reopened');
+  }
+
+  // Cancelling goes through the same path as a customer cancellation
+  if (status === 'cancelled' && order.status !== 'cancelled') {
+    const cancelledOrder = await cancelAndRefund(order, { user: req.user, reason: note });
+
+    if (!cancelledOrder) {
+      res.status(400);
+      throw new Error('Order is already cancelled');
+    }
+
+    return res.json({
+      success: true,
+      data: cancelledOrder,
+    });
+  }
+
+  if (trackingNumber !== undefined) {
+    order.trackingNumber = trackingNumber;
+  }
+
+  // Tracking can be updated without changing the status
+  if (status !== undefined && status !== order.status) {
+    order.status = status;
+    order.statusHistory.push(Order.historyEntry(
+      status === 'cancelled' ? 'cancelled' : 'status_changed',
+      status,
+      { user: req.user, note }
+    ));
+  }
+
+  if (status === 'delivered' && !order.isDelivered) {
+    order.isDelivered = true;
+    order.deliveredAt = Date.now();
+  }
+
   const updatedOrder = await order.save();
 
   res.json({
@@ -238,7 +707,12 @@ const updateOrderStatus = asyncHandler(async (req, res) => {
 module.exports = {
   createOrder,
   getOrderById,
+  getOrderInvoice,
+  getInvoices,
   updateOrderToPaid,
+  processMockPayment,
+  cancelOrder,
+  refundOrder,
   updateOrderToDelivered,
   getMyOrders,
   getOrders,
@@ -0,0 +1,73 @@
+const asyncHandler = require('../middleware/asyncHandler');
+const { isShippingMethod } = require('../utils/pricingRules');
+const {
+  buildOrderItems,
+  getOrderShippingOptions,
+  calculatePrices,
+  resolveCoupon,
+} = require('../utils/orderPricing');
+
+// @desc    Quote shipping, tax and totals for cart items
+// @route   POST /api/pricing/quote
+// @access  Public
+const getQuote = asyncHandler(async (req, res) => {
+  const {
+    items,
+    shippingAddress,
+    shippingMethod = 'standard',
+    couponCode,
+  } = req.body;
+
+  if (!Array.isArray(items) || items.length === 0) {
+    res.status(400);
+    throw new Error('Your cart is empty');
+  }
+
+  if (!isShippingMethod(shippingMethod)) {
+    res.status(400);
+    throw new Error(`Unknown shipping method: ${shippingMethod}`);
+  }
+
+  const { orderItems, error: itemsError } = await buildOrderItems(items);
+
+  if (itemsError) {
+    res.status(400);
+    throw new Error(itemsError);
+  }
+
+  // A coupon that no longer applies shouldn't stop the rest of the quote
+  let coupon = null;
+  let couponError;
+  if (couponCode) {
+    const result = await resolveCoupon(couponCode, {
+      orderItems,
+      shippingMethod,
+      shippingAddress,
+      userId: req.user && req.user._id,
+    });
+    coupon = result.coupon || null;
+    couponError = result.error;
+  }
+
+  res.json({
+    success: true,
+    data: {
+      priceBreakdown: calculatePrices(orderItems, {
+        shippingMethod,
+        shippingAddress,
+        coupon,
+      }),
+      shippingOptions: getOrderShippingOptions(orderItems, shippingAddress),
+      coupon: coupon && {
+        code: coupon.code,
+        type: coupon.type,
+        description: coupon.description,
+      },
+      couponError,
+    },
+  });
+});
+
+module.exports = {
+  getQuote,
+};
@@ -1,40 +1,138 @@
+const mongoose = require('mongoose');
 const asyncHandler = require('../middleware/asyncHandler');
 const Product = require('../models/Product');
+const Review = require('../models/Review');
+const Question = require('../models/Question');
+const ProductAlert = require('../models/ProductAlert');
+const { rankProducts, getHighlights, invalidateSearchIndex } = require('../utils/search');
+const { parseFilters, buildFilter, getFacetCounts, parseSort } = require('../utils/facets');
+const { getSuggestions, invalidateSuggestions } = require('../utils/suggestions');
+const { findSimilarScents } = require('../utils/scent');
+const { buildAffinities, getBoughtTogether } = require('../utils/recommendations');
+const { getAlertSnapshot, notifyProductAlerts } = require('../utils/alerts');
+const { deleteReviewPhotos } = require('../utils/reviews');
 
-// @desc    Get all products
+// @desc    Get all products, with facet counts for the listing filters
 // @route   GET /api/products
 // @access  Public
 const getProducts = asyncHandler(async (req, res) => {
   const pageSize = 12;
   const page = Number(req.query.page) || 1;
+  const filters = parseFilters(req.query);
+  const sort = parseSort(req.query);
 
-  const keyword = req.query.keyword
-    ? {
-        name: {
-          $regex: req.query.keyword,
-          $options: 'i',
-        },
-      }
+  // Keyword searches only consider matching products and rank them by relevance
+  // unless another sort was asked for
+  const ranked = req.query.keyword ? await rankProducts(String(req.query.keyword)) : null;
+  const base = ranked
+    ? { _id: { $in: ranked.map((result) => new mongoose.Types.ObjectId(result.id)) } }
     : {};
+  const filter = buildFilter(base, filters);
+  const facets = await getFacetCounts(base, filters);
 
-  const category = req.query.category ? { category: req.query.category } : {};
-  const scent = req.query.scent ? { scent: req.query.scent } : {};
-  
-  const minPrice = req.query.minPrice ? { price: { $gte: Number(req.query.minPrice) } } : {};
-  const maxPrice = req.query.maxPrice ? { price: { $lte: Number(req.query.maxPrice) } } : {};
+  if (ranked && !sort) {
+    const allowed = await Product.find(filter).select('_id').lean();
+    const allowedIds = new Set(allowed.map((product) => product._id.toString()));
+    const matches = ranked.filter((result) => allowedIds.has(result.id));
+    const pageMatches = matches.slice(pageSize * (page - 1), pageSize * page);
+    const products = await Product.find({ _id: { $in: pageMatches.map((result) => result.id) } });
+    const productsById = new Map(products.map((product) => [product._id.toString(), product]));
 
-  const count = await Product.countDocuments({ ...keyword, ...category, ...scent, ...minPrice, ...maxPrice });
-  const products = await Product.find({ ...keyword, ...category, ...scent, ...minPrice, ...maxPrice })
+    res.json({
+      success: true,
+      data: pageMatches
+        .filter((result) => productsById.has(result.id))
+        .map((result) => {
+          const product = productsById.get(result.id);
+          return {
+            ...product.toJSON(),
+            highlights: getHighlights(product, result.terms),
+          };
+        }),
+      page,
+      pages: Math.ceil(matches.length / pageSize),
+      total: matches.length,
+      facets,
+    });
+    return;
+  }
+
+  const count = await Product.countDocuments(filter);
+  const products = await Product.find(filter)
     .limit(pageSize)
     .skip(pageSize * (page - 1))
-    .sort({ createdAt: -1 });
+    .sort(sort || { createdAt: -1 });
+  const termsById = new Map((ranked || []).map((result) => [result.id, result.terms]));
 
   res.json({
     success: true,
-    data: products,
+    data: ranked
+      ? products.map((product) => ({
+          ...product.toJSON(),
+          highlights: getHighlights(product, termsById.get(product._id.toString())),
+        }))
+      : products,
     page,
     pages: Math.ceil(count / pageSize),
     total: count,
+    facets,
+  });
+});
+
+// @desc    Quick product search with highlighted matches
+// @route   GET /api/products/search?q=&limit=
+// @access  Public
+const searchProducts = asyncHandler(async (req, res) => {
+  const limit = Math.min(Math.max(Number(req.query.limit) || 8, 1), 20);
+  const ranked = (await rankProducts(String(req.query.q || ''))).slice(0, limit);
+  const products = await Product.find({ _id: { $in: ranked.map((result) => result.id) } })
+    .select('name description price images category scent stock variants.price');
+  const productsById = new Map(products.map((product) => [product._id.toString(), product]));
+
+  res.json({
+    success: true,
+    data: ranked
+      .filter((result) => productsById.has(result.id))
+      .map((result) => {
+        const product = productsById.get(result.id);
+        return {
+          product,
+          score: result.score,
+          highlights: getHighlights(product, result.terms),
+        };
+      }),
+  });
+});
+
+// @desc    Autocomplete suggestions for a search prefix
+// @route   GET /api/products/suggestions?q=&limit=
+// @access  Public
+const getSearchSuggestions = asyncHandler(async (req, res) => {
+  const limit = Math.min(Math.max(Number(req.query.limit) || 8, 1), 20);
+  const suggestions = await getSuggestions(String(req.query.q || ''), limit);
+
+  res.json({
+    success: true,
+    data: suggestions,
+  });
+});
+
+// @desc    Get several products by ID, in the order asked for
+// @route   GET /api/products/batch?ids=
+// @access  Public
+const getProductsByIds = asyncHandler(async (req, res) => {
+  const maxIds = 50;
+  const ids = Array.from(new Set(String(req.query.ids || '').split(',')))
+    .filter((id) => mongoose.isValidObjectId(id))
+    .slice(0, maxIds);
+
+  // Deleted products are simply left out
+  const products = await Product.find({ _id: { $in: ids } });
+  const productsById = new Map(products.map((product) => [product._id.toString(), product]));
+
+  res.json({
+    success: true,
+    data: ids.filter((id) => productsById.has(id)).map((id) => productsById.get(id)),
   });
 });
 
@@ -66,6 +164,96 @@ const getProductById = asyncHandler(async (req, res) => {
   });
 });
 
+// @desc    Get products related to a product
+// @route   GET /api/products/:id/related
+// @access  Public
+const getRelatedProducts = asyncHandler(async (req, res) => {
+  const limit = 4;
+  const product = await Product.findById(req.params.id);
+
+  if (!product) {
+    res.status(404);
+    throw new Error('Product not found');
+  }
+
+  // Closest scent profiles first, topped up with the same scent name and then
+  // the rest of the category for products without (enough) overlapping notes
+  const related = await findSimilarScents(product, limit);
+  const fillers = [
+    ...(product.scent ? [{ scent: product.scent }] : []),
+    { category: product.category },
+  ];
+
+  for (const filler of fillers) {
+    // limit(0) would mean no limit, so stop once the list is full
+    if (related.length >= limit) break;
+    related.push(
+      ...(await Product.find({
+        _id: { $nin: [product._id, ...related.map((item) => item._id)] },
+        ...filler,
+        stock: { $gt: 0 },
+      })
+        .sort({ rating: -1 })
+        .limit(limit - related.length))
+    );
+  }
+
+  res.json({
+    success: true,
+    data: related,
+  });
+});
+
+// @desc    Get products frequently bought with a product
+// @route   GET /api/products/:id/bought-together
+// @access  Public
+const getProductBoughtTogether = asyncHandler(async (req, res) => {
+  if (!mongoose.isValidObjectId(req.params.id)) {
+    res.status(404);
+    throw new Error('Product not found');
+  }
+
+  const products = await getBoughtTogether([req.params.id], 3);
+
+  res.json({
+    success: true,
+    data: products,
+  });
+});
+
+// @desc    Get products frequently bought with a set of products, e.g. a cart
+// @route   GET /api/products/bought-together?ids=
+// @access  Public
+const getBoughtTogetherForProducts = asyncHandler(async (req, res) => {
+  const ids = String(req.query.ids || '')
+    .split(',')
+    .filter((id) => mongoose.isValidObjectId(id));
+
+  if (ids.length === 0) {
+    res.status(400);
+    throw new Error('Please provide product ids');
+  }
+
+  const products = await getBoughtTogether(ids, 4);
+
+  res.json({
+    success: true,
+    data: products,
+  });
+});
+
+// @desc    Rebuild frequently-bought-together data from paid orders
+// @route   POST /api/products/bought-together/rebuild
+// @access  Private/Admin
+const rebuildBoughtTogether = asyncHandler(async (req, res) => {
+  const summary = await buildAffinities();
+
+  res.json({
+    success: true,
+    data: summary,
+  });
+});
+
 // @desc    Create a product
 // @route   POST /api/products
 // @access  Private/Admin
@@ -77,10 +265,14 @@ const createProduct = asyncHandler(async (req, res) => {
     images,
     category,
     scent,
+    scentProfile,
     stock,
     dimensions,
     burnTime,
+    weight,
     featured,
+    options,
+    variants,
   } = req.body;
 
   const product = await Product.create({
@@ -90,11 +282,17 @@ const createProduct = asyncHandler(async (req, res) => {
     images,
     category,
     scent,
+    scentProfile,
     stock,
     dimensions,
     burnTime,
+    weight,
     featured: featured || false,
+    options,
+    variants,
   });
+  invalidateSearchIndex();
+  invalidateSuggestions();
 
   res.status(201).json({
     success: true,
@@ -102,6 +300,14 @@ const createProduct = asyncHandler(async (req, res) => {
   });
 });
 
+// Let customers watching the product know if it was restocked or got cheaper.
+// Runs in the background so the admin's save isn't held up by email.
+const triggerProductAlerts = (product, previous) => {
+  notifyProductAlerts(product, previous).catch((error) =>
+    console.error(`Failed to send alerts for product ${product._id}:`, error)
+  );
+};
+
 // @desc    Update a product
 // @route   PUT /api/products/:id
 // @access  Private/Admin
@@ -113,11 +319,14 @@ const updateProduct = asyncHandler(async (req, res) => {
     throw new Error('Product not found');
   }
 
-  const updatedProduct = await Product.findByIdAndUpdate(
-    req.params.id,
-    req.body,
-    { new: true, runValidators: true }
-  );
+  const previous = getAlertSnapshot(product);
+
+  // Saved through the document so variant checks and the price and stock totals run
+  product.set(req.body);
+  const updatedProduct = await product.save();
+  invalidateSearchIndex();
+  invalidateSuggestions();
+  triggerProductAlerts(updatedProduct, previous);
 
   res.json({
     success: true,
@@ -125,10 +334,30 @@ const updateProduct = asyncHandler(async (req, res) => {
   });
 });
 
-// @desc    Delete a product
-// @route   DELETE /api/products/:id
+const VARIANT_FIELDS = ['sku', 'options', 'price', 'stock', 'dimensions', 'burnTime', 'weight', 'images'];
+
+const pickVariantFields = (body = {}) =>
+  Object.fromEntries(
+    VARIANT_FIELDS
+      .filter((field) => body[field] !== undefined)
+      .map((field) => [field, body[field]])
+  );
+
+const findVariant = (product, variantId, res) => {
+  const variant = mongoose.isValidObjectId(variantId) ? product.variants.id(variantId) : null;
+
+  if (!variant) {
+    res.status(404);
+    throw new Error('Variant not found');
+  }
+
+  return variant;
+};
+
+// @desc    Add a variant to a product
+// @route   POST /api/products/:id/variants
 // @access  Private/Admin
-const deleteProduct = asyncHandler(async (req, res) => {
+const createProductVariant = asyncHandler(async (req, res) => {
   const product = await Product.findById(req.params.id);
 
   if (!product) {
@@ -136,20 +365,49 @@ const deleteProduct = asyncHandler(async (req, res) => {
     throw new Error('Product not found');
   }
 
-  await product.remove();
+  const previous = getAlertSnapshot(product);
 
-  res.json({
+  product.variants.push(pickVariantFields(req.body));
+  const updatedProduct = await product.save();
+  invalidateSearchIndex();
+  invalidateSuggestions();
+  triggerProductAlerts(updatedProduct, previous);
+
+  res.status(201).json({
     success: true,
-    message: 'Product removed successfully',
+    data: updatedProduct,
   });
 });
 
-// @desc    Create new review
-// @route   POST /api/products/:id/reviews
-// @access  Private
-const createProductReview = asyncHandler(async (req, res) => {
-  const { rating, comment } = req.body;
+// @desc    Update a product variant
+// @route   PUT /api/products/:id/variants/:variantId
+// @access  Private/Admin
+const updateProductVariant = asyncHandler(async (req, res) => {
+  const product = await Product.findById(req.params.id);
 
+  if (!product) {
+    res.status(404);
+    throw new Error('Product not found');
+  }
+
+  const previous = getAlertSnapshot(product);
+
+  findVariant(product, req.params.variantId, res).set(pickVariantFields(req.body));
+  const updatedProduct = await product.save();
+  invalidateSearchIndex();
+  invalidateSuggestions();
+  triggerProductAlerts(updatedProduct, previous);
+
+  res.json({
+    success: true,
+    data: updatedProduct,
+  });
+});
+
+// @desc    Delete a product variant
+// @route   DELETE /api/products/:id/variants/:variantId
+// @access  Private/Admin
+const deleteProductVariant = asyncHandler(async (req, res) => {
   const product = await Product.findById(req.params.id);
 
   if (!product) {
@@ -157,38 +415,66 @@ const createProductReview = asyncHandler(async (req, res) => {
     throw new Error('Product not found');
   }
 
-  // Check if user already reviewed
-  const alreadyReviewed = product.reviews.find(
-    (review) => review.user.toString() === req.user._id.toString()
-  );
+  const previous = getAlertSnapshot(product);
 
-  if (alreadyReviewed) {
-    res.status(400);
-    throw new Error('Product already reviewed');
+  findVariant(product, req.params.variantId, res).deleteOne();
+  const updatedProduct = await product.save();
+  invalidateSearchIndex();
+  invalidateSuggestions();
+  triggerProductAlerts(updatedProduct, previous);
+
+  res.json({
+    success: true,
+    data: updatedProduct,
+  });
+});
+
+// @desc    Delete a product
+// @route   DELETE /api/products/:id
+// @access  Private/Admin
+const deleteProduct = asyncHandler(async (req, res) => {
+  const product = await Product.findById(req.params.id);
+
+  if (!product) {
+    res.status(404);
+    throw new Error('Product not found');
   }
 
-  const review = {
-    name: req.user.name,
-    rating: Number(rating),
-    comment,
-    user: req.user._id,
-  };
+  // Read before the reviews go so their photos can be removed too
+  const reviews = await Review.find({ product: product._id }).select('photos').lean();
 
-  product.reviews.push(review);
-  await product.save();
+  await product.deleteOne();
+  await Promise.all([
+    Review.deleteMany({ product: product._id }).then(() =>
+      deleteReviewPhotos(reviews.flatMap((review) => review.photos))
+    ),
+    Question.deleteMany({ product: product._id }),
+    ProductAlert.deleteMany({ product: product._id }),
+  ]);
+  invalidateSearchIndex();
+  invalidateSuggestions();
 
-  res.status(201).json({
+  res.json({
     success: true,
-    message: 'Review added successfully',
+    message: 'Product removed successfully',
   });
 });
 
 module.exports = {
   getProducts,
+  searchProducts,
+  getSearchSuggestions,
   getFeaturedProducts,
+  getProductsByIds,
   getProductById,
+  getRelatedProducts,
+  getProductBoughtTogether,
+  getBoughtTogetherForProducts,
+  rebuildBoughtTogether,
   createProduct,
   updateProduct,
   deleteProduct,
-  createProductReview,
+  createProductVariant,
+  updateProductVariant,
+  deleteProductVariant,
 };
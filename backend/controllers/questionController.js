@@ -0,0 +1,310 @@
+const mongoose = require('mongoose');
+const asyncHandler = require('../middleware/asyncHandler');
+const Question = require('../models/Question');
+const Product = require('../models/Product');
+const { tokenize, invalidateSearchIndex } = require('../utils/search');
+const { hasPurchased } = require('../utils/reviews');
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Most upvoted answers first; staff answers break ties. Voters stay private.
+const sortAnswers = (question) => {
+  const json = question.toJSON();
+  json.answers = json.answers
+    .map(({ upvotes, ...answer }) => answer)
+    .sort(
+      (a, b) =>
+        b.upvoteCount - a.upvoteCount ||
+        Number(b.isStaff) - Number(a.isStaff) ||
+        new Date(a.createdAt) - new Date(b.createdAt)
+    );
+  return json;
+};
+
+const findQuestion = async (id, res) => {
+  const question = mongoose.isValidObjectId(id) ? await Question.findById(id) : null;
+
+  if (!question) {
+    res.status(404);
+    throw new Error('Question not found');
+  }
+
+  return question;
+};
+
+const canAnswer = async (user, productId) =>
+  user.role === 'admin' || hasPurchased(user._id, productId);
+
+// @desc    Get a product's questions and answers, optionally matching a search
+// @route   GET /api/products/:id/questions?q=&page=
+// @access  Public
+const getProductQuestions = asyncHandler(async (req, res) => {
+  const pageSize = 10;
+  const page = Math.max(Number(req.query.page) || 1, 1);
+
+  if (!mongoose.isValidObjectId(req.params.id) || !(await Product.exists({ _id: req.params.id }))) {
+    res.status(404);
+    throw new Error('Product not found');
+  }
+
+  // Every word has to appear in the question or one of its answers
+  const terms = tokenize(req.query.q);
+  const filter = {
+    product: req.params.id,
+    ...(terms.length > 0 && {
+      $and: terms.map((term) => {
+        const pattern = new RegExp(`\\b${escapeRegex(term)}`, 'i');
+        return { $or: [{ body: pattern }, { 'answers.body': pattern }] };
+      }),
+    }),
+  };
+
+  const [count, questions] = await Promise.all([
+    Question.countDocuments(filter),
+    Question.find(filter)
+      .sort({ answerCount: -1, createdAt: -1 })
+      .limit(pageSize)
+      .skip(pageSize * (page - 1)),
+  ]);
+
+  res.json({
+    success: true,
+    data: questions.map(sortAnswers),
+    page,
+    pages: Math.ceil(count / pageSize),
+    total: count,
+  });
+});
+
+// @desc    Get a single question and its answers
+// @route   GET /api/questions/:id
+// @access  Public
+const getQuestion = asyncHandler(async (req, res) => {
+  const question = await findQuestion(req.params.id, res);
+
+  res.json({
+    success: true,
+    data: sortAnswers(question),
+  });
+});
+
+// @desc    Ask a question about a product
+// @route   POST /api/products/:id/questions
+// @access  Private
+const askQuestion = asyncHandler(async (req, res) => {
+  const body = typeof req.body.body === 'string' ? req.body.body.trim() : '';
+
+  if (!body) {
+    res.status(400);
+    throw new Error('Please add a question');
+  }
+
+  if (!mongoose.isValidObjectId(req.params.id) || !(await Product.exists({ _id: req.params.id }))) {
+    res.status(404);
+    throw new Error('Product not found');
+  }
+
+  const question = await Question.create({
+    product: req.params.id,
+    user: req.user._id,
+    name: req.user.name,
+    body,
+  });
+
+  res.status(201).json({
+    success: true,
+    data: question,
+  });
+});
+
+// @desc    Delete a question and its answers
+// @route   DELETE /api/questions/:id
+// @access  Private (asker) or Admin
+const deleteQuestion = asyncHandler(async (req, res) => {
+  const question = await findQuestion(req.params.id, res);
+
+  if (question.user.toString() !== req.user._id.toString() && req.user.role !== 'admin') {
+    res.status(403);
+    throw new Error('Not authorized to delete this question');
+  }
+
+  await question.deleteOne();
+  if (question.answerCount > 0) invalidateSearchIndex();
+
+  res.json({
+    success: true,
+    message: 'Question deleted',
+  });
+});
+
+// @desc    Answer a question
+// @route   POST /api/questions/:id/answers
+// @access  Private (admins and customers who bought the product)
+const answerQuestion = asyncHandler(async (req, res) => {
+  const body = typeof req.body.body === 'string' ? req.body.body.trim() : '';
+
+  if (!body) {
+    res.status(400);
+    throw new Error('Please add an answer');
+  }
+
+  const question = await findQuestion(req.params.id, res);
+  const isStaff = req.user.role === 'admin';
+  const verifiedBuyer = await hasPurchased(req.user._id, question.product);
+
+  if (!isStaff && !verifiedBuyer) {
+    res.status(403);
+    throw new Error('Only customers who have bought this product can answer');
+  }
+
+  // Updated in place so answers and upvotes added meanwhile aren't overwritten
+  const updated = await Question.findByIdAndUpdate(
+    question._id,
+    {
+      $push: {
+        answers: {
+          user: req.user._id,
+          name: isStaff ? 'Moh-Scent team' : req.user.name,
+          body,
+          isStaff,
+          verifiedBuyer,
+        },
+      },
+      $inc: { answerCount: 1 },
+    },
+    { new: true, runValidators: true }
+  );
+  invalidateSearchIndex();
+
+  res.status(201).json({
+    success: true,
+    data: sortAnswers(updated),
+  });
+});
+
+// @desc    Delete an answer
+// @route   DELETE /api/questions/:id/answers/:answerId
+// @access  Private (answerer) or Admin
+const deleteAnswer = asyncHandler(async (req, res) => {
+  const question = await findQuestion(req.params.id, res);
+  const answer = question.answers.id(req.params.answerId);
+
+  if (!answer) {
+    res.status(404);
+    throw new Error('Answer not found');
+  }
+
+  if (answer.user.toString() !== req.user._id.toString() && req.user.role !== 'admin') {
+    res.status(403);
+    throw new Error('Not authorized to delete this answer');
+  }
+
+  const updated = await Question.findByIdAndUpdate(
+    question._id,
+    { $pull: { answers: { _id: answer._id } }, $inc: { answerCount: -1 } },
+    { new: true }
+  );
+  invalidateSearchIndex();
+
+  res.json({
+    success: true,
+    data: sortAnswers(updated),
+  });
+});
+
+// Add or take back the user's upvote. The filter only matches when the vote
+// would change something, so repeated requests can't skew the count.
+const setUpvote = async (req, res, upvoted) => {
+  if (!mongoose.isValidObjectId(req.params.id) || !mongoose.isValidObjectId(req.params.answerId)) {
+    res.status(404);
+    throw new Error('Answer not found');
+  }
+
+  const userId = req.user._id;
+  await Question.updateOne(
+    {
+      _id: req.params.id,
+      answers: {
+        $elemMatch: {
+          _id: req.params.answerId,
+          user: { $ne: userId },
+          upvotes: upvoted ? { $ne: userId } : userId,
+        },
+      },
+    },
+    upvoted
+      ? { $push: { 'answers.$.upvotes': userId }, $inc: { 'answers.$.upvoteCount': 1 } }
+      : { $pull: { 'answers.$.upvotes': userId }, $inc: { 'answers.$.upvoteCount': -1 } }
+  );
+
+  const question = await Question.findOne({
+    _id: req.params.id,
+    'answers._id': req.params.answerId,
+  });
+
+  if (!question) {
+    res.status(404);
+    throw new Error('Answer not found');
+  }
+
+  const answer = question.answers.id(req.params.answerId);
+  if (answer.user.toString() === userId.toString()) {
+    res.status(400);
+    throw new Error('You cannot upvote your own answer');
+  }
+
+  res.json({
+    success: true,
+    data: { upvoteCount: answer.upvoteCount, upvoted },
+  });
+};
+
+// @desc    Upvote an answer
+// @route   POST /api/questions/:id/answers/:answerId/upvote
+// @access  Private
+const upvoteAnswer = asyncHandler(async (req, res) => setUpvote(req, res, true));
+
+// @desc    Take back an upvote
+// @route   DELETE /api/questions/:id/answers/:answerId/upvote
+// @access  Private
+const removeAnswerUpvote = asyncHandler(async (req, res) => setUpvote(req, res, false));
+
+// @desc    Get what the logged in user can do in a product's Q&A
+// @route   GET /api/questions/mine?product=
+// @access  Private
+const getMyQuestionActivity = asyncHandler(async (req, res) => {
+  if (!mongoose.isValidObjectId(req.query.product)) {
+    res.status(400);
+    throw new Error('Invalid product ID');
+  }
+
+  const [allowed, upvoted] = await Promise.all([
+    canAnswer(req.user, req.query.product),
+    Question.aggregate([
+      { $match: { product: new mongoose.Types.ObjectId(req.query.product) } },
+      { $unwind: '$answers' },
+      { $match: { 'answers.upvotes': req.user._id } },
+      { $project: { _id: '$answers._id' } },
+    ]),
+  ]);
+
+  res.json({
+    success: true,
+    data: {
+      canAnswer: allowed,
+      upvotedAnswers: upvoted.map(({ _id }) => _id.toString()),
+    },
+  });
+});
+
+module.exports = {
+  getProductQuestions,
+  getQuestion,
+  askQuestion,
+  deleteQuestion,
+  answerQuestion,
+  deleteAnswer,
+  upvoteAnswer,
+  removeAnswerUpvote,
+  getMyQuestionActivity,
+};
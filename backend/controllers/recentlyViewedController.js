@@ -0,0 +1,100 @@
+const mongoose = require('mongoose');
+const asyncHandler = require('../middleware/asyncHandler');
+const RecentlyViewed = require('../models/RecentlyViewed');
+const Product = require('../models/Product');
+
+const MAX_RECENTLY_VIEWED = 20;
+
+// Newest view per product, newest first, capped, dropping unknown products
+const mergeItems = async (items) => {
+  const latest = new Map();
+
+  items.forEach((item) => {
+    if (!item || !mongoose.isValidObjectId(item.product)) return;
+    const viewedAt = new Date(item.viewedAt);
+    if (Number.isNaN(viewedAt.getTime())) return;
+
+    const key = item.product.toString();
+    const previous = latest.get(key);
+    if (!previous || viewedAt > previous) {
+      latest.set(key, viewedAt);
+    }
+  });
+
+  const newest = Array.from(latest.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_RECENTLY_VIEWED);
+  const existing = await Product.find({ _id: { $in: newest.map(([product]) => product) } })
+    .select('_id')
+    .lean();
+  const existingIds = new Set(existing.map((product) => product._id.toString()));
+
+  return newest
+    .filter(([product]) => existingIds.has(product))
+    .map(([product, viewedAt]) => ({ product, viewedAt }));
+};
+
+const formatHistory = (history) => ({
+  items: history.items.map((item) => ({ product: item.product, viewedAt: item.viewedAt })),
+});
+
+// @desc    Get logged in user's recently viewed products
+// @route   GET /api/recently-viewed
+// @access  Private
+const getRecentlyViewed = asyncHandler(async (req, res) => {
+  const history = await RecentlyViewed.findOne({ user: req.user._id });
+
+  res.json({
+    success: true,
+    data: history ? formatHistory(history) : { items: [] },
+  });
+});
+
+// @desc    Record product views, merging them into the saved history
+// @route   POST /api/recently-viewed
+// @access  Private
+const recordRecentlyViewed = asyncHandler(async (req, res) => {
+  const { items } = req.body;
+
+  if (!Array.isArray(items)) {
+    res.status(400);
+    throw new Error('Recently viewed items must be an array');
+  }
+
+  const existing = await RecentlyViewed.findOne({ user: req.user._id }).lean();
+  const merged = await mergeItems([...(existing ? existing.items : []), ...items]);
+
+  // Upserted, since a page view and the login merge often create the history together
+  const history = await RecentlyViewed.findOneAndUpdate(
+    { user: req.user._id },
+    { items: merged },
+    { new: true, upsert: true, setDefaultsOnInsert: true }
+  );
+
+  res.json({
+    success: true,
+    data: formatHistory(history),
+  });
+});
+
+// @desc    Clear logged in user's recently viewed products
+// @route   DELETE /api/recently-viewed
+// @access  Private
+const clearRecentlyViewed = asyncHandler(async (req, res) => {
+  await RecentlyViewed.findOneAndUpdate(
+    { user: req.user._id },
+    { items: [] },
+    { upsert: true }
+  );
+
+  res.json({
+    success: true,
+    data: { items: [] },
+  });
+});
+
+module.exports = {
+  getRecentlyViewed,
+  recordRecentlyViewed,
+  clearRecentlyViewed,
+};
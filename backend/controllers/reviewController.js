@@ -0,0 +1,424 @@
+const mongoose = require('mongoose');
+const asyncHandler = require('../middleware/asyncHandler');
+const Review = require('../models/Review');
+const Product = require('../models/Product');
+const { publicUrl } = require('../config/uploads');
+const {
+  hasPurchased,
+  saveReviewPhoto,
+  toPhotoPath,
+  ownsReviewPhotos,
+  deleteReviewPhotos,
+  syncReviewPhotos,
+} = require('../utils/reviews');
+
+const REVIEW_SORTS = {
+  helpful: { helpfulCount: -1, createdAt: -1 },
+  newest: { createdAt: -1 },
+  highest: { rating: -1, createdAt: -1 },
+  lowest: { rating: 1, createdAt: -1 },
+};
+
+// Validate the customer-editable fields of a review. Photos come back as the URLs
+// the upload returned and are stored as their paths.
+const parseReviewInput = async (body, res, userId, reviewId) => {
+  const rating = Number(body.rating);
+  const comment = typeof body.comment === 'string' ? body.comment.trim() : '';
+  const photos = (Array.isArray(body.photos) ? body.photos : []).map(toPhotoPath);
+
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    res.status(400);
+    throw new Error('Rating must be a whole number from 1 to 5');
+  }
+
+  if (!comment) {
+    res.status(400);
+    throw new Error('Please add a comment');
+  }
+
+  if (
+    (body.photos !== undefined && !Array.isArray(body.photos)) ||
+    photos.some((photo) => !photo)
+  ) {
+    res.status(400);
+    throw new Error('Review photos must be uploaded first');
+  }
+
+  if (photos.length > Review.MAX_PHOTOS) {
+    res.status(400);
+    throw new Error(`A review can have at most ${Review.MAX_PHOTOS} photos`);
+  }
+
+  if (!(await ownsReviewPhotos(userId, photos, reviewId))) {
+    res.status(400);
+    throw new Error('Review photos must be uploaded first');
+  }
+
+  return { rating, comment, photos };
+};
+
+const findReview = async (id, res, select) => {
+  const review = mongoose.isValidObjectId(id) ? await Review.findById(id).select(select) : null;
+
+  if (!review) {
+    res.status(404);
+    throw new Error('Review not found');
+  }
+
+  return review;
+};
+
+// @desc    Get a product's approved reviews with its rating breakdown
+// @route   GET /api/products/:id/reviews?sort=&rating=&page=
+// @access  Public
+const getProductReviews = asyncHandler(async (req, res) => {
+  const pageSize = 10;
+  const page = Math.max(Number(req.query.page) || 1, 1);
+  const sort = REVIEW_SORTS[req.query.sort] || REVIEW_SORTS.helpful;
+  const product = mongoose.isValidObjectId(req.params.id)
+    ? await Product.findById(req.params.id).select('rating numReviews')
+    : null;
+
+  if (!product) {
+    res.status(404);
+    throw new Error('Product not found');
+  }
+
+  const base = { product: product._id, status: 'approved' };
+  const filter = { ...base };
+  if (req.query.rating) {
+    filter.rating = Number(req.query.rating);
+  }
+
+  const [count, reviews, distribution] = await Promise.all([
+    Review.countDocuments(filter),
+    Review.find(filter)
+      .sort(sort)
+      .limit(pageSize)
+      .skip(pageSize * (page - 1)),
+    Review.aggregate([
+      { $match: base },
+      { $group: { _id: '$rating', count: { $sum: 1 } } },
+    ]),
+  ]);
+  const countsByRating = new Map(distribution.map(({ _id, count }) => [_id, count]));
+
+  res.json({
+    success: true,
+    data: reviews,
+    page,
+    pages: Math.ceil(count / pageSize),
+    total: count,
+    summary: {
+      rating: product.rating,
+      numReviews: product.numReviews,
+      distribution: [5, 4, 3, 2, 1].map((stars) => ({
+        stars,
+        count: countsByRating.get(stars) || 0,
+      })),
+    },
+  });
+});
+
+// @desc    Review a product; it is published once a moderator approves it
+// @route   POST /api/products/:id/reviews
+// @access  Private
+const createProductReview = asyncHandler(async (req, res) => {
+  const input = await parseReviewInput(req.body, res, req.user._id);
+  const product = mongoose.isValidObjectId(req.params.id)
+    ? await Product.findById(req.params.id).select('_id')
+    : null;
+
+  if (!product) {
+    res.status(404);
+    throw new Error('Product not found');
+  }
+
+  if (await Review.exists({ product: product._id, user: req.user._id })) {
+    res.status(400);
+    throw new Error('Product already reviewed');
+  }
+
+  const review = await Review.create({
+    ...input,
+    product: product._id,
+    user: req.user._id,
+    name: req.user.name,
+    verifiedPurchase: await hasPurchased(req.user._id, product._id),
+  });
+  await syncReviewPhotos(review);
+
+  res.status(201).json({
+    success: true,
+    message: 'Thanks! Your review will appear once it has been checked',
+    data: review,
+  });
+});
+
+// @desc    Get logged in user's reviews, including ones awaiting moderation
+// @route   GET /api/reviews/mine?product=
+// @access  Private
+const getMyReviews = asyncHandler(async (req, res) => {
+  const filter = { user: req.user._id };
+  if (req.query.product) {
+    if (!mongoose.isValidObjectId(req.query.product)) {
+      res.status(400);
+      throw new Error('Invalid product ID');
+    }
+    filter.product = req.query.product;
+  }
+
+  const reviews = await Review.find(filter)
+    .populate('product', 'name images')
+    .sort({ createdAt: -1 });
+
+  res.json({
+    success: true,
+    data: reviews,
+  });
+});
+
+// @desc    Get logged in user's helpful/unhelpful votes on a product's reviews
+// @route   GET /api/reviews/votes?product=
+// @access  Private
+const getMyVotes = asyncHandler(async (req, res) => {
+  if (!mongoose.isValidObjectId(req.query.product)) {
+    res.status(400);
+    throw new Error('Invalid product ID');
+  }
+
+  const reviews = await Review.find({
+    product: req.query.product,
+    'votes.user': req.user._id,
+  })
+    .select('+votes')
+    .lean();
+  const userId = req.user._id.toString();
+
+  res.json({
+    success: true,
+    data: Object.fromEntries(
+      reviews.map((review) => [
+        review._id.toString(),
+        review.votes.find((vote) => vote.user.toString() === userId).helpful,
+      ])
+    ),
+  });
+});
+
+// @desc    Edit a review; it goes back to moderation
+// @route   PUT /api/reviews/:id
+// @access  Private
+const updateReview = asyncHandler(async (req, res) => {
+  const review = await findReview(req.params.id, res);
+
+  if (review.user.toString() !== req.user._id.toString()) {
+    res.status(403);
+    throw new Error('Not authorized to edit this review');
+  }
+
+  const input = await parseReviewInput(req.body, res, req.user._id, review._id);
+  const wasApproved = review.status === 'approved';
+  const previousPhotos = [...review.photos];
+
+  review.set({
+    ...input,
+    name: req.user.name,
+    verifiedPurchase: await hasPurchased(req.user._id, review.product),
+    status: 'pending',
+    moderationNote: undefined,
+    moderatedBy: undefined,
+    moderatedAt: undefined,
+  });
+  await review.save();
+  await syncReviewPhotos(review, previousPhotos);
+
+  if (wasApproved) {
+    await Review.updateProductRating(review.product);
+  }
+
+  res.json({
+    success: true,
+    message: 'Your changes will appear once they have been checked',
+    data: review,
+  });
+});
+
+// @desc    Delete a review
+// @route   DELETE /api/reviews/:id
+// @access  Private (author) or Admin
+const deleteReview = asyncHandler(async (req, res) => {
+  const review = await findReview(req.params.id, res);
+
+  if (review.user.toString() !== req.user._id.toString() && req.user.role !== 'admin') {
+    res.status(403);
+    throw new Error('Not authorized to delete this review');
+  }
+
+  await review.deleteOne();
+  await Review.updateProductRating(review.product);
+  await deleteReviewPhotos(review.photos);
+
+  res.json({
+    success: true,
+    message: 'Review deleted',
+  });
+});
+
+// @desc    Mark a review helpful or unhelpful; `helpful: null` takes the vote back
+// @route   POST /api/reviews/:id/vote
+// @access  Private
+const voteReview = asyncHandler(async (req, res) => {
+  const { helpful } = req.body;
+
+  if (helpful !== true && helpful !== false && helpful !== null) {
+    res.status(400);
+    throw new Error('Vote must be helpful (true), unhelpful (false) or null');
+  }
+
+  const review = await findReview(req.params.id, res);
+
+  if (review.status !== 'approved') {
+    res.status(404);
+    throw new Error('Review not found');
+  }
+
+  if (review.user.toString() === req.user._id.toString()) {
+    res.status(400);
+    throw new Error('You cannot vote on your own review');
+  }
+
+  // Take back any earlier vote that differs, then add the new one if there isn't one
+  // already. Each step only matches while the vote is in the state it expects, so
+  // concurrent requests can't count a vote twice.
+  const userId = req.user._id;
+  const replaced = helpful === null ? [true, false] : [!helpful];
+  for (const previous of replaced) {
+    await Review.updateOne(
+      { _id: review._id, votes: { $elemMatch: { user: userId, helpful: previous } } },
+      {
+        $pull: { votes: { user: userId } },
+        $inc: { [previous ? 'helpfulCount' : 'unhelpfulCount']: -1 },
+      }
+    );
+  }
+  if (helpful !== null) {
+    await Review.updateOne(
+      { _id: review._id, 'votes.user': { $ne: userId } },
+      {
+        $push: { votes: { user: userId, helpful } },
+        $inc: { [helpful ? 'helpfulCount' : 'unhelpfulCount']: 1 },
+      }
+    );
+  }
+
+  const counts = await Review.findById(review._id).select('helpfulCount unhelpfulCount');
+
+  res.json({
+    success: true,
+    data: {
+      helpfulCount: counts.helpfulCount,
+      unhelpfulCount: counts.unhelpfulCount,
+      vote: helpful,
+    },
+  });
+});
+
+// @desc    Upload a photo to attach to a review; the body is the raw image
+// @route   POST /api/reviews/photos
+// @access  Private
+const uploadReviewPhoto = asyncHandler(async (req, res) => {
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    res.status(400);
+    throw new Error('Please upload a JPEG, PNG or WebP image');
+  }
+
+  const { path: photoPath, error, status } = await saveReviewPhoto(
+    req.user._id,
+    req.body,
+    req.get('Content-Type')
+  );
+
+  if (error) {
+    res.status(status || 400);
+    throw new Error(error);
+  }
+
+  res.status(201).json({
+    success: true,
+    data: { url: `${publicUrl}${photoPath}` },
+  });
+});
+
+// @desc    Get reviews for moderation, oldest first
+// @route   GET /api/reviews/moderation?status=&page=
+// @access  Private/Admin
+const getModerationQueue = asyncHandler(async (req, res) => {
+  const pageSize = 20;
+  const page = Math.max(Number(req.query.page) || 1, 1);
+  const status = req.query.status || 'pending';
+
+  if (!Review.STATUSES.includes(status)) {
+    res.status(400);
+    throw new Error(`Unknown review status: ${status}`);
+  }
+
+  const [count, reviews] = await Promise.all([
+    Review.countDocuments({ status }),
+    Review.find({ status })
+      .populate('product', 'name images')
+      .populate('user', 'name email')
+      .sort({ createdAt: status === 'pending' ? 1 : -1 })
+      .limit(pageSize)
+      .skip(pageSize * (page - 1)),
+  ]);
+
+  res.json({
+    success: true,
+    data: reviews,
+    page,
+    pages: Math.ceil(count / pageSize),
+    total: count,
+  });
+});
+
+// @desc    Approve or reject a review
+// @route   PUT /api/reviews/:id/moderate
+// @access  Private/Admin
+const moderateReview = asyncHandler(async (req, res) => {
+  const { status, note } = req.body;
+
+  if (!['approved', 'rejected'].includes(status)) {
+    res.status(400);
+    throw new Error('Status must be approved or rejected');
+  }
+
+  const review = await findReview(req.params.id, res);
+
+  review.set({
+    status,
+    moderationNote: note || undefined,
+    moderatedBy: req.user._id,
+    moderatedAt: new Date(),
+  });
+  await review.save();
+  await Review.updateProductRating(review.product);
+
+  res.json({
+    success: true,
+    data: review,
+  });
+});
+
+module.exports = {
+  getProductReviews,
+  createProductReview,
+  getMyReviews,
+  getMyVotes,
+  updateReview,
+  deleteReview,
+  voteReview,
+  uploadReviewPhoto,
+  getModerationQueue,
+  moderateReview,
+};
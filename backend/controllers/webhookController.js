@@ -0,0 +1,183 @@
+const crypto = require('crypto');
+const asyncHandler = require('../middleware/asyncHandler');
+const Order = require('../models/Order');
+const WebhookEvent = require('../models/WebhookEvent');
+const { markOrderPaid } = require('../utils/orderPayments');
+const { roundPrice } = require('../utils/orderPricing');
+
+// Razorpay signs the raw request body with the webhook secret from its dashboard
+const isValidSignature = (rawBody, signature) => {
+  const secret = process.env.RAZORPAY_WEBHOOK_SECRET;
+
+  if (!secret || !rawBody || typeof signature !== 'string') {
+    return false;
+  }
+
+  const expected = crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+
+  return expected.length === signature.length &&
+    crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+};
+
+const getEntity = (event) => {
+  const payload = event.payload || {};
+  const source = event.event && event.event.startsWith('refund.') ? payload.refund : payload.payment;
+  return (source && source.entity) || {};
+};
+
+// A delivery that crashed mid-processing never marks its event failed, so after this
+// long the event counts as abandoned and the next redelivery takes it over
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+// Claims the event for processing. Resolves to null when it was already processed or
+// another delivery is processing it; events that failed or stalled earlier are retried.
+const claimEvent = async (eventId, event) => {
+  try {
+    return await WebhookEvent.create({ eventId, type: event.event, payload: event });
+  } catch (error) {
+    if (error.code !== 11000) throw error;
+
+    return WebhookEvent.findOneAndUpdate(
+      {
+        eventId,
+        $or: [
+          { status: 'failed' },
+          { status: 'processing', updatedAt: { $lte: new Date(Date.now() - STALE_PROCESSING_MS) } },
+        ],
+      },
+      { $set: { status: 'processing' }, $inc: { attempts: 1 } },
+      { new: true }
+    );
+  }
+};
+
+const handlePaymentCaptured = async (payment) => {
+  const order = await Order.findOne({ paymentOrderId: payment.order_id });
+
+  if (!order) return 'order_not_found';
+
+  const { alreadyPaid, refunded, conflicts } = await markOrderPaid(order, {
+    razorpay_payment_id: payment.id,
+    razorpay_order_id: payment.order_id,
+    status: 'completed',
+  });
+
+  if (conflicts) return 'stock_conflict';
+  if (refunded) return 'refunded_cancelled';
+  return alreadyPaid ? 'already_paid' : 'paid';
+};
+
+const handlePaymentFailed = async (payment) => {
+  // A failed attempt never overrides a later successful one
+  const order = await Order.findOneAndUpdate(
+    { paymentOrderId: payment.order_id, isPaid: false },
+    {
+      $set: {
+        paymentResult: {
+          razorpay_payment_id: payment.id,
+          razorpay_order_id: payment.order_id,
+          status: 'failed',
+        },
+      },
+    }
+  );
+
+  return order ? 'payment_failed' : 'ignored';
+};
+
+const handleRefundProcessed = async (refund) => {
+  const updated = await Order.findOneAndUpdate(
+    { 'refunds.refundId': refund.id },
+    { $set: { 'refunds.$.status': 'processed' } }
+  );
+
+  if (updated) return 'refund_processed';
+
+  // Refunds issued from the store carry the order ID; their record gets the provider's
+  // refund ID just after the API call returns, so fail and let Razorpay redeliver
+  if (refund.notes && refund.notes.orderId) {
+    throw new Error(`No refund record for ${refund.id} yet`);
+  }
+
+  // Refunds made from the Razorpay dashboard are added to the order's history
+  const amount = roundPrice(refund.amount / 100);
+  // Skips orders that already have it, in case an abandoned delivery got this far
+  const order = await Order.findOneAndUpdate(
+    {
+      'paymentResult.razorpay_payment_id': refund.payment_id,
+      'refunds.refundId': { $ne: refund.id },
+    },
+    {
+      $inc: { refundedAmount: amount },
+      $push: {
+        refunds: {
+          refundId: refund.id,
+          amount,
+          reason: 'Refunded from the Razorpay dashboard',
+          status: 'processed',
+        },
+      },
+    }
+  );
+
+  return order ? 'refund_recorded' : 'order_not_found';
+};
+
+const handlers = {
+  'payment.captured': handlePaymentCaptured,
+  'payment.failed': handlePaymentFailed,
+  'refund.processed': handleRefundProcessed,
+};
+
+// @desc    Receive Razorpay payment and refund events
+// @route   POST /api/webhooks/razorpay
+// @access  Public (signed)
+const razorpayWebhook = asyncHandler(async (req, res) => {
+  if (!isValidSignature(req.rawBody, req.headers['x-razorpay-signature'])) {
+    res.status(400);
+    throw new Error('Invalid webhook signature');
+  }
+
+  const event = req.body;
+  const entity = getEntity(event);
+  const eventId = req.headers['x-razorpay-event-id'] || `${event.event}:${entity.id}`;
+
+  const claimed = await claimEvent(eventId, event);
+
+  if (!claimed) {
+    return res.json({
+      success: true,
+      data: { eventId, duplicate: true },
+    });
+  }
+
+  const handler = handlers[event.event];
+
+  try {
+    const result = handler ? await handler(entity) : 'ignored';
+
+    claimed.status = 'processed';
+    claimed.result = result;
+    claimed.error = undefined;
+    claimed.processedAt = Date.now();
+    await claimed.save();
+
+    res.json({
+      success: true,
+      data: { eventId, result },
+    });
+  } catch (error) {
+    console.error(`Webhook ${eventId} failed:`, error);
+    claimed.status = 'failed';
+    claimed.error = error.message;
+    await claimed.save();
+
+    // A non-2xx response makes Razorpay redeliver the event
+    res.status(500);
+    throw new Error('Webhook processing failed');
+  }
+});
+
+module.exports = {
+  razorpayWebhook,
+};
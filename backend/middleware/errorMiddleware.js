@@ -21,6 +21,12 @@ const errorHandler = (err, req, res, next) => {
     message = Object.values(err.errors).map(val => val.message).join(', ');
   }
 
+  // Request body over the parser's size limit
+  if (err.type === 'entity.too.large') {
+    statusCode = 413;
+    message = 'Upload is too large';
+  }
+
   // JWT errors
   if (err.name === 'JsonWebTokenError') {
     statusCode = 401;
@@ -36,6 +42,7 @@ const errorHandler = (err, req, res, next) => {
     success: false,
     error: {
       message,
+      ...(err.details && { details: err.details }),
       stack: process.env.NODE_ENV === 'production' ? null : err.stack,
     }
   });
@@ -0,0 +1,162 @@
+const mongoose = require('mongoose');
+
+const couponSchema = new mongoose.Schema({
+  code: {
+    type: String,
+    required: [true, 'Please add a coupon code'],
+    unique: true,
+    uppercase: true,
+    trim: true
+  },
+  description: {
+    type: String,
+    default: ''
+  },
+  type: {
+    type: String,
+    required: [true, 'Please add a coupon type'],
+    enum: ['percentage', 'fixed', 'free_shipping', 'buy_x_get_y']
+  },
+  // Percent off for 'percentage' and 'buy_x_get_y', currency amount for 'fixed'
+  value: {
+    type: Number,
+    min: 0,
+    default: 0,
+    validate: {
+      validator: function(value) {
+        return this.type === 'fixed' || value <= 100;
+      },
+      message: 'A percentage discount cannot be more than 100'
+    }
+  },
+  maxDiscount: {
+    type: Number,
+    min: 0
+  },
+  buyQuantity: {
+    type: Number,
+    min: 1,
+    required: function() {
+      return this.type === 'buy_x_get_y';
+    }
+  },
+  getQuantity: {
+    type: Number,
+    min: 1,
+    required: function() {
+      return this.type === 'buy_x_get_y';
+    }
+  },
+  // Restricts the discount to these products; empty means the whole cart
+  products: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Product'
+  }],
+  minSpend: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  usageLimit: {
+    type: Number,
+    min: 1
+  },
+  perUserLimit: {
+    type: Number,
+    min: 1
+  },
+  usageCount: {
+    type: Number,
+    default: 0
+  },
+  startsAt: {
+    type: Date
+  },
+  expiresAt: {
+    type: Date
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+const roundPrice = (value) => Math.round(value * 100) / 100;
+
+// Returns why the coupon can't be used for this subtotal, or null if it can
+couponSchema.methods.getUnavailableReason = function(itemsPrice, now = new Date()) {
+  if (!this.isActive) {
+    return 'This coupon is no longer active';
+  }
+  if (this.startsAt && this.startsAt > now) {
+    return 'This coupon is not active yet';
+  }
+  if (this.expiresAt && this.expiresAt < now) {
+    return 'This coupon has expired';
+  }
+  if (this.usageLimit && this.usageCount >= this.usageLimit) {
+    return 'This coupon has reached its usage limit';
+  }
+  if (itemsPrice < this.minSpend) {
+    return `Spend at least $${this.minSpend} to use this coupon`;
+  }
+  return null;
+};
+
+couponSchema.methods.appliesTo = function(productId) {
+  return this.products.length === 0 ||
+    this.products.some((id) => id.toString() === productId.toString());
+};
+
+// Discount in currency for the given order lines; free shipping waives shippingPrice
+couponSchema.methods.calculateDiscount = function(orderItems, shippingPrice = 0) {
+  const eligibleItems = orderItems.filter((item) => this.appliesTo(item.product));
+  const eligibleTotal = eligibleItems.reduce(
+    (acc, item) => acc + item.price * item.quantity,
+    0
+  );
+
+  let discount = 0;
+
+  switch (this.type) {
+    case 'percentage':
+      discount = eligibleTotal * (this.value / 100);
+      break;
+    case 'fixed':
+      discount = Math.min(this.value, eligibleTotal);
+      break;
+    case 'free_shipping':
+      discount = shippingPrice;
+      break;
+    case 'buy_x_get_y': {
+      // Every (buy + get) units, the cheapest `get` units are discounted
+      const unitPrices = eligibleItems
+        .flatMap((item) => Array(item.quantity).fill(item.price))
+        .sort((a, b) => a - b);
+      const groupSize = this.buyQuantity + this.getQuantity;
+      const freeUnits = Math.floor(unitPrices.length / groupSize) * this.getQuantity;
+      const percentOff = this.value > 0 ? this.value : 100;
+      discount = unitPrices
+        .slice(0, freeUnits)
+        .reduce((acc, price) => acc + price * (percentOff / 100), 0);
+      break;
+    }
+    default:
+      discount = 0;
+  }
+
+  if (this.maxDiscount && this.type !== 'free_shipping') {
+    discount = Math.min(discount, this.maxDiscount);
+  }
+
+  // Never more than the lines it applies to, whatever the coupon says
+  if (this.type !== 'free_shipping') {
+    discount = Math.min(discount, eligibleTotal);
+  }
+
+  return roundPrice(discount);
+};
+
+module.exports = mongoose.model('Coupon', couponSchema);
@@ -0,0 +1,47 @@
+const mongoose = require('mongoose');
+
+// Payment orders handled by the mock provider, kept in Mongo so they survive restarts
+const mockPaymentSchema = new mongoose.Schema({
+  orderId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  paymentId: {
+    type: String,
+    index: true
+  },
+  signature: {
+    type: String
+  },
+  amount: {
+    type: Number,
+    required: true
+  },
+  currency: {
+    type: String,
+    default: 'INR'
+  },
+  receipt: {
+    type: String
+  },
+  status: {
+    type: String,
+    enum: ['created', 'failed', 'captured'],
+    default: 'created'
+  },
+  refunds: [{
+    _id: false,
+    refundId: { type: String, required: true },
+    amount: { type: Number, required: true },
+    createdAt: { type: Date, default: Date.now }
+  }],
+  refundedAmount: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true
+});
+
+module.exports = mongoose.model('MockPayment', mockPaymentSchema);
@@ -1,5 +1,60 @@
 const mongoose = require('mongoose');
 
+const refundSchema = new mongoose.Schema({
+  // Provider's refund ID, set once the provider accepts the refund
+  refundId: {
+    type: String
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  reason: {
+    type: String
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'processed', 'failed'],
+    default: 'pending'
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+// One entry per change to an order's lifecycle; `status` is the order status afterwards
+const statusEventSchema = new mongoose.Schema({
+  event: {
+    type: String,
+    required: true,
+    enum: ['placed', 'paid', 'status_changed', 'delivered', 'cancelled', 'expired']
+  },
+  status: {
+    type: String,
+    required: true
+  },
+  note: {
+    type: String
+  },
+  actor: {
+    type: String,
+    enum: ['customer', 'admin', 'system'],
+    default: 'system'
+  },
+  changedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
 const orderSchema = new mongoose.Schema({
   user: {
     type: mongoose.Schema.Types.ObjectId,
@@ -12,25 +67,40 @@ const orderSchema = new mongoose.Schema({
       quantity: { type: Number, required: true },
       image: { type: String, required: true },
       price: { type: Number, required: true },
+      weight: { type: Number, default: 0 },
       product: {
         type: mongoose.Schema.Types.ObjectId,
         required: true,
         ref: 'Product'
-      }
+      },
+      // Set for products sold in variants; label reads like "Large / Soy / Glass jar"
+      variant: { type: mongoose.Schema.Types.ObjectId },
+      sku: { type: String },
+      variantLabel: { type: String }
     }
   ],
   shippingAddress: {
     address: { type: String, required: true },
     city: { type: String, required: true },
+    state: { type: String },
     postalCode: { type: String, required: true },
     country: { type: String, required: true }
   },
+  shippingMethod: {
+    type: String,
+    required: true,
+    enum: ['standard', 'express'],
+    default: 'standard'
+  },
   paymentMethod: {
     type: String,
     required: true,
     enum: ['razorpay', 'mock'],
     default: 'razorpay'
   },
+  paymentOrderId: {
+    type: String
+  },
   paymentResult: {
     razorpay_payment_id: { type: String },
     razorpay_order_id: { type: String },
@@ -43,11 +113,31 @@ const orderSchema = new mongoose.Schema({
     required: true,
     default: 0.0
   },
+  discountPrice: {
+    type: Number,
+    required: true,
+    default: 0.0
+  },
+  discount: {
+    code: { type: String },
+    type: { type: String },
+    description: { type: String },
+    amount: { type: Number }
+  },
   taxPrice: {
     type: Number,
     required: true,
     default: 0.0
   },
+  taxRate: {
+    type: Number,
+    default: 0
+  },
+  // Tax is already part of the item prices and is not added to the total
+  taxInclusive: {
+    type: Boolean,
+    default: false
+  },
   shippingPrice: {
     type: Number,
     required: true,
@@ -82,30 +172,83 @@ const orderSchema = new mongoose.Schema({
   },
   trackingNumber: {
     type: String
+  },
+  statusHistory: [statusEventSchema],
+  // Set once, when the order is paid; seller details are a snapshot at issue time
+  invoice: {
+    number: { type: String },
+    issuedAt: { type: Date },
+    seller: {
+      name: { type: String },
+      gstin: { type: String },
+      address: { type: String },
+      state: { type: String },
+      stateCode: { type: String }
+    },
+    placeOfSupply: { type: String },
+    taxableValue: { type: Number },
+    taxLines: [{
+      _id: false,
+      name: { type: String },
+      rate: { type: Number },
+      amount: { type: Number }
+    }]
+  },
+  cancelledAt: {
+    type: Date
+  },
+  cancelReason: {
+    type: String
+  },
+  refunds: [refundSchema],
+  // Sum of refunds that are pending or processed; failed refunds are taken back out
+  refundedAmount: {
+    type: Number,
+    default: 0
+  },
+  // reserved: held for an unpaid order until reservationExpiresAt
+  // committed: the order was paid and the stock is sold
+  // released: the stock went back to the catalog (expiry or cancellation)
+  stockStatus: {
+    type: String,
+    enum: ['reserved', 'committed', 'released'],
+    default: 'reserved'
+  },
+  reservationExpiresAt: {
+    type: Date
   }
 }, {
   timestamps: true
 });
 
+// Lets promotion reports find every order that used a coupon
+orderSchema.index({ 'discount.code': 1 });
+orderSchema.index({ 'invoice.number': 1 }, { unique: true, sparse: true });
+// Order history pages list a customer's newest orders first
+orderSchema.index({ user: 1, createdAt: -1 });
+// Lets the reservation sweeper find expired holds
+orderSchema.index({ stockStatus: 1, reservationExpiresAt: 1 });
+
+// Builds a statusHistory entry; `user` is whoever made the change, if anyone
+orderSchema.statics.historyEntry = function(event, status, { user, note } = {}) {
+  return {
+    event,
+    status,
+    note,
+    actor: !user ? 'system' : user.role === 'admin' ? 'admin' : 'customer',
+    changedBy: user ? user._id : undefined,
+    createdAt: new Date()
+  };
+};
+
 // Calculate total price before saving
 orderSchema.pre('save', function(next) {
-  this.totalPrice = this.orderItems.reduce((acc, item) => {
+  const total = this.orderItems.reduce((acc, item) => {
     return acc + item.price * item.quantity;
-  }, 0) + this.shippingPrice + this.taxPrice;
+  }, 0) - this.discountPrice + this.shippingPrice + (this.taxInclusive ? 0 : this.taxPrice);
+  this.totalPrice = Math.round(total * 100) / 100;
   
   next();
 });
 
-// Update product stock after order is placed
-orderSchema.post('save', async function() {
-  if (this.isPaid) {
-    const Product = mongoose.model('Product');
-    for (const item of this.orderItems) {
-      await Product.findByIdAndUpdate(item.product, {
-        $inc: { stock: -item.quantity }
-      });
-    }
-  }
-});
-
 module.exports = mongoose.model('Order', orderSchema);
@@ -1,27 +1,95 @@
 const mongoose = require('mongoose');
 
-const reviewSchema = new mongoose.Schema({
-  user: {
-    type: mongoose.Schema.Types.ObjectId,
-    ref: 'User',
-    required: true
-  },
+// An option axis such as size, wax or vessel, with the values it can take
+const optionSchema = new mongoose.Schema({
   name: {
     type: String,
-    required: true
+    required: true,
+    trim: true
   },
-  rating: {
+  values: [{
+    type: String,
+    required: true,
+    trim: true
+  }]
+}, {
+  _id: false
+});
+
+// One sellable combination of option values, e.g. { size: 'Large', wax: 'Soy' }
+const variantSchema = new mongoose.Schema({
+  sku: {
+    type: String,
+    required: [true, 'Please add a variant SKU'],
+    trim: true,
+    uppercase: true
+  },
+  options: {
+    type: Map,
+    of: String,
+    default: {}
+  },
+  price: {
+    type: Number,
+    required: [true, 'Please add a variant price'],
+    min: 0
+  },
+  stock: {
+    type: Number,
+    required: [true, 'Please add variant stock quantity'],
+    min: 0,
+    default: 0
+  },
+  dimensions: {
+    height: {
+      type: Number,
+      required: true
+    },
+    diameter: {
+      type: Number,
+      required: true
+    }
+  },
+  burnTime: {
     type: Number,
     required: true,
-    min: 1,
-    max: 5
+    description: 'Burn time in hours'
+  },
+  weight: {
+    type: Number,
+    min: 0,
+    default: 0,
+    description: 'Shipping weight in grams'
+  },
+  images: [String]
+});
+
+const SCENT_FAMILIES = ['floral', 'woody', 'gourmand', 'citrus', 'fresh', 'herbal', 'spicy', 'amber', 'fruity'];
+const SCENT_INTENSITIES = ['light', 'moderate', 'strong'];
+
+// Notes are stored lowercase so they match across products
+const noteList = {
+  type: [{ type: String, trim: true, lowercase: true }],
+  default: undefined
+};
+
+// Fragrance pyramid: top notes come through first, base notes linger
+const scentProfileSchema = new mongoose.Schema({
+  families: [{
+    type: String,
+    enum: SCENT_FAMILIES
+  }],
+  notes: {
+    top: noteList,
+    heart: noteList,
+    base: noteList
   },
-  comment: {
+  intensity: {
     type: String,
-    required: true
+    enum: SCENT_INTENSITIES
   }
 }, {
-  timestamps: true
+  _id: false
 });
 
 const productSchema = new mongoose.Schema({
@@ -54,13 +122,16 @@ const productSchema = new mongoose.Schema({
       return this.category === 'Scented';
     }
   },
+  scentProfile: scentProfileSchema,
   stock: {
     type: Number,
     required: [true, 'Please add stock quantity'],
     min: 0,
     default: 0
   },
-  reviews: [reviewSchema],
+  options: [optionSchema],
+  variants: [variantSchema],
+  // Kept in step with approved reviews by Review.updateProductRating
   rating: {
     type: Number,
     default: 0
@@ -88,19 +159,117 @@ const productSchema = new mongoose.Schema({
     required: true,
     description: 'Burn time in hours'
   },
+  weight: {
+    type: Number,
+    min: 0,
+    default: 0,
+    description: 'Shipping weight in grams'
+  },
   createdAt: {
     type: Date,
     default: Date.now
   }
 });
 
-// Update rating when a review is added or modified
-productSchema.pre('save', function(next) {
-  if (this.reviews.length > 0) {
-    this.rating = this.reviews.reduce((acc, review) => review.rating + acc, 0) / this.reviews.length;
-    this.numReviews = this.reviews.length;
+productSchema.index({ 'scentProfile.families': 1 });
+
+productSchema.index(
+  { 'variants.sku': 1 },
+  { unique: true, partialFilterExpression: { 'variants.sku': { $exists: true } } }
+);
+
+// Variants must cover every option axis with one of its values, and each
+// combination and SKU may appear only once
+productSchema.pre('validate', function(next) {
+  const combinations = new Set();
+  const skus = new Set();
+
+  this.variants.forEach((variant, index) => {
+    const path = `variants.${index}`;
+    const values = this.options.map((option) => variant.options.get(option.name));
+
+    this.options.forEach((option, axis) => {
+      if (!option.values.includes(values[axis])) {
+        this.invalidate(`${path}.options`, `Variant ${variant.sku} needs a ${option.name} from: ${option.values.join(', ')}`);
+      }
+    });
+
+    const unknownAxes = Array.from(variant.options.keys())
+      .filter((name) => !this.options.some((option) => option.name === name));
+    if (unknownAxes.length > 0) {
+      this.invalidate(`${path}.options`, `Unknown option ${unknownAxes.join(', ')} on variant ${variant.sku}`);
+    }
+
+    const combination = values.join('\u0000');
+    if (combinations.has(combination)) {
+      this.invalidate(`${path}.options`, `Variant ${variant.sku} repeats the options of another variant`);
+    }
+    combinations.add(combination);
+
+    if (skus.has(variant.sku)) {
+      this.invalidate(`${path}.sku`, `SKU ${variant.sku} is used by more than one variant`);
+    }
+    skus.add(variant.sku);
+  });
+
+  next();
+});
+
+// Products with variants list their lowest price and total stock, and show the first
+// variant's specs, so catalogue listings and filters keep working on the flat fields
+productSchema.pre('validate', function(next) {
+  if (this.variants.length > 0) {
+    const [first] = this.variants;
+    this.price = Math.min(...this.variants.map((variant) => variant.price));
+    this.stock = this.variants.reduce((acc, variant) => acc + variant.stock, 0);
+    this.dimensions = {
+      height: first.dimensions.height,
+      diameter: first.dimensions.diameter,
+    };
+    this.burnTime = first.burnTime;
+    this.weight = first.weight;
   }
   next();
 });
 
+// What a cart or order line for this product (and variant) sells at right now.
+// Resolves to the line's price, stock and labels, or { error } when the variant
+// is missing or wasn't chosen.
+productSchema.methods.resolveVariant = function(variantId) {
+  if (this.variants.length === 0) {
+    return {
+      variant: null,
+      sku: undefined,
+      label: undefined,
+      price: this.price,
+      stock: this.stock,
+      weight: this.weight || 0,
+      image: this.images[0],
+    };
+  }
+
+  if (!variantId) {
+    return { error: `Please choose ${this.options.map((option) => option.name).join(' and ')} for ${this.name}` };
+  }
+
+  const variant = mongoose.isValidObjectId(variantId) ? this.variants.id(variantId) : null;
+
+  if (!variant) {
+    return { error: `That option of ${this.name} is no longer available` };
+  }
+
+  return {
+    variant,
+    sku: variant.sku,
+    label: this.options.map((option) => variant.options.get(option.name)).join(' / '),
+    price: variant.price,
+    stock: variant.stock,
+    weight: variant.weight || 0,
+    image: variant.images[0] || this.images[0],
+  };
+};
+
+productSchema.statics.SCENT_FAMILIES = SCENT_FAMILIES;
+productSchema.statics.SCENT_INTENSITIES = SCENT_INTENSITIES;
+
 module.exports = mongoose.model('Product', productSchema);
@@ -0,0 +1,48 @@
+const mongoose = require('mongoose');
+
+// Products bought in the same orders as `product`, strongest first.
+// Rebuilt from paid orders by utils/recommendations.
+const affinitySchema = new mongoose.Schema({
+  product: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Product',
+    required: true
+  },
+  // Paid orders containing both products
+  orders: {
+    type: Number,
+    required: true
+  },
+  // Share of orders with `product` that also contained this one
+  confidence: {
+    type: Number,
+    required: true
+  },
+  // How much likelier the pair is than chance; above 1 means a real pull
+  lift: {
+    type: Number,
+    required: true
+  },
+  score: {
+    type: Number,
+    required: true
+  }
+}, {
+  _id: false
+});
+
+const productAffinitySchema = new mongoose.Schema({
+  product: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Product',
+    required: true,
+    unique: true
+  },
+  related: [affinitySchema],
+  computedAt: {
+    type: Date,
+    required: true
+  }
+});
+
+module.exports = mongoose.model('ProductAffinity', productAffinitySchema);
@@ -0,0 +1,50 @@
+const mongoose = require('mongoose');
+
+const ALERT_TYPES = ['back_in_stock', 'price_drop'];
+
+// A customer's request to be emailed when a product is restocked or gets cheaper
+const productAlertSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  product: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Product',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ALERT_TYPES,
+    required: true
+  },
+  // Back-in-stock alerts can watch one variant; null watches the product as a whole
+  variant: {
+    type: mongoose.Schema.Types.ObjectId,
+    default: null
+  },
+  // Price drops are measured against this: the price when the customer
+  // subscribed, then the price we last told them about
+  referencePrice: {
+    type: Number,
+    min: 0
+  },
+  // Back-in-stock alerts are sent once, then switch off
+  active: {
+    type: Boolean,
+    default: true
+  },
+  lastNotifiedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+productAlertSchema.index({ user: 1, product: 1, type: 1, variant: 1 }, { unique: true });
+productAlertSchema.index({ product: 1, type: 1, active: 1 });
+
+productAlertSchema.statics.TYPES = ALERT_TYPES;
+
+module.exports = mongoose.model('ProductAlert', productAlertSchema);
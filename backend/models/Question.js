@@ -0,0 +1,73 @@
+const mongoose = require('mongoose');
+
+const answerSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true
+  },
+  body: {
+    type: String,
+    required: [true, 'Please add an answer'],
+    trim: true,
+    maxlength: [1000, 'Answers cannot be more than 1000 characters']
+  },
+  // Answered on behalf of the shop
+  isStaff: {
+    type: Boolean,
+    default: false
+  },
+  verifiedBuyer: {
+    type: Boolean,
+    default: false
+  },
+  upvotes: {
+    type: [{ type: mongoose.Schema.Types.ObjectId, ref: 'User' }],
+    select: false
+  },
+  upvoteCount: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true
+});
+
+// A customer's question about a product, answered by staff or by people who bought it
+const questionSchema = new mongoose.Schema({
+  product: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Product',
+    required: true
+  },
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true
+  },
+  body: {
+    type: String,
+    required: [true, 'Please add a question'],
+    trim: true,
+    maxlength: [500, 'Questions cannot be more than 500 characters']
+  },
+  answers: [answerSchema],
+  answerCount: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true
+});
+
+questionSchema.index({ product: 1, answerCount: -1, createdAt: -1 });
+
+module.exports = mongoose.model('Question', questionSchema);
@@ -0,0 +1,30 @@
+const mongoose = require('mongoose');
+
+const viewedItemSchema = new mongoose.Schema({
+  product: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Product',
+    required: true
+  },
+  viewedAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  _id: false
+});
+
+// Products a customer looked at most recently, newest first
+const recentlyViewedSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    unique: true
+  },
+  items: [viewedItemSchema]
+}, {
+  timestamps: true
+});
+
+module.exports = mongoose.model('RecentlyViewed', recentlyViewedSchema);
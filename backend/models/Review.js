@@ -0,0 +1,125 @@
+const mongoose = require('mongoose');
+const { publicUrl } = require('../config/uploads');
+
+const REVIEW_STATUSES = ['pending', 'approved', 'rejected'];
+const MAX_REVIEW_PHOTOS = 4;
+
+const voteSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  helpful: {
+    type: Boolean,
+    required: true
+  }
+}, {
+  _id: false
+});
+
+// A customer's review of a product. Only approved reviews are shown publicly
+// and count towards the product's rating.
+const reviewSchema = new mongoose.Schema({
+  product: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Product',
+    required: true
+  },
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true
+  },
+  rating: {
+    type: Number,
+    required: [true, 'Please add a rating'],
+    min: 1,
+    max: 5
+  },
+  comment: {
+    type: String,
+    required: [true, 'Please add a comment'],
+    trim: true,
+    maxlength: [2000, 'Reviews cannot be more than 2000 characters']
+  },
+  // Paths under /uploads; sent to clients as full URLs on the API's public address
+  photos: {
+    type: [String],
+    validate: {
+      validator: (photos) => photos.length <= MAX_REVIEW_PHOTOS,
+      message: `A review can have at most ${MAX_REVIEW_PHOTOS} photos`
+    }
+  },
+  // The reviewer had a paid order containing the product when they last saved it
+  verifiedPurchase: {
+    type: Boolean,
+    default: false
+  },
+  status: {
+    type: String,
+    enum: REVIEW_STATUSES,
+    default: 'pending'
+  },
+  // Shown to the reviewer when a review is rejected
+  moderationNote: {
+    type: String,
+    trim: true
+  },
+  moderatedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  moderatedAt: {
+    type: Date
+  },
+  votes: {
+    type: [voteSchema],
+    select: false
+  },
+  helpfulCount: {
+    type: Number,
+    default: 0
+  },
+  unhelpfulCount: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: (doc, ret) => {
+      if (ret.photos) {
+        ret.photos = ret.photos.map((photo) => `${publicUrl}${photo}`);
+      }
+      return ret;
+    }
+  }
+});
+
+// One review per customer per product
+reviewSchema.index({ product: 1, user: 1 }, { unique: true });
+reviewSchema.index({ product: 1, status: 1, createdAt: -1 });
+reviewSchema.index({ status: 1, createdAt: 1 });
+
+// Recompute a product's rating and review count from its approved reviews
+reviewSchema.statics.updateProductRating = async function(productId) {
+  const [stats] = await this.aggregate([
+    { $match: { product: new mongoose.Types.ObjectId(productId), status: 'approved' } },
+    { $group: { _id: null, rating: { $avg: '$rating' }, numReviews: { $sum: 1 } } },
+  ]);
+
+  await mongoose.model('Product').updateOne(
+    { _id: productId },
+    { rating: stats ? stats.rating : 0, numReviews: stats ? stats.numReviews : 0 }
+  );
+};
+
+reviewSchema.statics.STATUSES = REVIEW_STATUSES;
+reviewSchema.statics.MAX_PHOTOS = MAX_REVIEW_PHOTOS;
+
+module.exports = mongoose.model('Review', reviewSchema);
@@ -0,0 +1,30 @@
+const mongoose = require('mongoose');
+
+// A photo a customer uploaded for a review. It stays unattached until the review is
+// saved; unattached photos are deleted after a while, and so are photos taken off a
+// review or left behind by a deleted one.
+const reviewPhotoSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Relative to the API's public URL, e.g. /uploads/reviews/<name>.jpg
+  path: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  review: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Review',
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+reviewPhotoSchema.index({ user: 1, review: 1 });
+reviewPhotoSchema.index({ review: 1, createdAt: 1 });
+
+module.exports = mongoose.model('ReviewPhoto', reviewPhotoSchema);
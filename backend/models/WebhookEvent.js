@@ -0,0 +1,46 @@
+const mongoose = require('mongoose');
+
+// One document per provider event, so redelivered webhooks are only processed once
+const webhookEventSchema = new mongoose.Schema({
+  eventId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  provider: {
+    type: String,
+    required: true,
+    enum: ['razorpay'],
+    default: 'razorpay'
+  },
+  type: {
+    type: String,
+    required: true
+  },
+  payload: {
+    type: mongoose.Schema.Types.Mixed
+  },
+  status: {
+    type: String,
+    enum: ['processing', 'processed', 'failed'],
+    default: 'processing'
+  },
+  // What processing did, e.g. 'paid' or 'order_not_found'
+  result: {
+    type: String
+  },
+  error: {
+    type: String
+  },
+  attempts: {
+    type: Number,
+    default: 1
+  },
+  processedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+module.exports = mongoose.model('WebhookEvent', webhookEventSchema);
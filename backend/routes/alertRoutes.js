@@ -0,0 +1,11 @@
+const express = require('express');
+const router = express.Router();
+const { getMyAlerts, createAlert, deleteAlert } = require('../controllers/alertController');
+const { protect } = require('../middleware/authMiddleware');
+
+// Protected routes
+router.get('/', protect, getMyAlerts);
+router.post('/', protect, createAlert);
+router.delete('/:id', protect, deleteAlert);
+
+module.exports = router;
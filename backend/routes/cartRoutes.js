@@ -0,0 +1,21 @@
+const express = require('express');
+const router = express.Router();
+const {
+  getCart,
+  updateCart,
+  mergeCart,
+  clearCart,
+  validateCart,
+} = require('../controllers/cartController');
+const { protect } = require('../middleware/authMiddleware');
+
+// Public routes
+router.post('/validate', validateCart);
+
+// Protected routes
+router.get('/', protect, getCart);
+router.put('/', protect, updateCart);
+router.post('/merge', protect, mergeCart);
+router.delete('/', protect, clearCart);
+
+module.exports = router;
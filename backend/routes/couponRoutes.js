@@ -0,0 +1,23 @@
+const express = require('express');
+const router = express.Router();
+const {
+  applyCoupon,
+  getCoupons,
+  createCoupon,
+  updateCoupon,
+  deleteCoupon,
+  getCouponReport,
+} = require('../controllers/couponController');
+const { protect, admin } = require('../middleware/authMiddleware');
+
+// Public routes
+router.post('/apply', applyCoupon);
+
+// Admin routes
+router.get('/', protect, admin, getCoupons);
+router.post('/', protect, admin, createCoupon);
+router.put('/:id', protect, admin, updateCoupon);
+router.delete('/:id', protect, admin, deleteCoupon);
+router.get('/:id/report', protect, admin, getCouponReport);
+
+module.exports = router;
@@ -3,21 +3,36 @@ const router = express.Router();
 const {
   createOrder,
   getOrderById,
+  getOrderInvoice,
+  getInvoices,
   updateOrderToPaid,
+  processMockPayment,
+  cancelOrder,
+  refundOrder,
   updateOrderToDelivered,
   getMyOrders,
   getOrders,
   updateOrderStatus,
 } = require('../controllers/orderController');
 const { protect, admin } = require('../middleware/authMiddleware');
+const { mockPaymentsEnabled } = require('../utils/payments');
 
 // Protected routes
 router.post('/', protect, createOrder);
 router.get('/myorders', protect, getMyOrders);
+router.get('/invoices', protect, admin, getInvoices);
 router.get('/:id', protect, getOrderById);
+router.get('/:id/invoice', protect, getOrderInvoice);
 router.put('/:id/pay', protect, updateOrderToPaid);
+router.put('/:id/cancel', protect, cancelOrder);
+router.post('/:id/refunds', protect, admin, refundOrder);
 router.put('/:id/deliver', protect, admin, updateOrderToDelivered);
 router.get('/', protect, admin, getOrders);
 router.put('/:id/status', protect, admin, updateOrderStatus);
 
+// Test payments mark orders paid without taking money, so production never exposes them
+if (mockPaymentsEnabled) {
+  router.post('/:id/mock-payment', protect, processMockPayment);
+}
+
 module.exports = router;
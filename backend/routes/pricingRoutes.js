@@ -0,0 +1,8 @@
+const express = require('express');
+const router = express.Router();
+const { getQuote } = require('../controllers/pricingController');
+
+// Public routes
+router.post('/quote', getQuote);
+
+module.exports = router;
@@ -2,24 +2,48 @@ const express = require('express');
 const router = express.Router();
 const {
   getProducts,
+  searchProducts,
+  getSearchSuggestions,
   getFeaturedProducts,
+  getProductsByIds,
   getProductById,
+  getRelatedProducts,
+  getProductBoughtTogether,
+  getBoughtTogetherForProducts,
+  rebuildBoughtTogether,
   createProduct,
   updateProduct,
   deleteProduct,
-  createProductReview,
+  createProductVariant,
+  updateProductVariant,
+  deleteProductVariant,
 } = require('../controllers/productController');
+const { getProductReviews, createProductReview } = require('../controllers/reviewController');
+const { getProductQuestions, askQuestion } = require('../controllers/questionController');
 const { protect, admin } = require('../middleware/authMiddleware');
 
 // Public routes
 router.get('/', getProducts);
+router.get('/search', searchProducts);
+router.get('/suggestions', getSearchSuggestions);
 router.get('/featured', getFeaturedProducts);
+router.get('/batch', getProductsByIds);
+router.get('/bought-together', getBoughtTogetherForProducts);
 router.get('/:id', getProductById);
+router.get('/:id/related', getRelatedProducts);
+router.get('/:id/bought-together', getProductBoughtTogether);
+router.get('/:id/reviews', getProductReviews);
+router.get('/:id/questions', getProductQuestions);
 
 // Protected routes
 router.post('/', protect, admin, createProduct);
+router.post('/bought-together/rebuild', protect, admin, rebuildBoughtTogether);
 router.put('/:id', protect, admin, updateProduct);
 router.delete('/:id', protect, admin, deleteProduct);
+router.post('/:id/variants', protect, admin, createProductVariant);
+router.put('/:id/variants/:variantId', protect, admin, updateProductVariant);
+router.delete('/:id/variants/:variantId', protect, admin, deleteProductVariant);
 router.post('/:id/reviews', protect, createProductReview);
+router.post('/:id/questions', protect, askQuestion);
 
 module.exports = router;
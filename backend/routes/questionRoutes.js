@@ -0,0 +1,25 @@
+const express = require('express');
+const router = express.Router();
+const {
+  getQuestion,
+  deleteQuestion,
+  answerQuestion,
+  deleteAnswer,
+  upvoteAnswer,
+  removeAnswerUpvote,
+  getMyQuestionActivity,
+} = require('../controllers/questionController');
+const { protect } = require('../middleware/authMiddleware');
+
+// Protected routes
+router.get('/mine', protect, getMyQuestionActivity);
+router.delete('/:id', protect, deleteQuestion);
+router.post('/:id/answers', protect, answerQuestion);
+router.delete('/:id/answers/:answerId', protect, deleteAnswer);
+router.post('/:id/answers/:answerId/upvote', protect, upvoteAnswer);
+router.delete('/:id/answers/:answerId/upvote', protect, removeAnswerUpvote);
+
+// Public routes; after /mine so it isn't taken for an ID
+router.get('/:id', getQuestion);
+
+module.exports = router;
@@ -0,0 +1,15 @@
+const express = require('express');
+const router = express.Router();
+const {
+  getRecentlyViewed,
+  recordRecentlyViewed,
+  clearRecentlyViewed,
+} = require('../controllers/recentlyViewedController');
+const { protect } = require('../middleware/authMiddleware');
+
+// Protected routes
+router.get('/', protect, getRecentlyViewed);
+router.post('/', protect, recordRecentlyViewed);
+router.delete('/', protect, clearRecentlyViewed);
+
+module.exports = router;
@@ -0,0 +1,33 @@
+const express = require('express');
+const router = express.Router();
+const {
+  getMyReviews,
+  getMyVotes,
+  updateReview,
+  deleteReview,
+  voteReview,
+  uploadReviewPhoto,
+  getModerationQueue,
+  moderateReview,
+} = require('../controllers/reviewController');
+const { protect, admin } = require('../middleware/authMiddleware');
+const { MAX_PHOTO_BYTES, PHOTO_TYPES } = require('../utils/reviews');
+
+// Protected routes
+router.get('/mine', protect, getMyReviews);
+router.get('/votes', protect, getMyVotes);
+router.post(
+  '/photos',
+  protect,
+  express.raw({ type: PHOTO_TYPES, limit: MAX_PHOTO_BYTES }),
+  uploadReviewPhoto
+);
+router.put('/:id', protect, updateReview);
+router.delete('/:id', protect, deleteReview);
+router.post('/:id/vote', protect, voteReview);
+
+// Admin routes
+router.get('/moderation', protect, admin, getModerationQueue);
+router.put('/:id/moderate', protect, admin, moderateReview);
+
+module.exports = router;
@@ -0,0 +1,8 @@
+const express = require('express');
+const router = express.Router();
+const { razorpayWebhook } = require('../controllers/webhookController');
+
+// Public routes, authenticated by the provider's signature
+router.post('/razorpay', razorpayWebhook);
+
+module.exports = router;
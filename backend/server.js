@@ -1,12 +1,17 @@
-const express = require('express');
 const dotenv = require('dotenv');
+
+// Load env vars before anything reads them at require time
+dotenv.config();
+
+const crypto = require('crypto');
+const express = require('express');
 const cors = require('cors');
 const helmet = require('helmet');
 const connectDB = require('./config/db');
 const { notFound, errorHandler } = require('./middleware/errorMiddleware');
-
-// Load env vars
-dotenv.config();
+const { startReservationSweeper } = require('./utils/inventory');
+const { startAffinityJob } = require('./utils/recommendations');
+const { UPLOADS_DIR, migrateEmbeddedReviews, startPhotoCleanup } = require('./utils/reviews');
 
 // Connect to database
 connectDB();
@@ -16,8 +21,14 @@ const app = express();
 // Trust proxy - needed for rate limiting behind reverse proxies
 app.set('trust proxy', 1);
 
-// Body parser
-app.use(express.json());
+// Body parser; webhooks also keep the raw body for signature checks
+app.use(express.json({
+  verify: (req, res, buf) => {
+    if (req.originalUrl.startsWith('/api/webhooks')) {
+      req.rawBody = buf;
+    }
+  },
+}));
 
 // Enable CORS
 app.use(cors());
@@ -25,20 +36,51 @@ app.use(cors());
 // Set security headers
 app.use(helmet());
 
+// Payment provider webhooks arrive in bursts from a few IPs, so they sit before the
+// rate limiter; every request is signature-checked instead
+app.use('/api/webhooks', require('./routes/webhookRoutes'));
+
 // Rate limiting
 const rateLimit = require('express-rate-limit');
+
+// Requests carrying the shared INTERNAL_API_KEY come from our own frontend server
+const isInternalRequest = (req) => {
+  const key = process.env.INTERNAL_API_KEY;
+  const provided = req.get('x-internal-api-key');
+
+  return Boolean(key) && typeof provided === 'string' &&
+    provided.length === key.length &&
+    crypto.timingSafeEqual(Buffer.from(provided), Buffer.from(key));
+};
+
 const limiter = rateLimit({
   windowMs: 10 * 60 * 1000, // 10 minutes
   max: 100, // limit each IP to 100 requests per windowMs
   standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
   legacyHeaders: false, // Disable the `X-RateLimit-*` headers
+  // The storefront's server-side rendering calls from one IP for every visitor
+  skip: isInternalRequest,
 });
 app.use(limiter);
 
+// Customer uploads such as review photos, shown on the storefront's origin
+app.use(
+  '/uploads',
+  helmet.crossOriginResourcePolicy({ policy: 'cross-origin' }),
+  express.static(UPLOADS_DIR)
+);
+
 // Mount routers
 app.use('/api/auth', require('./routes/authRoutes'));
 app.use('/api/products', require('./routes/productRoutes'));
 app.use('/api/orders', require('./routes/orderRoutes'));
+app.use('/api/cart', require('./routes/cartRoutes'));
+app.use('/api/recently-viewed', require('./routes/recentlyViewedRoutes'));
+app.use('/api/reviews', require('./routes/reviewRoutes'));
+app.use('/api/questions', require('./routes/questionRoutes'));
+app.use('/api/alerts', require('./routes/alertRoutes'));
+app.use('/api/coupons', require('./routes/couponRoutes'));
+app.use('/api/pricing', require('./routes/pricingRoutes'));
 
 // Health check endpoint
 app.get('/health', (req, res) => {
@@ -55,6 +97,20 @@ const server = app.listen(PORT, () => {
   console.log(`Server running in ${process.env.NODE_ENV} mode on port ${PORT}`);
 });
 
+// Release stock held by unpaid orders once their reservation expires
+startReservationSweeper();
+
+// Refresh "frequently bought together" data from paid orders
+startAffinityJob();
+
+// Delete review photos that were uploaded but never used
+startPhotoCleanup();
+
+// Move reviews still stored on products into the reviews collection
+migrateEmbeddedReviews()
+  .then((count) => count > 0 && console.log(`Migrated ${count} product reviews`))
+  .catch((error) => console.error('Failed to migrate product reviews:', error));
+
 // Handle unhandled promise rejections
 process.on('unhandledRejection', (err, promise) => {
   console.log(`Error: ${err.message}`);
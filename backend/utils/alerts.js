@@ -0,0 +1,122 @@
+const ProductAlert = require('../models/ProductAlert');
+const emailService = require('./emailService');
+
+// What a product's alerts are compared against after it changes
+const getAlertSnapshot = (product) => ({
+  stock: product.stock,
+  price: product.price,
+  variantStock: new Map(product.variants.map((variant) => [variant._id.toString(), variant.stock])),
+});
+
+// Claim the alerts a product change should fire. Each alert is updated only if it
+// still qualifies, so overlapping updates can't notify anyone twice.
+const claimAlerts = async (product, { backInStock, restockedVariants, priceDropped }) => {
+  const now = new Date();
+  const candidates = await ProductAlert.find({
+    product: product._id,
+    active: true,
+    $or: [
+      ...(backInStock ? [{ type: 'back_in_stock', variant: null }] : []),
+      ...(restockedVariants.length > 0
+        ? [{ type: 'back_in_stock', variant: { $in: restockedVariants } }]
+        : []),
+      ...(priceDropped ? [{ type: 'price_drop', referencePrice: { $gt: product.price } }] : []),
+    ],
+  })
+    .select('_id type')
+    .lean();
+
+  const claimed = await Promise.all(
+    candidates.map((alert) =>
+      alert.type === 'back_in_stock'
+        ? ProductAlert.findOneAndUpdate(
+            { _id: alert._id, active: true },
+            { active: false, lastNotifiedAt: now }
+          ).populate('user', 'name email')
+        : ProductAlert.findOneAndUpdate(
+            { _id: alert._id, active: true, referencePrice: { $gt: product.price } },
+            { referencePrice: product.price, lastNotifiedAt: now }
+          ).populate('user', 'name email')
+    )
+  );
+
+  // Returned as they were before the update, so `referencePrice` is the old price
+  return { claimedAt: now, alerts: claimed.filter((alert) => alert && alert.user) };
+};
+
+// Put claimed alerts back as they were when their email couldn't be sent, so the
+// next change can try again. Alerts claimed or changed since are left alone.
+const releaseAlerts = (alerts, claimedAt) =>
+  Promise.all(
+    alerts.map(({ _id, type, active, referencePrice, lastNotifiedAt }) =>
+      ProductAlert.updateOne(
+        { _id, lastNotifiedAt: claimedAt },
+        {
+          ...(type === 'back_in_stock' ? { active } : { referencePrice }),
+          ...(lastNotifiedAt ? { lastNotifiedAt } : { $unset: { lastNotifiedAt: '' } }),
+        }
+      )
+    )
+  );
+
+// Email customers watching a product, or one of its variants, that came back into
+// stock, or a product that got cheaper. `previous` is the product's alert snapshot
+// from before the change. Someone watching for several gets a single email.
+const notifyProductAlerts = async (product, previous) => {
+  const backInStock = previous.stock <= 0 && product.stock > 0;
+  // Variants added by this change had nobody watching them yet
+  const restockedVariants = product.variants
+    .filter((variant) => previous.variantStock.get(variant._id.toString()) <= 0 && variant.stock > 0)
+    .map((variant) => variant._id);
+  const priceDropped = product.price < previous.price;
+
+  if (!backInStock && restockedVariants.length === 0 && !priceDropped) return 0;
+
+  const { claimedAt, alerts } = await claimAlerts(product, {
+    backInStock,
+    restockedVariants,
+    priceDropped,
+  });
+  const byUser = new Map();
+
+  alerts.forEach((alert) => {
+    const id = alert.user._id.toString();
+    const entry = byUser.get(id) || {
+      user: alert.user,
+      alerts: [],
+      backInStock: false,
+      restockedOptions: [],
+      previousPrice: null,
+    };
+    entry.alerts.push(alert);
+    if (alert.type === 'back_in_stock' && alert.variant) {
+      entry.restockedOptions.push(product.resolveVariant(alert.variant).label);
+    } else if (alert.type === 'back_in_stock') {
+      entry.backInStock = true;
+    } else {
+      entry.previousPrice = alert.referencePrice;
+    }
+    byUser.set(id, entry);
+  });
+
+  const entries = Array.from(byUser.values());
+  const results = await Promise.allSettled(
+    entries.map(({ user, backInStock: restocked, restockedOptions, previousPrice }) =>
+      emailService.sendProductAlert(user, product, {
+        backInStock: restocked,
+        restockedOptions,
+        previousPrice,
+      })
+    )
+  );
+  const failed = entries.filter((entry, index) => results[index].status === 'rejected');
+
+  await releaseAlerts(failed.flatMap((entry) => entry.alerts), claimedAt);
+
+  return entries.length - failed.length;
+};
+
+module.exports = {
+  getAlertSnapshot,
+  notifyProductAlerts,
+};
@@ -30,11 +30,12 @@ class EmailService {
         <h3>Items:</h3>
         ${order.orderItems.map(item => `
           <div>
-            <p>${item.name} x ${item.quantity} - $${item.price * item.quantity}</p>
+            <p>${item.name}${item.variantLabel ? ` (${item.variantLabel})` : ''} x ${item.quantity} - $${item.price * item.quantity}</p>
           </div>
         `).join('')}
         
         <p>Subtotal: $${order.itemsPrice}</p>
+        ${order.discountPrice > 0 ? `<p>Discount (${order.discount.code}): -$${order.discountPrice}</p>` : ''}
         <p>Shipping: $${order.shippingPrice}</p>
         <p>Tax: $${order.taxPrice}</p>
         <p><strong>Total: $${order.totalPrice}</strong></p>
@@ -95,6 +96,44 @@ class EmailService {
       console.error('Error sending shipping confirmation email:', error);
     }
   }
+
+  // One email covering every alert a customer had on the product
+  async sendProductAlert(user, product, { backInStock, restockedOptions = [], previousPrice }) {
+    const productUrl = `${process.env.FRONTEND_URL}/products/${product._id}`;
+    const priceDrop = previousPrice !== null && previousPrice > product.price;
+    const restocked = backInStock || restockedOptions.length > 0;
+    const subject = restocked
+      ? `${product.name} is back in stock`
+      : `Price drop: ${product.name} is now $${product.price.toFixed(2)}`;
+
+    const message = {
+      from: `Moh-Scent <${process.env.EMAIL_USER}>`,
+      to: user.email,
+      subject,
+      html: `
+        <h1>${subject}</h1>
+        <p>Hi ${user.name},</p>
+        ${backInStock ? `<p>Good news! ${product.name} is available again.</p>` : ''}
+        ${!backInStock && restockedOptions.length > 0 ? `<p>Good news! ${product.name} is available again in ${restockedOptions.join(', ')}.</p>` : ''}
+        ${priceDrop ? `<p>The price has dropped from $${previousPrice.toFixed(2)} to <strong>$${product.price.toFixed(2)}</strong>.</p>` : ''}
+        ${!restocked && product.stock <= 0 ? '<p>It is currently out of stock, so you may want to set a back-in-stock alert too.</p>' : ''}
+
+        <p><a href="${productUrl}">View ${product.name}</a></p>
+
+        <p>You're receiving this because you asked to be told about this product.
+        <a href="${process.env.FRONTEND_URL}/account/alerts">Manage your alerts</a>.</p>
+      `,
+    };
+
+    // Failures are passed on so the alerts can be handed back for the next change
+    try {
+      await this.transporter.sendMail(message);
+      console.log('Product alert email sent successfully');
+    } catch (error) {
+      console.error('Error sending product alert email:', error);
+      throw error;
+    }
+  }
 }
 
 module.exports = new EmailService();
@@ -0,0 +1,246 @@
+const Product = require('../models/Product');
+const { NOTE_TIERS } = require('./scent');
+
+const CATEGORIES = Product.schema.path('category').enumValues;
+
+// Only the most common notes get a checkbox
+const NOTE_FACET_LIMIT = 20;
+
+// Fixed price bands for the listing sidebar; `max` is exclusive
+const PRICE_BUCKETS = [
+  { value: 'under-25', label: 'Under $25', min: 0, max: 25 },
+  { value: '25-50', label: '$25 to $50', min: 25, max: 50 },
+  { value: '50-100', label: '$50 to $100', min: 50, max: 100 },
+  { value: '100-up', label: '$100 and up', min: 100 },
+];
+
+// "4 stars & up" style thresholds
+const RATING_THRESHOLDS = [4, 3, 2, 1];
+
+const SORT_FIELDS = ['price', 'rating', 'createdAt'];
+
+// Multi-select params arrive as repeated keys (?scent=a&scent=b) or comma lists (?scent=a,b)
+const toList = (value) =>
+  (Array.isArray(value) ? value : [value])
+    .filter((entry) => typeof entry === 'string')
+    .flatMap((entry) => entry.split(','))
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+const toNumber = (value) => {
+  if (value === undefined || value === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+// Read the listing filters from a query string. Values within a facet are
+// alternatives; different facets must all match.
+const parseFilters = (query) => {
+  const lowerCategories = new Map(CATEGORIES.map((category) => [category.toLowerCase(), category]));
+  const rating = toNumber(query.rating);
+
+  return {
+    // Categories match case-insensitively so ?category=scented keeps working
+    categories: toList(query.category)
+      .map((category) => lowerCategories.get(category.toLowerCase()))
+      .filter(Boolean),
+    scents: toList(query.scent),
+    families: toList(query.family)
+      .map((family) => family.toLowerCase())
+      .filter((family) => Product.SCENT_FAMILIES.includes(family)),
+    notes: toList(query.note).map((note) => note.toLowerCase()),
+    priceBuckets: toList(query.price).filter((value) =>
+      PRICE_BUCKETS.some((bucket) => bucket.value === value)
+    ),
+    minPrice: toNumber(query.minPrice),
+    maxPrice: toNumber(query.maxPrice),
+    rating: rating && rating >= 1 && rating <= 5 ? rating : undefined,
+    inStock: query.inStock === 'true' || query.inStock === '1',
+  };
+};
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// One Mongo condition per active facet, so each facet's counts can leave its own out
+const buildClauses = (filters) => {
+  const clauses = {};
+
+  if (filters.categories.length > 0) {
+    clauses.category = { category: { $in: filters.categories } };
+  }
+
+  if (filters.scents.length > 0) {
+    clauses.scent = {
+      scent: { $in: filters.scents.map((scent) => new RegExp(`^${escapeRegex(scent)}$`, 'i')) },
+    };
+  }
+
+  if (filters.families.length > 0) {
+    clauses.family = { 'scentProfile.families': { $in: filters.families } };
+  }
+
+  // A note matches wherever it sits in the pyramid
+  if (filters.notes.length > 0) {
+    clauses.note = {
+      $or: NOTE_TIERS.map((tier) => ({ [`scentProfile.notes.${tier}`]: { $in: filters.notes } })),
+    };
+  }
+
+  const priceConditions = [];
+  if (filters.priceBuckets.length > 0) {
+    priceConditions.push({
+      $or: PRICE_BUCKETS.filter((bucket) => filters.priceBuckets.includes(bucket.value)).map(
+        (bucket) => ({
+          price: { $gte: bucket.min, ...(bucket.max !== undefined && { $lt: bucket.max }) },
+        })
+      ),
+    });
+  }
+  if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+    priceConditions.push({
+      price: {
+        ...(filters.minPrice !== undefined && { $gte: filters.minPrice }),
+        ...(filters.maxPrice !== undefined && { $lte: filters.maxPrice }),
+      },
+    });
+  }
+  if (priceConditions.length > 0) {
+    clauses.price = { $and: priceConditions };
+  }
+
+  if (filters.rating !== undefined) {
+    clauses.rating = { rating: { $gte: filters.rating } };
+  }
+
+  if (filters.inStock) {
+    clauses.inStock = { stock: { $gt: 0 } };
+  }
+
+  return clauses;
+};
+
+const combine = (base, clauses, except) => {
+  const conditions = [
+    base,
+    ...Object.entries(clauses)
+      .filter(([facet]) => facet !== except)
+      .map(([, clause]) => clause),
+  ].filter((condition) => Object.keys(condition).length > 0);
+
+  if (conditions.length === 0) return {};
+  return conditions.length === 1 ? conditions[0] : { $and: conditions };
+};
+
+// Mongo filter for the listing itself: `base` plus every active facet
+const buildFilter = (base, filters) => combine(base, buildClauses(filters));
+
+const priceBucketExpression = {
+  $switch: {
+    branches: PRICE_BUCKETS.filter((bucket) => bucket.max !== undefined).map((bucket) => ({
+      case: { $lt: ['$price', bucket.max] },
+      then: bucket.value,
+    })),
+    default: PRICE_BUCKETS[PRICE_BUCKETS.length - 1].value,
+  },
+};
+
+// Counts for every facet value. Each facet is counted with all the other
+// active filters applied but not its own, so picking one category still
+// shows how many products the other categories would add.
+const getFacetCounts = async (base, filters) => {
+  const clauses = buildClauses(filters);
+  const stage = (facet, pipeline) => [{ $match: combine(base, clauses, facet) }, ...pipeline];
+
+  const [result] = await Product.aggregate([
+    {
+      $facet: {
+        category: stage('category', [{ $group: { _id: '$category', count: { $sum: 1 } } }]),
+        scent: stage('scent', [
+          { $match: { scent: { $nin: [null, ''] } } },
+          { $group: { _id: '$scent', count: { $sum: 1 } } },
+        ]),
+        family: stage('family', [
+          { $unwind: '$scentProfile.families' },
+          { $group: { _id: '$scentProfile.families', count: { $sum: 1 } } },
+        ]),
+        note: stage('note', [
+          {
+            $project: {
+              notes: {
+                $setUnion: NOTE_TIERS.map((tier) => ({
+                  $ifNull: [`$scentProfile.notes.${tier}`, []],
+                })),
+              },
+            },
+          },
+          { $unwind: '$notes' },
+          { $group: { _id: '$notes', count: { $sum: 1 } } },
+          { $sort: { count: -1, _id: 1 } },
+          { $limit: NOTE_FACET_LIMIT },
+        ]),
+        price: stage('price', [{ $group: { _id: priceBucketExpression, count: { $sum: 1 } } }]),
+        rating: stage(
+          'rating',
+          [{
+            $group: {
+              _id: null,
+              ...Object.fromEntries(
+                RATING_THRESHOLDS.map((threshold) => [
+                  `atLeast${threshold}`,
+                  { $sum: { $cond: [{ $gte: ['$rating', threshold] }, 1, 0] } },
+                ])
+              ),
+            },
+          }]
+        ),
+        inStock: stage('inStock', [{ $match: { stock: { $gt: 0 } } }, { $count: 'count' }]),
+      },
+    },
+  ]);
+
+  const countsBy = (rows) => new Map(rows.map((row) => [row._id, row.count]));
+  const categoryCounts = countsBy(result.category);
+  const familyCounts = countsBy(result.family);
+  const priceCounts = countsBy(result.price);
+  const ratingCounts = result.rating[0] || {};
+
+  return {
+    category: CATEGORIES.map((category) => ({
+      value: category,
+      count: categoryCounts.get(category) || 0,
+    })),
+    scent: result.scent
+      .map((row) => ({ value: row._id, count: row.count }))
+      .sort((a, b) => a.value.localeCompare(b.value)),
+    family: Product.SCENT_FAMILIES.map((family) => ({
+      value: family,
+      count: familyCounts.get(family) || 0,
+    })),
+    note: result.note.map((row) => ({ value: row._id, count: row.count })),
+    price: PRICE_BUCKETS.map((bucket) => ({
+      ...bucket,
+      count: priceCounts.get(bucket.value) || 0,
+    })),
+    rating: RATING_THRESHOLDS.map((threshold) => ({
+      value: threshold,
+      count: ratingCounts[`atLeast${threshold}`] || 0,
+    })),
+    inStock: { count: result.inStock[0]?.count || 0 },
+  };
+};
+
+// Mongo sort for ?sortBy=&sortOrder=, or null when none was asked for
+const parseSort = (query) => {
+  if (!SORT_FIELDS.includes(query.sortBy)) return null;
+  const direction = query.sortOrder === 'asc' ? 1 : -1;
+  // Tie-break on _id so pages don't shuffle between requests
+  return { [query.sortBy]: direction, _id: direction };
+};
+
+module.exports = {
+  PRICE_BUCKETS,
+  parseFilters,
+  buildFilter,
+  getFacetCounts,
+  parseSort,
+};
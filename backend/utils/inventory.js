@@ -0,0 +1,164 @@
+const mongoose = require('mongoose');
+const Product = require('../models/Product');
+const { releaseOrderCoupon } = require('./orderPricing');
+
+// How long an unpaid order holds its stock before it is released
+const RESERVATION_MINUTES = Number(process.env.STOCK_RESERVATION_MINUTES) || 30;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+const getReservationExpiry = (from = new Date()) =>
+  new Date(from.getTime() + RESERVATION_MINUTES * 60 * 1000);
+
+// Variant lines move the variant's stock and the product's total together
+const stockFilter = (item) =>
+  item.variant ? { _id: item.product, 'variants._id': item.variant } : { _id: item.product };
+
+const stockChange = (item, quantity) => ({
+  $inc: item.variant
+    ? { 'variants.$.stock': quantity, stock: quantity }
+    : { stock: quantity },
+});
+
+const releaseStock = async (orderItems) => {
+  for (const item of orderItems) {
+    await Product.findOneAndUpdate(stockFilter(item), stockChange(item, item.quantity));
+  }
+};
+
+const getAvailableStock = (item, product) => {
+  if (!product) return 0;
+  if (!item.variant) return product.stock;
+
+  const variant = product.variants.id(item.variant);
+  return variant ? variant.stock : 0;
+};
+
+// A line that couldn't be reserved, shaped for the checkout UI
+const toConflict = (item, product) => ({
+  product: item.product.toString(),
+  ...(item.variant && { variant: item.variant.toString() }),
+  name: `${product ? product.name : item.name}${item.variantLabel ? ` (${item.variantLabel})` : ''}`,
+  requested: item.quantity,
+  available: getAvailableStock(item, product),
+});
+
+// Atomically take stock for every line. Either all lines are reserved, or none are
+// and the result lists each line that couldn't be covered.
+const reserveStock = async (orderItems) => {
+  const reserved = [];
+  const failed = [];
+
+  for (const item of orderItems) {
+    const updated = await Product.findOneAndUpdate(
+      item.variant
+        ? {
+            _id: item.product,
+            variants: { $elemMatch: { _id: item.variant, stock: { $gte: item.quantity } } },
+          }
+        : { _id: item.product, stock: { $gte: item.quantity } },
+      stockChange(item, -item.quantity),
+      { new: true }
+    );
+
+    if (updated) {
+      reserved.push(item);
+    } else {
+      failed.push(item);
+    }
+  }
+
+  if (failed.length === 0) {
+    return { conflicts: [] };
+  }
+
+  await releaseStock(reserved);
+
+  const conflicts = [];
+  for (const item of failed) {
+    conflicts.push(toConflict(item, await Product.findById(item.product)));
+  }
+
+  return { conflicts };
+};
+
+// Builds the error createOrder and payment handlers throw for stock conflicts
+const stockConflictError = (
+  conflicts,
+  message = 'Some items in your order are no longer available in the requested quantity'
+) => {
+  const error = new Error(message);
+  error.details = { conflicts };
+  return error;
+};
+
+// Releases an order's stock exactly once, even with concurrent callers, applying `set`
+// and recording `history` in the same update. `conditions` narrows which order states
+// may be released. Resolves to the updated order, or null if another caller got there first.
+const releaseOrderStock = async (order, { set = {}, history, conditions = {} } = {}) => {
+  const Order = mongoose.model('Order');
+  const released = await Order.findOneAndUpdate(
+    { ...conditions, _id: order._id, stockStatus: { $in: ['reserved', 'committed'] } },
+    {
+      $set: { ...set, stockStatus: 'released' },
+      ...(history && { $push: { statusHistory: history } }),
+    },
+    { new: true }
+  );
+
+  if (released) {
+    await releaseStock(released.orderItems);
+  }
+
+  return released;
+};
+
+// Cancel unpaid orders whose reservation has run out and put their stock and coupon back
+const releaseExpiredReservations = async (now = new Date()) => {
+  const Order = mongoose.model('Order');
+  const expired = await Order.find({
+    isPaid: false,
+    stockStatus: 'reserved',
+    reservationExpiresAt: { $lte: now },
+  });
+
+  let count = 0;
+  for (const order of expired) {
+    // A payment may land between the find and the release
+    const released = await releaseOrderStock(order, {
+      set: { status: 'cancelled' },
+      history: Order.historyEntry('expired', 'cancelled', {
+        note: 'Payment was not received before the reservation expired',
+      }),
+      conditions: { isPaid: false },
+    });
+
+    if (released) {
+      await releaseOrderCoupon(released);
+      count += 1;
+    }
+  }
+
+  return count;
+};
+
+const startReservationSweeper = () => {
+  const timer = setInterval(() => {
+    releaseExpiredReservations().catch((error) =>
+      console.error('Failed to release expired reservations:', error)
+    );
+  }, SWEEP_INTERVAL_MS);
+
+  // Don't keep the process alive just for the sweeper
+  timer.unref();
+  return timer;
+};
+
+module.exports = {
+  getReservationExpiry,
+  reserveStock,
+  releaseStock,
+  stockConflictError,
+  releaseOrderStock,
+  releaseExpiredReservations,
+  startReservationSweeper,
+};
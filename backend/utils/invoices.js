@@ -0,0 +1,305 @@
+const PDFDocument = require('pdfkit');
+const Order = require('../models/Order');
+const Counter = require('../models/Counter');
+const invoiceConfig = require('../config/invoice');
+const { findZone, getTaxLines } = require('./pricingRules');
+
+const roundPrice = (value) => Math.round(value * 100) / 100;
+
+const formatAmount = (value) =>
+  `${invoiceConfig.currency} ${Number(value || 0).toLocaleString('en-IN', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const formatRate = (rate) => `${Number((rate * 100).toFixed(2))}%`;
+
+const formatDate = (date) =>
+  new Date(date).toLocaleDateString('en-IN', {
+    timeZone: 'Asia/Kolkata',
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+  });
+
+// Indian financial years run April to March, e.g. '2026-27'
+const getFinancialYear = (date) => {
+  const parts = new Intl.DateTimeFormat('en-IN', {
+    timeZone: 'Asia/Kolkata',
+    year: 'numeric',
+    month: 'numeric',
+  }).formatToParts(date);
+  const year = Number(parts.find((part) => part.type === 'year').value);
+  const month = Number(parts.find((part) => part.type === 'month').value);
+  const startYear = month >= 4 ? year : year - 1;
+
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+};
+
+// Gives a paid order its invoice number and tax breakdown. Numbers run sequentially
+// within each financial year. Safe to call again; an issued invoice never changes.
+const assignInvoice = async (order) => {
+  if (order.invoice && order.invoice.number) {
+    return order;
+  }
+
+  const issuedAt = new Date();
+  const financialYear = getFinancialYear(issuedAt);
+  const seq = await Counter.next(`invoice-${financialYear}`);
+  const { seller } = invoiceConfig;
+  const discountOnItems = order.discount && order.discount.type === 'free_shipping'
+    ? 0
+    : order.discountPrice;
+
+  const invoice = {
+    number: `${invoiceConfig.numberPrefix}/${financialYear}/${String(seq).padStart(5, '0')}`,
+    issuedAt,
+    seller: {
+      name: seller.name,
+      gstin: seller.gstin,
+      address: seller.address,
+      state: seller.state,
+      stateCode: seller.stateCode,
+    },
+    placeOfSupply: order.shippingAddress.state || order.shippingAddress.country,
+    taxableValue: roundPrice(
+      order.itemsPrice - discountOnItems - (order.taxInclusive ? order.taxPrice : 0)
+    ),
+    taxLines: getTaxLines(findZone(order.shippingAddress), {
+      taxRate: order.taxRate,
+      taxPrice: order.taxPrice,
+      shippingAddress: order.shippingAddress,
+      sellerStates: [seller.state, seller.stateCode],
+    }),
+  };
+
+  const updated = await Order.findOneAndUpdate(
+    { _id: order._id, 'invoice.number': { $exists: false } },
+    { $set: { invoice } },
+    { new: true }
+  );
+
+  return updated || Order.findById(order._id);
+};
+
+// Everything the HTML and PDF layouts print, in display order
+const getInvoiceRows = (order) => {
+  const { invoice } = order;
+
+  return [
+    ['Subtotal', order.itemsPrice],
+    ...(order.discountPrice > 0
+      ? [[`Discount${order.discount && order.discount.code ? ` (${order.discount.code})` : ''}`, -order.discountPrice]]
+      : []),
+    ['Taxable value', invoice.taxableValue],
+    ...invoice.taxLines.map((line) => [
+      `${line.name} @ ${formatRate(line.rate)}${order.taxInclusive ? ' (included)' : ''}`,
+      line.amount,
+    ]),
+    ['Shipping', order.shippingPrice],
+  ];
+};
+
+const describeItem = (item) =>
+  [item.name, item.variantLabel && `(${item.variantLabel})`, item.sku && `SKU ${item.sku}`]
+    .filter(Boolean)
+    .join(' ');
+
+const escapeHtml = (value) =>
+  String(value == null ? '' : value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatAddress = (address) =>
+  [
+    address.address,
+    [address.city, address.state, address.postalCode].filter(Boolean).join(', '),
+    address.country,
+  ].filter(Boolean);
+
+// Printable invoice page; `order.user` must be populated with name and email
+const renderInvoiceHtml = (order) => {
+  const { invoice, user } = order;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Invoice ${escapeHtml(invoice.number)}</title>
+  <style>
+    body { font-family: Helvetica, Arial, sans-serif; color: #111; max-width: 800px; margin: 40px auto; padding: 0 20px; }
+    header { display: flex; justify-content: space-between; margin-bottom: 32px; }
+    h1 { margin: 0 0 8px; font-size: 24px; }
+    table { width: 100%; border-collapse: collapse; margin: 24px 0; }
+    th, td { padding: 8px; border-bottom: 1px solid #ddd; text-align: left; }
+    .num { text-align: right; }
+    .totals td { border: none; padding: 4px 8px; }
+    .total td { font-weight: bold; border-top: 2px solid #111; }
+    .parties { display: flex; gap: 48px; }
+    footer { margin-top: 32px; font-size: 12px; color: #666; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <header>
+    <div>
+      <h1>${escapeHtml(invoice.seller.name)}</h1>
+      ${formatAddress({ address: invoice.seller.address, state: invoice.seller.state }).map((line) => `<div>${escapeHtml(line)}</div>`).join('')}
+      ${invoice.seller.gstin ? `<div>GSTIN: ${escapeHtml(invoice.seller.gstin)}</div>` : ''}
+    </div>
+    <div class="num">
+      <h1>Tax Invoice</h1>
+      <div>Invoice No: ${escapeHtml(invoice.number)}</div>
+      <div>Invoice Date: ${formatDate(invoice.issuedAt)}</div>
+      <div>Order: ${escapeHtml(order._id)}</div>
+      <div>Place of Supply: ${escapeHtml(invoice.placeOfSupply)}</div>
+    </div>
+  </header>
+
+  <section class="parties">
+    <div>
+      <strong>Billed To</strong>
+      <div>${escapeHtml(user.name)}</div>
+      <div>${escapeHtml(user.email)}</div>
+    </div>
+    <div>
+      <strong>Shipped To</strong>
+      ${formatAddress(order.shippingAddress).map((line) => `<div>${escapeHtml(line)}</div>`).join('')}
+    </div>
+  </section>
+
+  <table>
+    <thead>
+      <tr>
+        <th>Item</th>
+        <th>HSN</th>
+        <th class="num">Qty</th>
+        <th class="num">Rate</th>
+        <th class="num">Amount</th>
+      </tr>
+    </thead>
+    <tbody>
+      ${order.orderItems.map((item) => `
+      <tr>
+        <td>${escapeHtml(describeItem(item))}</td>
+        <td>${invoiceConfig.hsnCode}</td>
+        <td class="num">${item.quantity}</td>
+        <td class="num">${formatAmount(item.price)}</td>
+        <td class="num">${formatAmount(item.price * item.quantity)}</td>
+      </tr>`).join('')}
+    </tbody>
+  </table>
+
+  <table class="totals">
+    ${getInvoiceRows(order).map(([label, amount]) => `
+    <tr><td class="num">${escapeHtml(label)}</td><td class="num">${formatAmount(amount)}</td></tr>`).join('')}
+    <tr class="total"><td class="num">Total</td><td class="num">${formatAmount(order.totalPrice)}</td></tr>
+  </table>
+
+  <footer>This is a computer-generated invoice and does not require a signature.</footer>
+</body>
+</html>`;
+};
+
+const drawInvoice = (doc, order) => {
+  const { invoice, user } = order;
+  const left = doc.page.margins.left;
+  const right = doc.page.width - doc.page.margins.right;
+  const top = doc.page.margins.top;
+
+  doc.font('Helvetica-Bold').fontSize(16).text(invoice.seller.name, left, top);
+  doc.font('Helvetica').fontSize(9);
+  formatAddress({ address: invoice.seller.address, state: invoice.seller.state })
+    .forEach((line) => doc.text(line, { width: 250 }));
+  if (invoice.seller.gstin) doc.text(`GSTIN: ${invoice.seller.gstin}`);
+
+  doc.font('Helvetica-Bold').fontSize(16).text('Tax Invoice', left, top, { align: 'right' });
+  doc.font('Helvetica').fontSize(9);
+  [
+    `Invoice No: ${invoice.number}`,
+    `Invoice Date: ${formatDate(invoice.issuedAt)}`,
+    `Order: ${order._id}`,
+    `Place of Supply: ${invoice.placeOfSupply}`,
+  ].forEach((line) => doc.text(line, { align: 'right' }));
+
+  let y = Math.max(doc.y, top + 80) + 20;
+  doc.font('Helvetica-Bold').text('Billed To', left, y);
+  doc.font('Helvetica').text(user.name).text(user.email);
+  const billedEnd = doc.y;
+  doc.font('Helvetica-Bold').text('Shipped To', left + 260, y);
+  doc.font('Helvetica');
+  formatAddress(order.shippingAddress).forEach((line) => doc.text(line, left + 260, doc.y, { width: 230 }));
+
+  y = Math.max(billedEnd, doc.y) + 20;
+  const columns = [
+    { label: 'Item', x: left, width: 220 },
+    { label: 'HSN', x: left + 225, width: 50 },
+    { label: 'Qty', x: left + 280, width: 40, align: 'right' },
+    { label: 'Rate', x: left + 325, width: 80, align: 'right' },
+    { label: 'Amount', x: left + 410, width: right - left - 410, align: 'right' },
+  ];
+  const drawRow = (values, font = 'Helvetica') => {
+    doc.font(font);
+    const height = Math.max(
+      ...values.map((value, i) => doc.heightOfString(String(value), { width: columns[i].width }))
+    );
+    values.forEach((value, i) =>
+      doc.text(String(value), columns[i].x, y, { width: columns[i].width, align: columns[i].align })
+    );
+    y += height + 6;
+    doc.moveTo(left, y - 3).lineTo(right, y - 3).strokeColor('#dddddd').stroke();
+  };
+
+  drawRow(columns.map((column) => column.label), 'Helvetica-Bold');
+  order.orderItems.forEach((item) =>
+    drawRow([
+      describeItem(item),
+      invoiceConfig.hsnCode,
+      item.quantity,
+      formatAmount(item.price),
+      formatAmount(item.price * item.quantity),
+    ])
+  );
+
+  y += 10;
+  const drawTotal = (label, amount, font = 'Helvetica') => {
+    doc.font(font);
+    doc.text(label, left + 200, y, { width: 200, align: 'right' });
+    doc.text(formatAmount(amount), left + 410, y, { width: right - left - 410, align: 'right' });
+    y += 16;
+  };
+  getInvoiceRows(order).forEach(([label, amount]) => drawTotal(label, amount));
+  drawTotal('Total', order.totalPrice, 'Helvetica-Bold');
+
+  doc.font('Helvetica').fontSize(8).fillColor('#666666')
+    .text('This is a computer-generated invoice and does not require a signature.', left, y + 20)
+    .fillColor('#000000');
+};
+
+// One PDF with a page per invoice; orders need `user` populated with name and email
+const renderInvoicesPdf = (orders) =>
+  new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 50, autoFirstPage: false });
+    const chunks = [];
+
+    doc.on('data', (chunk) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    orders.forEach((order) => {
+      doc.addPage();
+      drawInvoice(doc, order);
+    });
+
+    doc.end();
+  });
+
+module.exports = {
+  getFinancialYear,
+  assignInvoice,
+  renderInvoiceHtml,
+  renderInvoicesPdf,
+};
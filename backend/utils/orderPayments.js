@@ -0,0 +1,161 @@
+const Order = require('../models/Order');
+const User = require('../models/User');
+const emailService = require('./emailService');
+const { reserveStock } = require('./inventory');
+const { assignInvoice } = require('./invoices');
+const { roundPrice, reclaimOrderCoupon } = require('./orderPricing');
+const { getPaymentProvider } = require('./payments');
+
+// Refund part of a paid order through the provider that took the payment.
+// The amount is claimed on the order before the provider is called, so concurrent
+// refunds can never add up to more than the order total.
+// Resolves to { order } or { error, statusCode }.
+const issueRefund = async (order, { amount, reason, userId }) => {
+  const refundAmount = roundPrice(amount);
+  const claimed = await Order.findOneAndUpdate(
+    {
+      _id: order._id,
+      isPaid: true,
+      $expr: { $lte: [{ $add: ['$refundedAmount', refundAmount] }, '$totalPrice'] },
+    },
+    {
+      $inc: { refundedAmount: refundAmount },
+      $push: { refunds: { amount: refundAmount, reason, createdBy: userId } },
+    },
+    { new: true }
+  );
+
+  if (!claimed) {
+    return { error: 'Refund exceeds the amount left on this order', statusCode: 400 };
+  }
+
+  const record = claimed.refunds[claimed.refunds.length - 1];
+  const paymentId = order.paymentResult && order.paymentResult.razorpay_payment_id;
+
+  try {
+    const refund = await getPaymentProvider(order.paymentMethod).refundPayment(paymentId, {
+      amount: refundAmount,
+      notes: { orderId: order._id.toString(), reason: reason || '' },
+    });
+
+    const refundedOrder = await Order.findOneAndUpdate(
+      { _id: order._id, 'refunds._id': record._id },
+      {
+        $set: {
+          'refunds.$.refundId': refund.id,
+          'refunds.$.status': refund.status === 'pending' ? 'pending' : 'processed',
+        },
+      },
+      { new: true }
+    );
+
+    return { order: refundedOrder };
+  } catch (error) {
+    console.error('Refund failed:', error);
+    await Order.findOneAndUpdate(
+      { _id: order._id, 'refunds._id': record._id },
+      {
+        $set: { 'refunds.$.status': 'failed' },
+        $inc: { refundedAmount: -refundAmount },
+      }
+    );
+
+    return { error: 'The payment provider could not process the refund', statusCode: 502 };
+  }
+};
+
+// Give back everything left on an order that was paid but can't be fulfilled.
+// A failed refund leaves a failed record for an admin to retry.
+const refundLatePayment = async (order, reason) => {
+  const { order: refundedOrder, error } = await issueRefund(order, {
+    amount: roundPrice(order.totalPrice - order.refundedAmount),
+    reason,
+  });
+
+  if (error) {
+    console.error(`Could not refund the late payment on order ${order._id}: ${error}`);
+  }
+
+  return refundedOrder || Order.findById(order._id);
+};
+
+// Mark an order paid exactly once, whether the browser or the webhook reports it first.
+// `user` is who reported the payment; webhooks have none. Resolves to { order }
+// (alreadyPaid is set when nothing changed, refunded when the order had been cancelled)
+// or { conflicts } when the reservation expired, the stock is gone and the payment
+// was refunded.
+const markOrderPaid = async (order, paymentResult, { user } = {}) => {
+  const claimed = await Order.findOneAndUpdate(
+    { _id: order._id, isPaid: false },
+    { $set: { isPaid: true, paidAt: Date.now(), paymentResult } },
+    { new: true }
+  );
+
+  if (!claimed) {
+    return { order: await Order.findById(order._id), alreadyPaid: true };
+  }
+
+  if (claimed.stockStatus === 'released') {
+    // Cancelled by the customer or an admin rather than by expiry: it stays cancelled
+    if (claimed.status === 'cancelled' && claimed.cancelledAt) {
+      claimed.statusHistory.push(Order.historyEntry('paid', 'cancelled', {
+        user,
+        note: 'Paid after the order was cancelled, so the payment is refunded',
+      }));
+      await claimed.save();
+
+      return {
+        order: await refundLatePayment(claimed, 'Paid after the order was cancelled'),
+        refunded: true,
+      };
+    }
+
+    // The reservation ran out before payment arrived; take the stock again if it's still there
+    const { conflicts } = await reserveStock(claimed.orderItems);
+
+    if (conflicts.length > 0) {
+      console.error(`Order ${claimed._id} was paid after its stock was released`);
+      claimed.paymentResult.status = 'unfulfillable';
+      claimed.statusHistory.push(Order.historyEntry('paid', claimed.status, {
+        user,
+        note: 'Paid after the stock was released, so the payment is refunded',
+      }));
+      await claimed.save();
+      await refundLatePayment(claimed, 'Items sold out before the payment arrived');
+
+      return { conflicts };
+    }
+
+    if (claimed.status === 'cancelled') {
+      claimed.status = 'pending';
+      claimed.statusHistory.push(Order.historyEntry('status_changed', 'pending', {
+        note: 'Reopened after a late payment',
+      }));
+      await reclaimOrderCoupon(claimed);
+    }
+  }
+
+  claimed.stockStatus = 'committed';
+  claimed.reservationExpiresAt = undefined;
+  claimed.statusHistory.push(Order.historyEntry('paid', claimed.status, {
+    user,
+    note: user ? undefined : 'Confirmed by the payment provider',
+  }));
+  await claimed.save();
+
+  // Paid orders get their invoice number straight away so numbering follows payment order
+  const updatedOrder = await assignInvoice(claimed);
+
+  // Send order confirmation email
+  const customer = await User.findById(updatedOrder.user);
+  if (customer) {
+    await emailService.sendOrderConfirmation(updatedOrder, customer);
+  }
+
+  return { order: updatedOrder };
+};
+
+module.exports = {
+  issueRefund,
+  markOrderPaid,
+};
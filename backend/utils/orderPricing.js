@@ -0,0 +1,218 @@
+const mongoose = require('mongoose');
+const Product = require('../models/Product');
+const Coupon = require('../models/Coupon');
+const {
+  findZone,
+  getTaxRate,
+  getShippingOptions,
+  calculateTax,
+} = require('./pricingRules');
+
+const roundPrice = (value) => Math.round(value * 100) / 100;
+
+// Look up every requested product (and variant) and snapshot its current name, image
+// and price. Resolves to { orderItems } or { error }; lines short on stock are also
+// listed in `conflicts`.
+const buildOrderItems = async (items) => {
+  // Collapse repeated lines so the stock check sees the combined quantity
+  const lines = new Map();
+  for (const item of items) {
+    const quantity = Number(item.quantity);
+
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      return { error: 'Order item quantity must be a positive whole number' };
+    }
+
+    const id = String(item.product);
+    const variantId = item.variant ? String(item.variant) : '';
+    const key = `${id}:${variantId}`;
+    const line = lines.get(key) || { id, variantId, quantity: 0 };
+    line.quantity += quantity;
+    lines.set(key, line);
+  }
+
+  const orderItems = [];
+  const conflicts = [];
+
+  for (const { id, variantId, quantity } of lines.values()) {
+    const product = mongoose.isValidObjectId(id)
+      ? await Product.findById(id)
+      : null;
+
+    if (!product) {
+      return { error: `Product not found: ${id}` };
+    }
+
+    const offer = product.resolveVariant(variantId);
+
+    if (offer.error) {
+      return { error: offer.error };
+    }
+
+    const name = offer.label ? `${product.name} (${offer.label})` : product.name;
+
+    if (quantity > offer.stock) {
+      conflicts.push({
+        product: id,
+        ...(offer.variant && { variant: variantId }),
+        name,
+        requested: quantity,
+        available: offer.stock,
+      });
+      continue;
+    }
+
+    orderItems.push({
+      name: product.name,
+      quantity,
+      image: offer.image,
+      price: offer.price,
+      weight: offer.weight,
+      product: product._id,
+      ...(offer.variant && {
+        variant: offer.variant._id,
+        sku: offer.sku,
+        variantLabel: offer.label,
+      }),
+    });
+  }
+
+  if (conflicts.length > 0) {
+    return {
+      error: conflicts
+        .map((conflict) => `Only ${conflict.available} of ${conflict.name} left in stock`)
+        .join('. '),
+      conflicts,
+    };
+  }
+
+  return { orderItems };
+};
+
+const getOrderTotals = (orderItems) => ({
+  itemsPrice: roundPrice(
+    orderItems.reduce((acc, item) => acc + item.price * item.quantity, 0)
+  ),
+  weight: orderItems.reduce((acc, item) => acc + (item.weight || 0) * item.quantity, 0),
+});
+
+// Shipping methods available for these lines at the given address
+const getOrderShippingOptions = (orderItems, shippingAddress) =>
+  getShippingOptions(findZone(shippingAddress), getOrderTotals(orderItems));
+
+const calculatePrices = (
+  orderItems,
+  { shippingMethod = 'standard', shippingAddress, coupon = null } = {}
+) => {
+  const zone = findZone(shippingAddress);
+  const { itemsPrice, weight } = getOrderTotals(orderItems);
+  const shippingOption = getShippingOptions(zone, { itemsPrice, weight })
+    .find((option) => option.id === shippingMethod);
+  const shippingPrice = shippingOption ? shippingOption.price : 0;
+  const discountPrice = coupon ? coupon.calculateDiscount(orderItems, shippingPrice) : 0;
+  // A waived shipping fee doesn't reduce the taxable amount
+  const taxableAmount = coupon && coupon.type !== 'free_shipping'
+    ? itemsPrice - discountPrice
+    : itemsPrice;
+  const taxRate = getTaxRate(zone, shippingAddress);
+  const taxInclusive = Boolean(zone.pricesIncludeTax);
+  const taxPrice = calculateTax(taxableAmount, taxRate, taxInclusive);
+  const totalPrice = roundPrice(
+    itemsPrice - discountPrice + shippingPrice + (taxInclusive ? 0 : taxPrice)
+  );
+
+  return {
+    itemsPrice,
+    discountPrice,
+    shippingPrice,
+    taxPrice,
+    totalPrice,
+    taxRate,
+    taxInclusive,
+  };
+};
+
+// Resolves to { coupon } when the code can be used on these order lines, otherwise { error }
+const resolveCoupon = async (
+  code,
+  { orderItems, shippingMethod = 'standard', shippingAddress, userId }
+) => {
+  const coupon = await Coupon.findOne({ code: String(code).trim().toUpperCase() });
+
+  if (!coupon) {
+    return { error: 'Invalid coupon code' };
+  }
+
+  const { itemsPrice, shippingPrice } = calculatePrices(orderItems, {
+    shippingMethod,
+    shippingAddress,
+  });
+  const reason = coupon.getUnavailableReason(itemsPrice);
+
+  if (reason) {
+    return { error: reason };
+  }
+
+  if (userId && coupon.perUserLimit) {
+    const Order = mongoose.model('Order');
+    const uses = await Order.countDocuments({
+      user: userId,
+      'discount.code': coupon.code,
+      status: { $ne: 'cancelled' },
+    });
+
+    if (uses >= coupon.perUserLimit) {
+      return { error: 'You have already used this coupon' };
+    }
+  }
+
+  if (coupon.calculateDiscount(orderItems, shippingPrice) <= 0) {
+    return { error: 'This coupon does not apply to the items in your cart' };
+  }
+
+  return { coupon };
+};
+
+// Claim one use of the coupon, failing if another order took the last one
+const redeemCoupon = (coupon) =>
+  Coupon.findOneAndUpdate(
+    {
+      _id: coupon._id,
+      $or: [
+        { usageLimit: null },
+        { $expr: { $lt: ['$usageCount', '$usageLimit'] } },
+      ],
+    },
+    { $inc: { usageCount: 1 } },
+    { new: true }
+  );
+
+const releaseCoupon = (coupon) =>
+  Coupon.findByIdAndUpdate(coupon._id, { $inc: { usageCount: -1 } });
+
+// A cancelled order gives its coupon use back
+const releaseOrderCoupon = async (order) => {
+  if (!order.discount || !order.discount.code) return;
+
+  const coupon = await Coupon.findOne({ code: order.discount.code });
+  if (coupon) await releaseCoupon(coupon);
+};
+
+// A reopened order takes its use again; it's already paid for, so the limit doesn't apply
+const reclaimOrderCoupon = async (order) => {
+  if (!order.discount || !order.discount.code) return;
+
+  await Coupon.updateOne({ code: order.discount.code }, { $inc: { usageCount: 1 } });
+};
+
+module.exports = {
+  roundPrice,
+  buildOrderItems,
+  getOrderShippingOptions,
+  calculatePrices,
+  resolveCoupon,
+  redeemCoupon,
+  releaseCoupon,
+  releaseOrderCoupon,
+  reclaimOrderCoupon,
+};
@@ -0,0 +1,138 @@
+const crypto = require('crypto');
+const MockPayment = require('../../models/MockPayment');
+const { PaymentProvider, paymentError } = require('./PaymentProvider');
+
+const OUTCOMES = ['success', 'failure', 'timeout'];
+
+const roundPrice = (value) => Math.round(value * 100) / 100;
+
+const generateId = (prefix) => `${prefix}_mock_${crypto.randomBytes(8).toString('hex')}`;
+
+// Stand-in for a real provider. Nothing is random: every capture ends with the scripted
+// outcome, which defaults to `outcome` and can be overridden per call.
+class MockPaymentProvider extends PaymentProvider {
+  constructor({ secret, outcome = 'success', timeoutMs = 10000 } = {}) {
+    super('mock');
+    this.secret = secret;
+    this.outcome = OUTCOMES.includes(outcome) ? outcome : 'success';
+    this.timeoutMs = timeoutMs;
+  }
+
+  static isOutcome(outcome) {
+    return OUTCOMES.includes(outcome);
+  }
+
+  sign(orderId, paymentId) {
+    return crypto.createHmac('sha256', this.secret).update(`${orderId}|${paymentId}`).digest('hex');
+  }
+
+  async createOrder({ amount, currency = 'INR', receipt }) {
+    const payment = await MockPayment.create({
+      orderId: generateId('order'),
+      amount: roundPrice(amount),
+      currency,
+      receipt,
+    });
+
+    console.log(`[MOCK PAYMENT] Created order: ${payment.orderId} for amount: ${amount} ${currency}`);
+
+    return {
+      id: payment.orderId,
+      amount: payment.amount,
+      currency: payment.currency,
+      mock: true,
+    };
+  }
+
+  async verifyPayment({ orderId, paymentId, signature }) {
+    if (!orderId || !paymentId || typeof signature !== 'string') {
+      return false;
+    }
+
+    const payment = await MockPayment.findOne({ orderId, paymentId, status: 'captured' });
+    const expected = this.sign(orderId, paymentId);
+
+    return Boolean(payment) &&
+      expected.length === signature.length &&
+      crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+  }
+
+  // Captures are idempotent: capturing a captured order returns the same payment
+  async capturePayment({ orderId, amount, outcome = this.outcome }) {
+    const payment = await MockPayment.findOne({ orderId });
+
+    if (!payment) {
+      throw new Error(`Unknown mock payment order: ${orderId}`);
+    }
+
+    if (payment.status !== 'captured') {
+      if (amount !== undefined && roundPrice(amount) !== payment.amount) {
+        throw new Error('Amount does not match the payment order');
+      }
+
+      if (outcome === 'timeout') {
+        await new Promise((resolve) => setTimeout(resolve, this.timeoutMs));
+        throw paymentError('Mock payment timed out', 'PAYMENT_TIMEOUT');
+      }
+
+      if (outcome === 'failure') {
+        payment.status = 'failed';
+        await payment.save();
+        throw paymentError('Mock payment declined', 'PAYMENT_DECLINED');
+      }
+
+      payment.paymentId = generateId('pay');
+      payment.signature = this.sign(payment.orderId, payment.paymentId);
+      payment.status = 'captured';
+      await payment.save();
+
+      console.log(`[MOCK PAYMENT] Captured payment: ${payment.paymentId} for order: ${orderId}`);
+    }
+
+    return {
+      orderId: payment.orderId,
+      paymentId: payment.paymentId,
+      signature: payment.signature,
+      status: 'captured',
+    };
+  }
+
+  async refundPayment(paymentId, { amount } = {}) {
+    const payment = await MockPayment.findOne({ paymentId, status: 'captured' });
+
+    if (!payment) {
+      throw new Error(`Unknown mock payment: ${paymentId}`);
+    }
+
+    const refundAmount = roundPrice(
+      amount === undefined ? payment.amount - payment.refundedAmount : amount
+    );
+    const refundId = generateId('rfnd');
+
+    // Claim the amount atomically so parallel refunds can't exceed the payment
+    const refunded = await MockPayment.findOneAndUpdate(
+      {
+        _id: payment._id,
+        $expr: { $lte: [{ $add: ['$refundedAmount', refundAmount] }, '$amount'] },
+      },
+      {
+        $inc: { refundedAmount: refundAmount },
+        $push: { refunds: { refundId, amount: refundAmount } },
+      }
+    );
+
+    if (!refunded) {
+      throw new Error('Refund exceeds the captured amount');
+    }
+
+    console.log(`[MOCK PAYMENT] Refunded payment: ${paymentId} with refund ID: ${refundId}`);
+
+    return {
+      id: refundId,
+      amount: refundAmount,
+      status: 'processed',
+    };
+  }
+}
+
+module.exports = MockPaymentProvider;
@@ -0,0 +1,42 @@
+// Contract every payment provider implements. Amounts are in major currency units
+// (rupees, dollars); providers convert to whatever their API expects.
+//
+// Errors a customer can act on carry a `code`:
+// - PAYMENT_DECLINED: the payment was refused
+// - PAYMENT_TIMEOUT: the provider didn't answer in time
+class PaymentProvider {
+  constructor(name) {
+    this.name = name;
+  }
+
+  // Open a payment for an order. Resolves to { id, amount, currency }.
+  async createOrder({ amount, currency, receipt }) {
+    throw new Error(`${this.name} does not implement createOrder`);
+  }
+
+  // Check the proof of payment the checkout sent back. Resolves to a boolean.
+  async verifyPayment({ orderId, paymentId, signature }) {
+    throw new Error(`${this.name} does not implement verifyPayment`);
+  }
+
+  // Capture funds for a payment order. Resolves to { orderId, paymentId, signature, status }.
+  async capturePayment({ orderId, paymentId, amount, currency }) {
+    throw new Error(`${this.name} does not implement capturePayment`);
+  }
+
+  // Refund all or part of a captured payment. Resolves to { id, amount, status }.
+  async refundPayment(paymentId, { amount, notes }) {
+    throw new Error(`${this.name} does not implement refundPayment`);
+  }
+}
+
+const paymentError = (message, code) => {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+};
+
+module.exports = {
+  PaymentProvider,
+  paymentError,
+};
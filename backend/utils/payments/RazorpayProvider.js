@@ -0,0 +1,63 @@
+const Razorpay = require('razorpay');
+const { PaymentProvider } = require('./PaymentProvider');
+
+const toSubunits = (amount) => Math.round(amount * 100);
+const fromSubunits = (amount) => amount / 100;
+
+class RazorpayProvider extends PaymentProvider {
+  constructor({ keyId, keySecret }) {
+    super('razorpay');
+    this.keySecret = keySecret;
+    this.client = new Razorpay({
+      key_id: keyId,
+      key_secret: keySecret,
+    });
+  }
+
+  async createOrder({ amount, currency = 'INR', receipt }) {
+    const order = await this.client.orders.create({
+      amount: toSubunits(amount),
+      currency,
+      receipt,
+    });
+
+    return {
+      id: order.id,
+      amount: fromSubunits(order.amount),
+      currency: order.currency,
+    };
+  }
+
+  async verifyPayment({ orderId, paymentId, signature }) {
+    if (!orderId || !paymentId || !signature) {
+      return false;
+    }
+
+    return Razorpay.validateWebhookSignature(`${orderId}|${paymentId}`, signature, this.keySecret);
+  }
+
+  async capturePayment({ paymentId, amount, currency = 'INR' }) {
+    const payment = await this.client.payments.capture(paymentId, toSubunits(amount), currency);
+
+    return {
+      orderId: payment.order_id,
+      paymentId: payment.id,
+      status: payment.status,
+    };
+  }
+
+  async refundPayment(paymentId, { amount, notes } = {}) {
+    const refund = await this.client.payments.refund(paymentId, {
+      ...(amount !== undefined && { amount: toSubunits(amount) }),
+      notes,
+    });
+
+    return {
+      id: refund.id,
+      amount: fromSubunits(refund.amount),
+      status: refund.status,
+    };
+  }
+}
+
+module.exports = RazorpayProvider;
@@ -0,0 +1,58 @@
+const RazorpayProvider = require('./RazorpayProvider');
+const MockPaymentProvider = require('./MockPaymentProvider');
+const { PaymentProvider } = require('./PaymentProvider');
+
+// Mock payments mark orders paid without taking money, so production never offers them
+const mockPaymentsEnabled = process.env.NODE_ENV !== 'production';
+
+const mockProvider = mockPaymentsEnabled
+  ? new MockPaymentProvider({
+      secret: process.env.MOCK_PAYMENT_SECRET || 'mock_payment_secret',
+      outcome: process.env.MOCK_PAYMENT_OUTCOME,
+      timeoutMs: Number(process.env.MOCK_PAYMENT_TIMEOUT_MS) || undefined,
+    })
+  : null;
+
+let razorpayProvider;
+try {
+  razorpayProvider = new RazorpayProvider({
+    keyId: process.env.RAZORPAY_KEY_ID,
+    keySecret: process.env.RAZORPAY_KEY_SECRET,
+  });
+} catch (error) {
+  console.error('Failed to initialize Razorpay:', error);
+}
+
+// Without its keys Razorpay is left unconfigured rather than standing in a mock for it,
+// which would let Razorpay orders be paid without taking money
+const providers = {
+  razorpay: razorpayProvider || null,
+  ...(mockProvider && { mock: mockProvider }),
+};
+
+const isPaymentMethod = (paymentMethod) =>
+  Object.prototype.hasOwnProperty.call(providers, paymentMethod);
+
+const isPaymentMethodConfigured = (paymentMethod) =>
+  isPaymentMethod(paymentMethod) && Boolean(providers[paymentMethod]);
+
+const getPaymentProvider = (paymentMethod) => {
+  if (!isPaymentMethod(paymentMethod)) {
+    throw new Error(`Unknown payment method: ${paymentMethod}`);
+  }
+
+  if (!providers[paymentMethod]) {
+    throw new Error(`Payment method is not configured: ${paymentMethod}`);
+  }
+
+  return providers[paymentMethod];
+};
+
+module.exports = {
+  PaymentProvider,
+  MockPaymentProvider,
+  mockPaymentsEnabled,
+  isPaymentMethod,
+  isPaymentMethodConfigured,
+  getPaymentProvider,
+};
@@ -0,0 +1,81 @@
+const rules = require('../config/pricing');
+
+const roundPrice = (value) => Math.round(value * 100) / 100;
+
+const normalize = (value) => String(value || '').trim().toUpperCase();
+
+// Zone for a shipping address; addresses without a known country use the default zone
+const findZone = (shippingAddress = {}) => {
+  const country = normalize(shippingAddress.country);
+
+  return (
+    rules.zones.find((zone) =>
+      zone.countries.some((code) => normalize(code) === country)
+    ) || rules.zones.find((zone) => zone.id === rules.defaultZone)
+  );
+};
+
+const getTaxRate = (zone, shippingAddress = {}) => {
+  const region = normalize(shippingAddress.state);
+  const regionRates = Object.fromEntries(
+    Object.entries(zone.regionTaxRates || {}).map(([key, rate]) => [normalize(key), rate])
+  );
+
+  return region && regionRates[region] !== undefined ? regionRates[region] : zone.taxRate;
+};
+
+const matchesTier = (tier, { itemsPrice, weight }) =>
+  (tier.subtotalAbove === undefined || itemsPrice > tier.subtotalAbove) &&
+  (tier.maxWeight === undefined || weight <= tier.maxWeight);
+
+// Every shipping method offered in the zone, priced for this subtotal and weight
+const getShippingOptions = (zone, { itemsPrice, weight = 0 }) =>
+  Object.entries(zone.shipping).map(([id, method]) => {
+    const tier = method.tiers.find((t) => matchesTier(t, { itemsPrice, weight }));
+
+    return {
+      id,
+      label: method.label,
+      description: method.description,
+      price: tier ? tier.price : 0,
+    };
+  });
+
+const isShippingMethod = (method) =>
+  rules.zones.every((zone) => Boolean(zone.shipping[method]));
+
+// Tax owed on an amount; for tax-inclusive zones this is the share already in the price
+const calculateTax = (amount, taxRate, pricesIncludeTax) =>
+  roundPrice(
+    pricesIncludeTax ? amount - amount / (1 + taxRate) : amount * taxRate
+  );
+
+// Tax lines for an invoice. GST zones charge CGST and SGST at half the rate each when
+// the goods stay in the seller's state, and IGST when they cross state lines.
+const getTaxLines = (zone, { taxRate, taxPrice, shippingAddress = {}, sellerStates = [] }) => {
+  if (zone.taxScheme !== 'gst') {
+    return [{ name: 'Tax', rate: taxRate, amount: taxPrice }];
+  }
+
+  const region = normalize(shippingAddress.state);
+  const intraState = Boolean(region) && sellerStates.some((state) => normalize(state) === region);
+
+  if (!intraState) {
+    return [{ name: 'IGST', rate: taxRate, amount: taxPrice }];
+  }
+
+  const half = roundPrice(taxPrice / 2);
+  return [
+    { name: 'CGST', rate: taxRate / 2, amount: half },
+    { name: 'SGST', rate: taxRate / 2, amount: roundPrice(taxPrice - half) },
+  ];
+};
+
+module.exports = {
+  findZone,
+  getTaxRate,
+  getShippingOptions,
+  isShippingMethod,
+  calculateTax,
+  getTaxLines,
+};
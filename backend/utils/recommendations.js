@@ -0,0 +1,160 @@
+const Order = require('../models/Order');
+const Product = require('../models/Product');
+const ProductAffinity = require('../models/ProductAffinity');
+
+// Pairs seen together fewer times than this are treated as coincidence
+const MIN_CO_PURCHASES = 2;
+// Affinities kept per product
+const MAX_RELATED = 10;
+// Orders with more distinct products than this (stock-ups, corporate gifting)
+// say little about what goes together and would add pairs quadratically
+const MAX_PRODUCTS_PER_ORDER = 30;
+const REFRESH_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+let runningBuild = null;
+
+const pairKey = (a, b) => (a < b ? `${a}:${b}` : `${b}:${a}`);
+
+// Count how many paid orders contain each product and each pair of products
+const countCoPurchases = async () => {
+  const productOrders = new Map();
+  const pairOrders = new Map();
+  let totalOrders = 0;
+
+  const cursor = Order.find({ isPaid: true, status: { $ne: 'cancelled' } })
+    .select('orderItems.product')
+    .lean()
+    .cursor();
+
+  for await (const order of cursor) {
+    const ids = Array.from(new Set(order.orderItems.map((item) => item.product.toString())));
+    if (ids.length === 0) continue;
+
+    totalOrders += 1;
+    ids.forEach((id) => productOrders.set(id, (productOrders.get(id) || 0) + 1));
+
+    if (ids.length > MAX_PRODUCTS_PER_ORDER) continue;
+    for (let i = 0; i < ids.length; i += 1) {
+      for (let j = i + 1; j < ids.length; j += 1) {
+        const key = pairKey(ids[i], ids[j]);
+        pairOrders.set(key, (pairOrders.get(key) || 0) + 1);
+      }
+    }
+  }
+
+  return { productOrders, pairOrders, totalOrders };
+};
+
+// product -> affinities, strongest first
+const scoreAffinities = ({ productOrders, pairOrders, totalOrders }) => {
+  const related = new Map();
+
+  const add = (from, to, orders) => {
+    const confidence = orders / productOrders.get(from);
+    const lift = confidence / (productOrders.get(to) / totalOrders);
+    // Products that sell with everything have a lift near 1 and rank below real pairings
+    if (lift < 1) return;
+
+    if (!related.has(from)) related.set(from, []);
+    related.get(from).push({
+      product: to,
+      orders,
+      confidence,
+      lift,
+      score: confidence * Math.log1p(lift),
+    });
+  };
+
+  pairOrders.forEach((orders, key) => {
+    if (orders < MIN_CO_PURCHASES) return;
+    const [a, b] = key.split(':');
+    add(a, b, orders);
+    add(b, a, orders);
+  });
+
+  related.forEach((list, product) => {
+    related.set(product, list.sort((a, b) => b.score - a.score).slice(0, MAX_RELATED));
+  });
+
+  return related;
+};
+
+// Rebuild every product's co-purchase affinities from paid orders.
+// Concurrent calls share one run.
+const buildAffinities = () => {
+  if (runningBuild) return runningBuild;
+
+  runningBuild = (async () => {
+    const computedAt = new Date();
+    const counts = await countCoPurchases();
+    const related = scoreAffinities(counts);
+
+    if (related.size > 0) {
+      await ProductAffinity.bulkWrite(
+        Array.from(related.entries()).map(([product, list]) => ({
+          updateOne: {
+            filter: { product },
+            update: { $set: { related: list, computedAt } },
+            upsert: true,
+          },
+        }))
+      );
+    }
+    // Products that no longer have enough shared orders
+    await ProductAffinity.deleteMany({ computedAt: { $lt: computedAt } });
+
+    return { orders: counts.totalOrders, products: related.size };
+  })().finally(() => {
+    runningBuild = null;
+  });
+
+  return runningBuild;
+};
+
+// In-stock products most often bought with any of `productIds`, excluding those
+// products themselves. Scores add up when several of them point the same way.
+const getBoughtTogether = async (productIds, limit) => {
+  const exclude = new Set(productIds.map(String));
+  const affinities = await ProductAffinity.find({ product: { $in: productIds } }).lean();
+  const scores = new Map();
+
+  affinities.forEach(({ related }) => {
+    related.forEach(({ product, score }) => {
+      const id = product.toString();
+      if (exclude.has(id)) return;
+      scores.set(id, (scores.get(id) || 0) + score);
+    });
+  });
+
+  const ranked = Array.from(scores.entries()).sort((a, b) => b[1] - a[1]);
+  const products = await Product.find({
+    _id: { $in: ranked.map(([id]) => id) },
+    stock: { $gt: 0 },
+  });
+  const productsById = new Map(products.map((product) => [product._id.toString(), product]));
+
+  return ranked
+    .filter(([id]) => productsById.has(id))
+    .slice(0, limit)
+    .map(([id]) => productsById.get(id));
+};
+
+const startAffinityJob = () => {
+  const run = () =>
+    buildAffinities().catch((error) =>
+      console.error('Failed to build co-purchase affinities:', error)
+    );
+
+  run();
+  const timer = setInterval(run, REFRESH_INTERVAL_MS);
+
+  // Don't keep the process alive just for the job
+  timer.unref();
+  return timer;
+};
+
+module.exports = {
+  buildAffinities,
+  getBoughtTogether,
+  startAffinityJob,
+};
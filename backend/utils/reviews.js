@@ -0,0 +1,197 @@
+const crypto = require('crypto');
+const fs = require('fs/promises');
+const path = require('path');
+const Order = require('../models/Order');
+const Product = require('../models/Product');
+const Review = require('../models/Review');
+const ReviewPhoto = require('../models/ReviewPhoto');
+const { publicUrl } = require('../config/uploads');
+
+const UPLOADS_DIR = path.join(__dirname, '..', 'uploads');
+const REVIEW_PHOTOS_DIR = path.join(UPLOADS_DIR, 'reviews');
+const MAX_PHOTO_BYTES = 5 * 1024 * 1024;
+const PHOTO_EXTENSIONS = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+// Only photos we stored ourselves can be attached to a review
+const PHOTO_PATH = /^\/uploads\/reviews\/[a-f0-9]{32}\.(jpg|png|webp)$/;
+// A customer can't keep more than this many uploads that aren't on a review yet
+const MAX_PENDING_PHOTOS = 10;
+// Uploads never attached to a review are deleted once they are this old
+const ORPHANED_PHOTO_AGE_MS = 24 * 60 * 60 * 1000;
+const PHOTO_CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+// The file signature each accepted type starts with
+const PHOTO_SIGNATURES = {
+  'image/jpeg': (buffer) => buffer.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])),
+  'image/png': (buffer) =>
+    buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  'image/webp': (buffer) =>
+    buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WEBP',
+};
+
+// Whether the customer has a paid, non-cancelled order containing the product
+const hasPurchased = async (userId, productId) =>
+  !!(await Order.exists({
+    user: userId,
+    isPaid: true,
+    status: { $ne: 'cancelled' },
+    'orderItems.product': productId,
+  }));
+
+// Store an uploaded review photo for the customer and return its path under /uploads.
+// The declared type has to match what the bytes actually are.
+const saveReviewPhoto = async (userId, buffer, contentType) => {
+  const mimeType = String(contentType || '').split(';')[0].trim().toLowerCase();
+  const extension = PHOTO_EXTENSIONS[mimeType];
+
+  if (!extension || !PHOTO_SIGNATURES[mimeType](buffer)) {
+    return { error: 'Please upload a JPEG, PNG or WebP image' };
+  }
+
+  const pending = await ReviewPhoto.countDocuments({ user: userId, review: null });
+  if (pending >= MAX_PENDING_PHOTOS) {
+    return { error: 'Please finish your review before uploading more photos', status: 429 };
+  }
+
+  const filename = `${crypto.randomBytes(16).toString('hex')}.${extension}`;
+  const photoPath = `/uploads/reviews/${filename}`;
+
+  await fs.mkdir(REVIEW_PHOTOS_DIR, { recursive: true });
+  await fs.writeFile(path.join(REVIEW_PHOTOS_DIR, filename), buffer);
+  await ReviewPhoto.create({ user: userId, path: photoPath });
+
+  return { path: photoPath };
+};
+
+// Accept a photo as the URL we handed out or as its path; anything else is rejected
+const toPhotoPath = (url) => {
+  if (typeof url !== 'string') return null;
+  const photoPath = url.startsWith(`${publicUrl}/`) ? url.slice(publicUrl.length) : url;
+  return PHOTO_PATH.test(photoPath) ? photoPath : null;
+};
+
+// Whether every photo was uploaded by the customer and isn't on another review
+const ownsReviewPhotos = async (userId, photoPaths, reviewId = null) =>
+  photoPaths.length === 0 ||
+  (await ReviewPhoto.countDocuments({
+    user: userId,
+    path: { $in: photoPaths },
+    review: { $in: [null, reviewId] },
+  })) === new Set(photoPaths).size;
+
+const unlinkPhoto = (photoPath) =>
+  fs.unlink(path.join(UPLOADS_DIR, photoPath.replace(/^\/uploads\//, ''))).catch((error) => {
+    if (error.code !== 'ENOENT') throw error;
+  });
+
+// Remove photos from the database and from disk
+const deleteReviewPhotos = async (photoPaths) => {
+  if (photoPaths.length === 0) return;
+
+  await ReviewPhoto.deleteMany({ path: { $in: photoPaths } });
+  await Promise.all(photoPaths.map(unlinkPhoto));
+};
+
+// Attach a saved review's photos to it and delete the ones it no longer uses
+const syncReviewPhotos = async (review, previousPaths = []) => {
+  await ReviewPhoto.updateMany(
+    { user: review.user, path: { $in: review.photos } },
+    { review: review._id }
+  );
+  await deleteReviewPhotos(previousPaths.filter((photoPath) => !review.photos.includes(photoPath)));
+};
+
+// Delete uploads that were never attached to a review
+const removeOrphanedPhotos = async () => {
+  const orphaned = await ReviewPhoto.find({
+    review: null,
+    createdAt: { $lt: new Date(Date.now() - ORPHANED_PHOTO_AGE_MS) },
+  })
+    .select('path')
+    .lean();
+  let removed = 0;
+
+  for (const photo of orphaned) {
+    // Skip any that were attached to a review since they were read
+    const { deletedCount } = await ReviewPhoto.deleteOne({ _id: photo._id, review: null });
+    if (deletedCount) {
+      await unlinkPhoto(photo.path);
+      removed += 1;
+    }
+  }
+
+  return removed;
+};
+
+const startPhotoCleanup = () => {
+  const timer = setInterval(() => {
+    removeOrphanedPhotos().catch((error) =>
+      console.error('Failed to remove orphaned review photos:', error)
+    );
+  }, PHOTO_CLEANUP_INTERVAL_MS);
+
+  // Don't keep the process alive just for the cleanup
+  timer.unref();
+  return timer;
+};
+
+// Reviews used to live in an array on the product. Move any that are left into
+// the reviews collection; they were already public, so they stay approved.
+const migrateEmbeddedReviews = async () => {
+  // `reviews` is no longer in the schema, so read it as stored
+  const cursor = Product.find({ 'reviews.0': { $exists: true } })
+    .select('reviews')
+    .lean()
+    .cursor();
+  let migrated = 0;
+
+  for await (const product of cursor) {
+    const reviews = await Promise.all(
+      product.reviews.map(async (review) => ({
+        product: product._id,
+        user: review.user,
+        name: review.name,
+        rating: review.rating,
+        comment: review.comment,
+        verifiedPurchase: await hasPurchased(review.user, product._id),
+        status: 'approved',
+        createdAt: review.createdAt,
+        updatedAt: review.updatedAt,
+      }))
+    );
+
+    try {
+      await Review.insertMany(reviews, { ordered: false });
+    } catch (error) {
+      // Already migrated on an earlier run that didn't finish
+      if (error.code !== 11000) throw error;
+    }
+    await Product.updateOne(
+      { _id: product._id },
+      { $unset: { reviews: '' } },
+      { strict: false }
+    );
+    await Review.updateProductRating(product._id);
+    migrated += reviews.length;
+  }
+
+  return migrated;
+};
+
+module.exports = {
+  UPLOADS_DIR,
+  MAX_PHOTO_BYTES,
+  PHOTO_TYPES: Object.keys(PHOTO_EXTENSIONS),
+  hasPurchased,
+  saveReviewPhoto,
+  toPhotoPath,
+  ownsReviewPhotos,
+  deleteReviewPhotos,
+  syncReviewPhotos,
+  removeOrphanedPhotos,
+  startPhotoCleanup,
+  migrateEmbeddedReviews,
+};
@@ -0,0 +1,97 @@
+const Product = require('../models/Product');
+
+// Base notes linger and define a candle's character, so they count for most
+const NOTE_WEIGHTS = {
+  top: 0.8,
+  heart: 1,
+  base: 1.2,
+};
+
+// How much each part of the profile contributes to similarity (sums to 1)
+const SIMILARITY_SHARES = {
+  notes: 0.7,
+  families: 0.25,
+  intensity: 0.05,
+};
+
+// How many candidates to score when looking for similar scents
+const CANDIDATE_LIMIT = 200;
+
+// note -> weight of the most prominent tier it appears in
+const weighNotes = (profile) => {
+  const weights = new Map();
+  Object.entries(NOTE_WEIGHTS).forEach(([tier, weight]) => {
+    (profile?.notes?.[tier] || []).forEach((note) => {
+      weights.set(note, Math.max(weights.get(note) || 0, weight));
+    });
+  });
+  return weights;
+};
+
+const getNotes = (profile) => Array.from(weighNotes(profile).keys());
+
+// Weighted Jaccard overlap of two weight maps, between 0 and 1
+const overlap = (a, b) => {
+  let shared = 0;
+  let total = 0;
+  new Set([...a.keys(), ...b.keys()]).forEach((key) => {
+    shared += Math.min(a.get(key) || 0, b.get(key) || 0);
+    total += Math.max(a.get(key) || 0, b.get(key) || 0);
+  });
+  return total > 0 ? shared / total : 0;
+};
+
+const toWeights = (list = []) => new Map(list.map((entry) => [entry, 1]));
+
+// How alike two scent profiles smell, between 0 and 1
+const scentSimilarity = (a, b) => {
+  if (!a || !b) return 0;
+
+  return (
+    SIMILARITY_SHARES.notes * overlap(weighNotes(a), weighNotes(b)) +
+    SIMILARITY_SHARES.families * overlap(toWeights(a.families), toWeights(b.families)) +
+    (a.intensity && a.intensity === b.intensity ? SIMILARITY_SHARES.intensity : 0)
+  );
+};
+
+// In-stock products sharing at least one note or family with `product`, most
+// similar first. Empty when the product has no scent profile.
+const findSimilarScents = async (product, limit) => {
+  const profile = product.scentProfile;
+  const notes = getNotes(profile);
+  const families = profile?.families || [];
+
+  if (notes.length === 0 && families.length === 0) {
+    return [];
+  }
+
+  const candidates = await Product.find({
+    _id: { $ne: product._id },
+    stock: { $gt: 0 },
+    $or: [
+      ...(families.length > 0 ? [{ 'scentProfile.families': { $in: families } }] : []),
+      ...(notes.length > 0
+        ? Object.keys(NOTE_WEIGHTS).map((tier) => ({ [`scentProfile.notes.${tier}`]: { $in: notes } }))
+        : []),
+    ],
+  })
+    .sort({ rating: -1 })
+    .limit(CANDIDATE_LIMIT);
+
+  return candidates
+    .map((candidate) => ({
+      candidate,
+      similarity: scentSimilarity(profile, candidate.scentProfile),
+    }))
+    .filter(({ similarity }) => similarity > 0)
+    .sort((a, b) => b.similarity - a.similarity || b.candidate.rating - a.candidate.rating)
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+};
+
+module.exports = {
+  NOTE_TIERS: Object.keys(NOTE_WEIGHTS),
+  getNotes,
+  scentSimilarity,
+  findSimilarScents,
+};
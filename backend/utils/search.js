@@ -0,0 +1,330 @@
+const Product = require('../models/Product');
+const Question = require('../models/Question');
+
+// How much a match in each field counts towards a product's relevance
+const FIELD_WEIGHTS = {
+  name: 3,
+  scent: 2,
+  category: 1.5,
+  description: 1,
+  // Answered customer questions, e.g. "is it safe around cats?"
+  questions: 0.5,
+};
+
+// Fields read from the product itself; `questions` is gathered from the Q&A
+const PRODUCT_FIELDS = ['name', 'scent', 'category', 'description'];
+
+// Matches that needed a typo correction or only share a prefix rank below exact ones
+const MATCH_QUALITY = {
+  exact: 1,
+  prefix: 0.8,
+  fuzzy: [1, 0.6, 0.4],
+};
+
+// Rebuild at least this often so writes from other processes show up
+const INDEX_TTL_MS = 5 * 60 * 1000;
+const SNIPPET_LENGTH = 160;
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'for', 'in', 'of', 'on', 'or', 'the', 'to', 'with']);
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+const normalizeTerm = (word) =>
+  word.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const tokenize = (text = '') =>
+  (String(text).match(WORD_PATTERN) || [])
+    .map(normalizeTerm)
+    .filter((term) => term && !STOP_WORDS.has(term));
+
+// Longer words tolerate more typos; short ones must match exactly
+const maxEditsFor = (term) => {
+  if (term.length <= 4) return 0;
+  if (term.length <= 8) return 1;
+  return 2;
+};
+
+// Optimal string alignment distance (Levenshtein plus adjacent swaps), giving up
+// once the distance is known to exceed `max`
+const editDistance = (a, b, max) => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousPrevious = null;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+
+      if (previousPrevious && i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > max) return max + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+let index = null;
+let indexBuiltAt = 0;
+let pendingBuild = null;
+// Bumped on every invalidation so a rebuild that started earlier isn't treated as fresh
+let generation = 0;
+
+// term -> Map(productId -> { [field]: term frequency })
+const buildIndex = (products) => {
+  const postings = new Map();
+  const fieldLengths = new Map();
+  const totals = Object.fromEntries(Object.keys(FIELD_WEIGHTS).map((field) => [field, 0]));
+
+  products.forEach((product) => {
+    const id = product._id.toString();
+    const lengths = {};
+
+    Object.keys(FIELD_WEIGHTS).forEach((field) => {
+      const terms = tokenize(product[field]);
+      lengths[field] = terms.length;
+      totals[field] += terms.length;
+
+      terms.forEach((term) => {
+        if (!postings.has(term)) postings.set(term, new Map());
+        const documents = postings.get(term);
+        const frequencies = documents.get(id) || {};
+        frequencies[field] = (frequencies[field] || 0) + 1;
+        documents.set(id, frequencies);
+      });
+    });
+
+    fieldLengths.set(id, lengths);
+  });
+
+  const count = Math.max(products.length, 1);
+
+  return {
+    postings,
+    fieldLengths,
+    averageLengths: Object.fromEntries(
+      Object.entries(totals).map(([field, total]) => [field, total / count || 1])
+    ),
+    count: products.length,
+  };
+};
+
+const getIndex = async () => {
+  if (index && Date.now() - indexBuiltAt < INDEX_TTL_MS) {
+    return index;
+  }
+
+  // Concurrent searches share one rebuild
+  if (!pendingBuild) {
+    const buildGeneration = generation;
+    pendingBuild = Promise.all([
+      Product.find({}).select(PRODUCT_FIELDS.join(' ')).lean(),
+      Question.find({ answerCount: { $gt: 0 } }).select('product body answers.body').lean(),
+    ])
+      .then(([products, questions]) => {
+        const questionText = new Map();
+        questions.forEach((question) => {
+          const id = question.product.toString();
+          const text = [question.body, ...question.answers.map((answer) => answer.body)];
+          questionText.set(id, [...(questionText.get(id) || []), ...text]);
+        });
+
+        index = buildIndex(
+          products.map((product) => ({
+            ...product,
+            questions: (questionText.get(product._id.toString()) || []).join(' '),
+          }))
+        );
+        indexBuiltAt = buildGeneration === generation ? Date.now() : 0;
+        return index;
+      })
+      .finally(() => {
+        pendingBuild = null;
+      });
+  }
+
+  return pendingBuild;
+};
+
+// Call after products are created, edited or deleted, or their questions answered
+const invalidateSearchIndex = () => {
+  generation += 1;
+  indexBuiltAt = 0;
+};
+
+// Vocabulary terms a query term stands for, with how closely each matches.
+// The last term of a query may also be an unfinished word.
+const expandTerm = (term, vocabulary, { allowPrefix }) => {
+  const matches = new Map();
+  const maxEdits = maxEditsFor(term);
+
+  vocabulary.forEach((candidate) => {
+    if (candidate === term) {
+      matches.set(candidate, MATCH_QUALITY.exact);
+      return;
+    }
+
+    if (allowPrefix && term.length >= 2 && candidate.startsWith(term)) {
+      matches.set(candidate, MATCH_QUALITY.prefix);
+      return;
+    }
+
+    if (maxEdits > 0) {
+      const distance = editDistance(term, candidate, maxEdits);
+      if (distance <= maxEdits) {
+        matches.set(candidate, MATCH_QUALITY.fuzzy[distance]);
+      }
+    }
+  });
+
+  return matches;
+};
+
+// BM25 term weighting per field
+const scoreField = (frequency, length, averageLength) => {
+  const k1 = 1.2;
+  const b = 0.75;
+  return (frequency * (k1 + 1)) / (frequency + k1 * (1 - b + (b * length) / averageLength));
+};
+
+// Rank every product against the query. Resolves to
+// [{ id, score, terms }] best first, where `terms` are the indexed words that matched.
+const rankProducts = async (query) => {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+
+  if (queryTerms.length === 0) {
+    return [];
+  }
+
+  const { postings, fieldLengths, averageLengths, count } = await getIndex();
+  const vocabulary = Array.from(postings.keys());
+  const results = new Map();
+
+  queryTerms.forEach((queryTerm, position) => {
+    const expansions = expandTerm(queryTerm, vocabulary, {
+      allowPrefix: position === queryTerms.length - 1,
+    });
+    // Best score this query term earned per product, so typo variants don't stack
+    const termScores = new Map();
+
+    expansions.forEach((quality, term) => {
+      const documents = postings.get(term);
+      const idf = Math.log(1 + (count - documents.size + 0.5) / (documents.size + 0.5));
+
+      documents.forEach((frequencies, id) => {
+        const lengths = fieldLengths.get(id);
+        const score = Object.entries(frequencies).reduce(
+          (acc, [field, frequency]) =>
+            acc +
+            FIELD_WEIGHTS[field] * scoreField(frequency, lengths[field], averageLengths[field]),
+          0
+        ) * idf * quality;
+
+        const best = termScores.get(id);
+        if (!best || score > best.score) {
+          termScores.set(id, { score, terms: best ? [...best.terms, term] : [term] });
+        } else {
+          best.terms.push(term);
+        }
+      });
+    });
+
+    termScores.forEach(({ score, terms }, id) => {
+      const result = results.get(id) || { id, score: 0, matched: 0, terms: new Set() };
+      result.score += score;
+      result.matched += 1;
+      terms.forEach((term) => result.terms.add(term));
+      results.set(id, result);
+    });
+  });
+
+  // Products matching every query term come first
+  return Array.from(results.values())
+    .map(({ id, score, matched, terms }) => ({
+      id,
+      score: score * (matched / queryTerms.length) ** 2,
+      terms: Array.from(terms),
+    }))
+    .sort((a, b) => b.score - a.score);
+};
+
+// Split text into plain and highlighted segments for the words in `terms`
+const highlight = (text = '', terms) => {
+  const segments = [];
+  let last = 0;
+
+  for (const match of String(text).matchAll(WORD_PATTERN)) {
+    if (!terms.has(normalizeTerm(match[0]))) continue;
+
+    if (match.index > last) {
+      segments.push({ text: text.slice(last, match.index), match: false });
+    }
+    segments.push({ text: match[0], match: true });
+    last = match.index + match[0].length;
+  }
+
+  if (last < text.length) {
+    segments.push({ text: text.slice(last), match: false });
+  }
+
+  return segments;
+};
+
+// A window of the description around its first match, highlighted
+const snippet = (text = '', terms) => {
+  const value = String(text);
+  let start = 0;
+
+  for (const match of value.matchAll(WORD_PATTERN)) {
+    if (terms.has(normalizeTerm(match[0]))) {
+      start = Math.max(0, match.index - SNIPPET_LENGTH / 4);
+      break;
+    }
+  }
+
+  // Don't cut words in half
+  if (start > 0) {
+    const space = value.indexOf(' ', start);
+    start = space === -1 ? start : space + 1;
+  }
+  let end = Math.min(value.length, start + SNIPPET_LENGTH);
+  if (end < value.length) {
+    const space = value.lastIndexOf(' ', end);
+    end = space > start ? space : end;
+  }
+
+  const segments = highlight(value.slice(start, end), terms);
+  if (start > 0) segments.unshift({ text: '… ', match: false });
+  if (end < value.length) segments.push({ text: ' …', match: false });
+
+  return segments;
+};
+
+const getHighlights = (product, terms) => {
+  const termSet = new Set(terms);
+  return {
+    name: highlight(product.name, termSet),
+    snippet: snippet(product.description, termSet),
+  };
+};
+
+module.exports = {
+  normalizeTerm,
+  tokenize,
+  editDistance,
+  rankProducts,
+  getHighlights,
+  invalidateSearchIndex,
+};
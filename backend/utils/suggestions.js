@@ -0,0 +1,125 @@
+const Product = require('../models/Product');
+const Order = require('../models/Order');
+const { normalizeTerm } = require('./search');
+
+// Sales from this far back count towards popularity
+const POPULARITY_WINDOW_DAYS = 90;
+// A review says about as much about interest as a couple of sales
+const REVIEW_WEIGHT = 2;
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+let entries = null;
+let builtAt = 0;
+let pendingBuild = null;
+let generation = 0;
+
+const normalizePhrase = (text) =>
+  (String(text).match(/[\p{L}\p{N}]+/gu) || []).map(normalizeTerm).join(' ');
+
+// Units sold per product in recent paid orders
+const getUnitsSold = async () => {
+  const since = new Date(Date.now() - POPULARITY_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const rows = await Order.aggregate([
+    { $match: { isPaid: true, paidAt: { $gte: since } } },
+    { $unwind: '$orderItems' },
+    { $group: { _id: '$orderItems.product', units: { $sum: '$orderItems.quantity' } } },
+  ]);
+  return new Map(rows.map((row) => [row._id.toString(), row.units]));
+};
+
+// One entry per product name, scent and category, each with a popularity score.
+// Scents and categories add up the popularity of their products.
+const buildEntries = (products, unitsSold) => {
+  const groups = { scent: new Map(), category: new Map() };
+  const list = [];
+
+  products.forEach((product) => {
+    const id = product._id.toString();
+    const popularity = (unitsSold.get(id) || 0) + product.numReviews * REVIEW_WEIGHT;
+
+    list.push({
+      type: 'product',
+      value: product.name,
+      productId: id,
+      popularity,
+      searchText: normalizePhrase(product.name),
+    });
+
+    ['scent', 'category'].forEach((type) => {
+      const value = product[type];
+      if (!value) return;
+      const key = normalizePhrase(value);
+      const group = groups[type].get(key) || { type, value, popularity: 0, count: 0, searchText: key };
+      group.popularity += popularity;
+      group.count += 1;
+      groups[type].set(key, group);
+    });
+  });
+
+  return [...list, ...groups.scent.values(), ...groups.category.values()];
+};
+
+const getEntries = async () => {
+  if (entries && Date.now() - builtAt < CACHE_TTL_MS) {
+    return entries;
+  }
+
+  if (!pendingBuild) {
+    const buildGeneration = generation;
+    pendingBuild = Promise.all([
+      Product.find({}).select('name scent category numReviews').lean(),
+      getUnitsSold(),
+    ])
+      .then(([products, unitsSold]) => {
+        entries = buildEntries(products, unitsSold);
+        builtAt = buildGeneration === generation ? Date.now() : 0;
+        return entries;
+      })
+      .finally(() => {
+        pendingBuild = null;
+      });
+  }
+
+  return pendingBuild;
+};
+
+// Call after products are created, edited or deleted
+const invalidateSuggestions = () => {
+  generation += 1;
+  builtAt = 0;
+};
+
+// Product names, scents and categories with a word starting with `prefix`,
+// most popular first. Entries that start with the prefix outrank mid-phrase matches.
+const getSuggestions = async (prefix, limit) => {
+  const query = normalizePhrase(prefix);
+  if (!query) return [];
+
+  const matches = (await getEntries())
+    .map((entry) => {
+      if (entry.searchText.startsWith(query)) return { entry, leading: true };
+      if (` ${entry.searchText}`.includes(` ${query}`)) return { entry, leading: false };
+      return null;
+    })
+    .filter(Boolean);
+
+  return matches
+    .sort(
+      (a, b) =>
+        Number(b.leading) - Number(a.leading) ||
+        b.entry.popularity - a.entry.popularity ||
+        a.entry.value.localeCompare(b.entry.value)
+    )
+    .slice(0, limit)
+    .map(({ entry }) => ({
+      type: entry.type,
+      value: entry.value,
+      ...(entry.productId && { productId: entry.productId }),
+      ...(entry.count !== undefined && { count: entry.count }),
+    }));
+};
+
+module.exports = {
+  getSuggestions,
+  invalidateSuggestions,
+};
@@ -0,0 +1,150 @@
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import toast from 'react-hot-toast';
+import { PlusIcon } from '@heroicons/react/24/outline';
+import { useCart } from '../context/CartContext';
+import { Product, ProductVariant } from '../types';
+import { formatPrice } from '../utils/api';
+import { describeVariant, getDefaultVariant } from '../utils/cart';
+
+interface BundleLine {
+  product: Product;
+  variant?: ProductVariant;
+}
+
+interface BoughtTogetherProps {
+  // Recommended products; each goes in with its default variant
+  products: Product[];
+  // The product being viewed, bundled first when it can be bought
+  anchor?: BundleLine;
+  title?: string;
+}
+
+const linePrice = ({ product, variant }: BundleLine) => variant?.price ?? product.price;
+
+const lineStock = ({ product, variant }: BundleLine) => variant?.stock ?? product.stock;
+
+const lineKey = ({ product, variant }: BundleLine) => `${product._id}:${variant?._id ?? ''}`;
+
+// "Frequently bought together": tick what to include and add it all in one go
+const BoughtTogether: React.FC<BoughtTogetherProps> = ({
+  products,
+  anchor,
+  title = 'Frequently Bought Together',
+}) => {
+  const { addItems } = useCart();
+  const lines: BundleLine[] = [
+    ...(anchor && lineStock(anchor) > 0 ? [anchor] : []),
+    ...products
+      .map((product) => ({ product, variant: getDefaultVariant(product) }))
+      .filter((line) => lineStock(line) > 0),
+  ];
+  const keys = lines.map(lineKey).join('|');
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+
+  // Start with everything ticked whenever the bundle changes
+  useEffect(() => {
+    setExcluded(new Set());
+  }, [keys]);
+
+  // On a product page, the product alone isn't a bundle
+  if (lines.length < (anchor ? 2 : 1) || products.length === 0) return null;
+
+  const selected = lines.filter((line) => !excluded.has(lineKey(line)));
+  const total = selected.reduce((sum, line) => sum + linePrice(line), 0);
+
+  const toggle = (key: string) =>
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+
+  const handleAdd = () => {
+    addItems(
+      selected.map(({ product, variant }) => ({ product, variant: variant?._id, quantity: 1 }))
+    );
+    toast.success(
+      selected.length === 1
+        ? `Added ${selected[0].product.name} to your cart`
+        : `Added ${selected.length} items to your cart`
+    );
+  };
+
+  return (
+    <section>
+      <h2 className="text-2xl font-serif font-bold mb-6">{title}</h2>
+
+      <div className="flex flex-col lg:flex-row lg:items-center gap-8">
+        <div className="flex items-center flex-wrap gap-2">
+          {lines.map((line, index) => (
+            <div key={lineKey(line)} className="flex items-center">
+              {index > 0 && <PlusIcon className="h-5 w-5 mx-2 text-gray-400" />}
+              <Link href={`/products/${line.product._id}`}>
+                <img
+                  src={line.variant?.images?.[0] || line.product.images[0]}
+                  alt={line.product.name}
+                  className={`w-24 h-24 object-cover rounded-md ${
+                    excluded.has(lineKey(line)) ? 'opacity-40' : ''
+                  }`}
+                />
+              </Link>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex-1">
+          <ul className="space-y-2 mb-4">
+            {lines.map((line) => {
+              const key = lineKey(line);
+              const label = describeVariant(line.product, line.variant);
+              return (
+                <li key={key}>
+                  <label className="flex items-center space-x-2 text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={!excluded.has(key)}
+                      onChange={() => toggle(key)}
+                      className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    <span>
+                      {line === anchor && <span className="font-semibold">This item: </span>}
+                      {line.product.name}
+                      {label && (
+                        <span className="text-gray-600 dark:text-gray-400"> ({label})</span>
+                      )}
+                    </span>
+                    <span className="ml-auto font-medium">{formatPrice(linePrice(line))}</span>
+                  </label>
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className="flex items-center justify-between">
+            <p>
+              Total: <span className="font-semibold">{formatPrice(total)}</span>
+            </p>
+            <button
+              onClick={handleAdd}
+              disabled={selected.length === 0}
+              className="btn btn-primary disabled:opacity-50"
+            >
+              {lines.length === 1
+                ? 'Add to cart'
+                : selected.length === lines.length
+                ? `Add all ${selected.length} to cart`
+                : `Add ${selected.length} selected to cart`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default BoughtTogether;
@@ -0,0 +1,60 @@
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { MAX_COMPARE_ITEMS, useCompare } from '../context/CompareContext';
+import { useProductsByIds } from '../hooks/useProducts';
+
+// Bar pinned to the bottom of the screen while products are picked for comparison
+const CompareTray = () => {
+  const router = useRouter();
+  const { productIds, removeFromCompare, clearCompare } = useCompare();
+  const { products } = useProductsByIds(productIds);
+
+  // The compare page manages the selection itself
+  if (productIds.length === 0 || router.pathname === '/compare') return null;
+
+  return (
+    <div className="fixed inset-x-0 bottom-0 z-40 border-t border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-lg">
+      <div className="container-custom py-3 flex items-center gap-4">
+        <div className="flex items-center gap-3 flex-1 overflow-x-auto">
+          {products.map((product) => (
+            <div key={product._id} className="relative shrink-0">
+              <img
+                src={product.images[0]}
+                alt={product.name}
+                title={product.name}
+                className="w-14 h-14 object-cover rounded-md"
+              />
+              <button
+                onClick={() => removeFromCompare(product._id)}
+                aria-label={`Remove ${product.name} from comparison`}
+                className="absolute -top-2 -right-2 p-0.5 rounded-full bg-gray-700 text-white hover:bg-gray-900"
+              >
+                <XMarkIcon className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+          {Array.from({ length: MAX_COMPARE_ITEMS - productIds.length }, (_, index) => (
+            <div
+              key={index}
+              className="hidden sm:block shrink-0 w-14 h-14 rounded-md border-2 border-dashed border-gray-300 dark:border-gray-600"
+            />
+          ))}
+        </div>
+
+        <button onClick={clearCompare} className="text-sm text-primary-600 hover:underline">
+          Clear
+        </button>
+        <Link
+          href={{ pathname: '/compare', query: { ids: productIds.join(',') } }}
+          className={`btn btn-primary ${productIds.length < 2 ? 'pointer-events-none opacity-50' : ''}`}
+          aria-disabled={productIds.length < 2}
+        >
+          Compare ({productIds.length})
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default CompareTray;
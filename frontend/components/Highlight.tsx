@@ -0,0 +1,25 @@
+import { HighlightSegment } from '../types';
+
+interface HighlightProps {
+  segments: HighlightSegment[];
+}
+
+// Renders search highlights from the API without injecting HTML
+const Highlight: React.FC<HighlightProps> = ({ segments }) => (
+  <>
+    {segments.map((segment, index) =>
+      segment.match ? (
+        <mark
+          key={index}
+          className="bg-yellow-200 dark:bg-yellow-700 text-inherit rounded-sm px-0.5"
+        >
+          {segment.text}
+        </mark>
+      ) : (
+        <span key={index}>{segment.text}</span>
+      )
+    )}
+  </>
+);
+
+export default Highlight;
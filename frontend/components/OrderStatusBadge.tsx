@@ -0,0 +1,23 @@
+import { OrderStatus } from '../types';
+
+interface OrderStatusBadgeProps {
+  status: OrderStatus;
+}
+
+const statusStyles: Record<OrderStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  processing: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  shipped: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
+  delivered: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  cancelled: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+};
+
+const OrderStatusBadge: React.FC<OrderStatusBadgeProps> = ({ status }) => (
+  <span
+    className={`text-sm font-semibold px-3 py-1 rounded-full capitalize ${statusStyles[status]}`}
+  >
+    {status}
+  </span>
+);
+
+export default OrderStatusBadge;
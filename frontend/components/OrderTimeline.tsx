@@ -0,0 +1,80 @@
+import { Order, OrderStatus, StatusEvent } from '../types';
+
+interface OrderTimelineProps {
+  order: Order;
+}
+
+const statusLabels: Record<OrderStatus, string> = {
+  pending: 'Pending',
+  processing: 'Being prepared',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+};
+
+const actorLabels: Record<StatusEvent['actor'], string> = {
+  customer: 'You',
+  admin: 'Moh-Scent team',
+  system: 'Automatic',
+};
+
+// The fulfilment steps still ahead of an active order
+const fulfilmentSteps: OrderStatus[] = ['processing', 'shipped', 'delivered'];
+
+const describeEvent = (entry: StatusEvent) => {
+  switch (entry.event) {
+    case 'placed':
+      return 'Order placed';
+    case 'paid':
+      return 'Payment received';
+    case 'delivered':
+      return 'Delivered';
+    case 'cancelled':
+      return 'Order cancelled';
+    case 'expired':
+      return 'Order expired';
+    default:
+      return statusLabels[entry.status];
+  }
+};
+
+const OrderTimeline: React.FC<OrderTimelineProps> = ({ order }) => {
+  const history = order.statusHistory || [];
+  const upcoming =
+    order.status === 'cancelled'
+      ? []
+      : fulfilmentSteps.slice(
+          fulfilmentSteps.indexOf(order.status as OrderStatus) + 1
+        );
+
+  return (
+    <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-2">
+      {history.map((entry, index) => (
+        <li key={entry._id} className="mb-6 ml-6">
+          <span
+            className={`absolute -left-2 mt-1 h-4 w-4 rounded-full border-2 border-white dark:border-gray-900 ${
+              entry.event === 'cancelled' || entry.event === 'expired'
+                ? 'bg-red-500'
+                : index === history.length - 1
+                  ? 'bg-primary-600'
+                  : 'bg-green-500'
+            }`}
+          />
+          <p className="font-semibold">{describeEvent(entry)}</p>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {new Date(entry.createdAt).toLocaleString()} &middot; {actorLabels[entry.actor]}
+          </p>
+          {entry.note && <p className="text-sm mt-1">{entry.note}</p>}
+        </li>
+      ))}
+      {upcoming.map((status) => (
+        <li key={status} className="mb-6 ml-6">
+          <span className="absolute -left-2 mt-1 h-4 w-4 rounded-full border-2 border-white dark:border-gray-900 bg-gray-300 dark:bg-gray-600" />
+          <p className="text-gray-500 dark:text-gray-400">{statusLabels[status]}</p>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default OrderTimeline;
@@ -0,0 +1,59 @@
+import { PriceBreakdown } from '../types';
+import { formatPrice } from '../utils/api';
+
+interface PriceSummaryProps {
+  breakdown: PriceBreakdown;
+  discountCode?: string;
+  shippingLabel?: string;
+  estimated?: boolean;
+}
+
+const formatRate = (rate: number) => `${Number((rate * 100).toFixed(2))}%`;
+
+const PriceSummary: React.FC<PriceSummaryProps> = ({
+  breakdown,
+  discountCode,
+  shippingLabel,
+  estimated = false,
+}) => {
+  const taxLabel = [
+    breakdown.taxInclusive ? 'Includes tax' : 'Tax',
+    breakdown.taxRate ? `(${formatRate(breakdown.taxRate)})` : '',
+    estimated ? '- estimated' : '',
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between">
+        <span>Subtotal</span>
+        <span>{formatPrice(breakdown.itemsPrice)}</span>
+      </div>
+      {breakdown.discountPrice > 0 && (
+        <div className="flex justify-between text-green-600 dark:text-green-400">
+          <span>Discount{discountCode && ` (${discountCode})`}</span>
+          <span>-{formatPrice(breakdown.discountPrice)}</span>
+        </div>
+      )}
+      <div className="flex justify-between">
+        <span>Shipping{shippingLabel && ` (${shippingLabel})`}</span>
+        <span>
+          {breakdown.shippingPrice === 0 ? 'Free' : formatPrice(breakdown.shippingPrice)}
+        </span>
+      </div>
+      <div className="flex justify-between">
+        <span>{taxLabel}</span>
+        <span>{formatPrice(breakdown.taxPrice)}</span>
+      </div>
+      <div className="border-t border-gray-200 dark:border-gray-700 pt-2 mt-2">
+        <div className="flex justify-between font-semibold">
+          <span>Total</span>
+          <span>{formatPrice(breakdown.totalPrice)}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PriceSummary;
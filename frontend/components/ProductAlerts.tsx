@@ -0,0 +1,63 @@
+import { Product, ProductVariant } from '../types';
+import { useAuth } from '../hooks/useAuth';
+import { useProductAlerts } from '../hooks/useAlerts';
+
+interface ProductAlertsProps {
+  product: Product;
+  // The chosen variant; its stock is watched rather than the product's
+  variant?: ProductVariant;
+}
+
+// Back-in-stock and price-drop email alerts for the product page
+const ProductAlerts: React.FC<ProductAlertsProps> = ({ product, variant }) => {
+  const { user } = useAuth();
+  const { findAlert, saving, subscribe, unsubscribe } = useProductAlerts(product._id, !!user);
+  const stockAlert = findAlert('back_in_stock', variant?._id);
+  const priceAlert = findAlert('price_drop');
+  const outOfStock = (variant ? variant.stock : product.stock) === 0;
+
+  if (!user) {
+    return (
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        Sign in to get an email when this {outOfStock ? 'is back in stock' : 'drops in price'}.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap gap-3">
+      {outOfStock &&
+        (stockAlert ? (
+          <button
+            onClick={() => unsubscribe(stockAlert)}
+            disabled={saving}
+            className="btn btn-secondary disabled:opacity-50"
+          >
+            We&apos;ll email you when it&apos;s back · Cancel
+          </button>
+        ) : (
+          <button
+            onClick={() => subscribe(product._id, 'back_in_stock', variant?._id)}
+            disabled={saving}
+            className="btn btn-primary disabled:opacity-50"
+          >
+            Email me when it&apos;s back
+          </button>
+        ))}
+      <label className="flex items-center space-x-2 text-sm cursor-pointer">
+        <input
+          type="checkbox"
+          checked={!!priceAlert}
+          disabled={saving}
+          onChange={() =>
+            priceAlert ? unsubscribe(priceAlert) : subscribe(product._id, 'price_drop')
+          }
+          className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+        />
+        <span>Tell me if the price drops</span>
+      </label>
+    </div>
+  );
+};
+
+export default ProductAlerts;
@@ -1,18 +1,50 @@
 import { Product } from '../types';
 import Link from 'next/link';
+import toast from 'react-hot-toast';
+import Highlight from './Highlight';
+import { MAX_COMPARE_ITEMS, useCompare } from '../context/CompareContext';
 
 interface ProductCardProps {
   product: Product;
 }
 
 const ProductCard: React.FC<ProductCardProps> = ({ product }) => {
+  // Products sold in variants list their lowest price
+  const hasPriceRange = new Set(product.variants?.map((variant) => variant.price)).size > 1;
+  const { isComparing, toggleCompare } = useCompare();
+  const comparing = isComparing(product._id);
+
+  const handleCompare = () => {
+    if (!toggleCompare(product._id)) {
+      toast.error(`You can compare up to ${MAX_COMPARE_ITEMS} products at a time`);
+    }
+  };
+
   return (
     <div className="card card-hover p-4">
       <Link href={`/products/${product._id}`}>
         <img src={product.images[0]} alt={product.name} className="w-full h-48 object-cover rounded-md" />
-        <h3 className="mt-2 text-lg font-semibold">{product.name}</h3>
-        <p className="text-gray-600 dark:text-gray-400">${product.price.toFixed(2)}</p>
+        <h3 className="mt-2 text-lg font-semibold">
+          {product.highlights ? <Highlight segments={product.highlights.name} /> : product.name}
+        </h3>
+        {product.highlights && product.highlights.snippet.some((segment) => segment.match) && (
+          <p className="mt-1 text-sm text-gray-600 dark:text-gray-400 line-clamp-3">
+            <Highlight segments={product.highlights.snippet} />
+          </p>
+        )}
+        <p className="text-gray-600 dark:text-gray-400">
+          {hasPriceRange && 'From '}${product.price.toFixed(2)}
+        </p>
       </Link>
+      <label className="mt-2 flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={comparing}
+          onChange={handleCompare}
+          className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+        />
+        <span>Compare</span>
+      </label>
     </div>
   );
 };
@@ -0,0 +1,269 @@
+import { useState, useEffect } from 'react';
+import { FacetCount, ProductFacets } from '../types';
+import { RatingStars } from './ProductReviews';
+
+export interface SelectedFilters {
+  category: string[];
+  scent: string[];
+  family: string[];
+  note: string[];
+  price: string[];
+  minPrice?: number;
+  maxPrice?: number;
+  rating?: number;
+  inStock: boolean;
+}
+
+// Query params to set; undefined removes the param
+export type FilterChanges = Record<string, string | undefined>;
+
+interface ProductFiltersProps {
+  facets: ProductFacets;
+  selected: SelectedFilters;
+  onChange: (changes: FilterChanges) => void;
+  onClear: () => void;
+}
+
+const toggle = (list: string[], value: string) =>
+  list.includes(value) ? list.filter((entry) => entry !== value) : [...list, value];
+
+const joinList = (list: string[]) => (list.length > 0 ? list.join(',') : undefined);
+
+const withSelected = (facet: FacetCount[], selected: string[]) => [
+  ...facet,
+  ...selected
+    .filter((value) => !facet.some((entry) => entry.value === value))
+    .map((value) => ({ value, count: 0 })),
+];
+
+const FacetSection: React.FC<{ title: string; children: React.ReactNode }> = ({
+  title,
+  children,
+}) => (
+  <fieldset className="py-4 border-b border-gray-200 dark:border-gray-700">
+    <legend className="font-semibold mb-2">{title}</legend>
+    {children}
+  </fieldset>
+);
+
+const FacetOption: React.FC<{
+  type: 'checkbox' | 'radio';
+  name: string;
+  checked: boolean;
+  count: number;
+  onChange: () => void;
+  children: React.ReactNode;
+}> = ({ type, name, checked, count, onChange, children }) => (
+  <label
+    className={`flex items-center justify-between py-1 text-sm cursor-pointer ${
+      count === 0 && !checked ? 'opacity-50' : ''
+    }`}
+  >
+    <span className="flex items-center space-x-2">
+      <input
+        type={type}
+        name={name}
+        checked={checked}
+        onChange={onChange}
+        disabled={count === 0 && !checked}
+        className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+      />
+      <span>{children}</span>
+    </span>
+    <span className="text-gray-500 dark:text-gray-400">{count}</span>
+  </label>
+);
+
+const ProductFilters: React.FC<ProductFiltersProps> = ({
+  facets,
+  selected,
+  onChange,
+  onClear,
+}) => {
+  const [minPrice, setMinPrice] = useState(selected.minPrice?.toString() ?? '');
+  const [maxPrice, setMaxPrice] = useState(selected.maxPrice?.toString() ?? '');
+
+  useEffect(() => {
+    setMinPrice(selected.minPrice?.toString() ?? '');
+    setMaxPrice(selected.maxPrice?.toString() ?? '');
+  }, [selected.minPrice, selected.maxPrice]);
+
+  // Picked values stay visible even when the other filters leave them no products
+  const scents = withSelected(facets.scent, selected.scent);
+  const notes = withSelected(facets.note, selected.note);
+
+  const hasFilters =
+    selected.category.length > 0 ||
+    selected.scent.length > 0 ||
+    selected.family.length > 0 ||
+    selected.note.length > 0 ||
+    selected.price.length > 0 ||
+    selected.minPrice !== undefined ||
+    selected.maxPrice !== undefined ||
+    selected.rating !== undefined ||
+    selected.inStock;
+
+  const handlePriceRange = (e: React.FormEvent) => {
+    e.preventDefault();
+    onChange({ minPrice: minPrice || undefined, maxPrice: maxPrice || undefined });
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Filters</h2>
+        {hasFilters && (
+          <button onClick={onClear} className="text-sm text-primary-600 hover:underline">
+            Clear all
+          </button>
+        )}
+      </div>
+
+      <FacetSection title="Category">
+        {facets.category.map(({ value, count }) => {
+          const key = value.toLowerCase();
+          return (
+            <FacetOption
+              key={value}
+              type="checkbox"
+              name="category"
+              checked={selected.category.includes(key)}
+              count={count}
+              onChange={() => onChange({ category: joinList(toggle(selected.category, key)) })}
+            >
+              {value}
+            </FacetOption>
+          );
+        })}
+      </FacetSection>
+
+      {scents.length > 0 && (
+        <FacetSection title="Scent">
+          {scents.map(({ value, count }) => (
+            <FacetOption
+              key={value}
+              type="checkbox"
+              name="scent"
+              checked={selected.scent.includes(value)}
+              count={count}
+              onChange={() => onChange({ scent: joinList(toggle(selected.scent, value)) })}
+            >
+              {value}
+            </FacetOption>
+          ))}
+        </FacetSection>
+      )}
+
+      <FacetSection title="Scent family">
+        {facets.family.map(({ value, count }) => (
+          <FacetOption
+            key={value}
+            type="checkbox"
+            name="family"
+            checked={selected.family.includes(value)}
+            count={count}
+            onChange={() => onChange({ family: joinList(toggle(selected.family, value)) })}
+          >
+            <span className="capitalize">{value}</span>
+          </FacetOption>
+        ))}
+      </FacetSection>
+
+      {notes.length > 0 && (
+        <FacetSection title="Notes">
+          {notes.map(({ value, count }) => (
+            <FacetOption
+              key={value}
+              type="checkbox"
+              name="note"
+              checked={selected.note.includes(value)}
+              count={count}
+              onChange={() => onChange({ note: joinList(toggle(selected.note, value)) })}
+            >
+              <span className="capitalize">{value}</span>
+            </FacetOption>
+          ))}
+        </FacetSection>
+      )}
+
+      <FacetSection title="Price">
+        {facets.price.map(({ value, label, count }) => (
+          <FacetOption
+            key={value}
+            type="checkbox"
+            name="price"
+            checked={selected.price.includes(value)}
+            count={count}
+            onChange={() => onChange({ price: joinList(toggle(selected.price, value)) })}
+          >
+            {label}
+          </FacetOption>
+        ))}
+        <form onSubmit={handlePriceRange} className="flex items-center space-x-2 mt-2">
+          <input
+            type="number"
+            min={0}
+            value={minPrice}
+            onChange={(e) => setMinPrice(e.target.value)}
+            className="w-20 px-2 py-1 rounded-md border border-gray-300 text-sm"
+            placeholder="Min"
+            aria-label="Minimum price"
+          />
+          <span>to</span>
+          <input
+            type="number"
+            min={0}
+            value={maxPrice}
+            onChange={(e) => setMaxPrice(e.target.value)}
+            className="w-20 px-2 py-1 rounded-md border border-gray-300 text-sm"
+            placeholder="Max"
+            aria-label="Maximum price"
+          />
+          <button type="submit" className="btn btn-secondary px-3 py-1 text-sm">
+            Go
+          </button>
+        </form>
+      </FacetSection>
+
+      <FacetSection title="Customer rating">
+        {facets.rating.map(({ value, count }) => (
+          <FacetOption
+            key={value}
+            type="radio"
+            name="rating"
+            checked={selected.rating === value}
+            count={count}
+            onChange={() => onChange({ rating: String(value) })}
+          >
+            <span className="flex items-center space-x-1">
+              <RatingStars rating={value} className="h-4 w-4" />
+              <span>&amp; up</span>
+            </span>
+          </FacetOption>
+        ))}
+        {selected.rating !== undefined && (
+          <button
+            onClick={() => onChange({ rating: undefined })}
+            className="mt-1 text-sm text-primary-600 hover:underline"
+          >
+            Any rating
+          </button>
+        )}
+      </FacetSection>
+
+      <FacetSection title="Availability">
+        <FacetOption
+          type="checkbox"
+          name="inStock"
+          checked={selected.inStock}
+          count={facets.inStock.count}
+          onChange={() => onChange({ inStock: selected.inStock ? undefined : 'true' })}
+        >
+          In stock only
+        </FacetOption>
+      </FacetSection>
+    </div>
+  );
+};
+
+export default ProductFilters;
@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { ChevronLeftIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+
+interface ProductGalleryProps {
+  images: string[];
+  name: string;
+}
+
+const ZOOM_SCALE = 2;
+
+const ProductGallery: React.FC<ProductGalleryProps> = ({ images, name }) => {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [zoomed, setZoomed] = useState(false);
+  const [origin, setOrigin] = useState('50% 50%');
+
+  const activeImage = images[activeIndex] || images[0];
+
+  const showImage = (index: number) => {
+    setActiveIndex((index + images.length) % images.length);
+    setZoomed(false);
+  };
+
+  // Zoom follows the pointer so any part of the candle can be inspected
+  const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - bounds.left) / bounds.width) * 100;
+    const y = ((e.clientY - bounds.top) / bounds.height) * 100;
+    setOrigin(`${x}% ${y}%`);
+  };
+
+  if (!activeImage) {
+    return <div className="aspect-square rounded-lg bg-gray-100 dark:bg-gray-800" />;
+  }
+
+  return (
+    <div>
+      <div
+        className={`relative aspect-square overflow-hidden rounded-lg bg-gray-100 dark:bg-gray-800 ${
+          zoomed ? 'cursor-zoom-out' : 'cursor-zoom-in'
+        }`}
+        onClick={() => setZoomed((value) => !value)}
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setZoomed(false)}
+      >
+        <img
+          src={activeImage}
+          alt={`${name} - image ${activeIndex + 1} of ${images.length}`}
+          className="w-full h-full object-cover transition-transform duration-200"
+          style={{
+            transform: zoomed ? `scale(${ZOOM_SCALE})` : 'scale(1)',
+            transformOrigin: origin,
+          }}
+        />
+
+        {images.length > 1 && (
+          <>
+            <button
+              type="button"
+              aria-label="Previous image"
+              onClick={(e) => {
+                e.stopPropagation();
+                showImage(activeIndex - 1);
+              }}
+              className="absolute left-2 top-1/2 -translate-y-1/2 p-2 rounded-full bg-white/80 dark:bg-gray-900/80 hover:bg-white dark:hover:bg-gray-900"
+            >
+              <ChevronLeftIcon className="h-5 w-5" />
+            </button>
+            <button
+              type="button"
+              aria-label="Next image"
+              onClick={(e) => {
+                e.stopPropagation();
+                showImage(activeIndex + 1);
+              }}
+              className="absolute right-2 top-1/2 -translate-y-1/2 p-2 rounded-full bg-white/80 dark:bg-gray-900/80 hover:bg-white dark:hover:bg-gray-900"
+            >
+              <ChevronRightIcon className="h-5 w-5" />
+            </button>
+          </>
+        )}
+      </div>
+
+      {images.length > 1 && (
+        <div className="mt-4 grid grid-cols-5 gap-2">
+          {images.map((image, index) => (
+            <button
+              key={image}
+              type="button"
+              aria-label={`Show image ${index + 1}`}
+              aria-current={index === activeIndex}
+              onClick={() => showImage(index)}
+              className={`aspect-square overflow-hidden rounded-md border-2 ${
+                index === activeIndex
+                  ? 'border-primary-600'
+                  : 'border-transparent hover:border-gray-300 dark:hover:border-gray-600'
+              }`}
+            >
+              <img src={image} alt="" className="w-full h-full object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProductGallery;
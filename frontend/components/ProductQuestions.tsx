@@ -0,0 +1,317 @@
+import { useState } from 'react';
+import Link from 'next/link';
+import { CheckCircleIcon, MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import { Answer, Question } from '../types';
+import { useAuth } from '../hooks/useAuth';
+import {
+  useProductQuestions,
+  useQuestionActions,
+  useQuestionActivity,
+} from '../hooks/useQuestions';
+
+interface ProductQuestionsProps {
+  productId: string;
+}
+
+interface AnswerItemProps {
+  answer: Answer;
+  upvoted: boolean;
+  // Left out for guests and on the customer's own answers
+  onUpvote?: () => void;
+  onDelete?: () => void;
+}
+
+const AnswerItem: React.FC<AnswerItemProps> = ({ answer, upvoted, onUpvote, onDelete }) => (
+  <li className="pl-4 border-l-2 border-gray-200 dark:border-gray-700">
+    <p className="text-gray-700 dark:text-gray-300 whitespace-pre-line">{answer.body}</p>
+    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1 text-sm text-gray-600 dark:text-gray-400">
+      <span>
+        {answer.name} · {new Date(answer.createdAt).toLocaleDateString()}
+      </span>
+      {answer.isStaff ? (
+        <span className="text-primary-600">Moh-Scent team</span>
+      ) : (
+        answer.verifiedBuyer && (
+          <span className="flex items-center text-green-600">
+            <CheckCircleIcon className="h-4 w-4 mr-1" />
+            Verified buyer
+          </span>
+        )
+      )}
+      <button
+        onClick={onUpvote}
+        disabled={!onUpvote}
+        aria-pressed={upvoted}
+        className={`px-2 py-0.5 rounded border ${
+          upvoted ? 'border-primary-600 text-primary-600' : 'border-gray-300 dark:border-gray-600'
+        } ${onUpvote ? 'hover:border-primary-600' : 'cursor-default'}`}
+      >
+        Helpful ({answer.upvoteCount})
+      </button>
+      {onDelete && (
+        <button onClick={onDelete} className="text-red-600 hover:underline">
+          Delete
+        </button>
+      )}
+    </div>
+  </li>
+);
+
+const ProductQuestions: React.FC<ProductQuestionsProps> = ({ productId }) => {
+  const { user, isAdmin } = useAuth();
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [page, setPage] = useState(1);
+  const [asking, setAsking] = useState(false);
+  const [newQuestion, setNewQuestion] = useState('');
+  const [answeringId, setAnsweringId] = useState<string | null>(null);
+  const [newAnswer, setNewAnswer] = useState('');
+  const { questions, pages, total, mutate } = useProductQuestions(productId, {
+    q: query || undefined,
+    page,
+  });
+  const { canAnswer, upvotedAnswers, mutate: mutateActivity } = useQuestionActivity(
+    productId,
+    !!user
+  );
+  const actions = useQuestionActions();
+
+  const ownsOrAdmin = (author: string) => isAdmin || author === user?._id;
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setQuery(search.trim());
+    setPage(1);
+  };
+
+  const handleAsk = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await actions.askQuestion(productId, newQuestion.trim())) {
+      setNewQuestion('');
+      setAsking(false);
+      mutate();
+    }
+  };
+
+  const handleAnswer = async (e: React.FormEvent, question: Question) => {
+    e.preventDefault();
+    if (await actions.answerQuestion(question._id, newAnswer.trim())) {
+      setNewAnswer('');
+      setAnsweringId(null);
+      mutate();
+    }
+  };
+
+  const handleDeleteQuestion = async (question: Question) => {
+    if (!window.confirm('Delete this question and its answers?')) return;
+    if (await actions.deleteQuestion(question._id)) mutate();
+  };
+
+  const handleDeleteAnswer = async (question: Question, answer: Answer) => {
+    if (!window.confirm('Delete this answer?')) return;
+    if (await actions.deleteAnswer(question._id, answer._id)) mutate();
+  };
+
+  const handleUpvote = async (question: Question, answer: Answer) => {
+    if (await actions.setUpvote(question._id, answer._id, !upvotedAnswers.includes(answer._id))) {
+      mutate();
+      mutateActivity();
+    }
+  };
+
+  return (
+    <section>
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h2 className="text-2xl font-serif font-bold">Questions &amp; Answers</h2>
+        {user ? (
+          !asking && (
+            <button onClick={() => setAsking(true)} className="btn btn-secondary">
+              Ask a question
+            </button>
+          )
+        ) : (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Sign in to ask a question.
+          </p>
+        )}
+      </div>
+
+      {asking && (
+        <form onSubmit={handleAsk} className="card p-6 mb-6 space-y-3">
+          <label htmlFor="new-question" className="block font-semibold">
+            Your question
+          </label>
+          <textarea
+            id="new-question"
+            value={newQuestion}
+            onChange={(e) => setNewQuestion(e.target.value)}
+            rows={3}
+            maxLength={500}
+            required
+            className="input w-full"
+            placeholder="e.g. What is the wick made of?"
+          />
+          <div className="flex space-x-3">
+            <button
+              type="submit"
+              disabled={actions.saving || !newQuestion.trim()}
+              className="btn btn-primary disabled:opacity-50"
+            >
+              Post question
+            </button>
+            <button type="button" onClick={() => setAsking(false)} className="btn btn-secondary">
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      <form onSubmit={handleSearch} className="relative mb-6">
+        <label htmlFor="question-search" className="sr-only">
+          Search questions and answers
+        </label>
+        <input
+          id="question-search"
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search questions and answers"
+          className="input w-full pl-10"
+        />
+        <MagnifyingGlassIcon className="h-5 w-5 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+      </form>
+
+      {questions.length === 0 ? (
+        <p className="text-gray-600 dark:text-gray-400">
+          {query
+            ? `No questions mention "${query}".`
+            : 'No questions yet. Ask about wicks, burn safety or anything else.'}
+        </p>
+      ) : (
+        <>
+          {query && (
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              {total} {total === 1 ? 'question matches' : 'questions match'} &ldquo;{query}&rdquo;
+            </p>
+          )}
+          <ul className="space-y-6">
+            {questions.map((question) => (
+              <li
+                key={question._id}
+                className="border-b border-gray-200 dark:border-gray-700 pb-6"
+              >
+                <p className="font-semibold">
+                  <Link href={`/questions/${question._id}`} className="hover:text-primary-600">
+                    Q: {question.body}
+                  </Link>
+                </p>
+                <div className="flex items-center gap-3 text-sm text-gray-600 dark:text-gray-400 mt-1 mb-3">
+                  <span>
+                    Asked by {question.name} on {new Date(question.createdAt).toLocaleDateString()}
+                  </span>
+                  {ownsOrAdmin(question.user) && (
+                    <button
+                      onClick={() => handleDeleteQuestion(question)}
+                      className="text-red-600 hover:underline"
+                    >
+                      Delete
+                    </button>
+                  )}
+                </div>
+
+                {question.answers.length > 0 ? (
+                  <ul className="space-y-4">
+                    {question.answers.map((answer) => (
+                      <AnswerItem
+                        key={answer._id}
+                        answer={answer}
+                        upvoted={upvotedAnswers.includes(answer._id)}
+                        onUpvote={
+                          user && answer.user !== user._id
+                            ? () => handleUpvote(question, answer)
+                            : undefined
+                        }
+                        onDelete={
+                          ownsOrAdmin(answer.user)
+                            ? () => handleDeleteAnswer(question, answer)
+                            : undefined
+                        }
+                      />
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-gray-600 dark:text-gray-400">No answers yet.</p>
+                )}
+
+                {canAnswer &&
+                  (answeringId === question._id ? (
+                    <form onSubmit={(e) => handleAnswer(e, question)} className="mt-4 space-y-3">
+                      <textarea
+                        value={newAnswer}
+                        onChange={(e) => setNewAnswer(e.target.value)}
+                        rows={3}
+                        maxLength={1000}
+                        required
+                        aria-label="Your answer"
+                        className="input w-full"
+                      />
+                      <div className="flex space-x-3">
+                        <button
+                          type="submit"
+                          disabled={actions.saving || !newAnswer.trim()}
+                          className="btn btn-primary disabled:opacity-50"
+                        >
+                          Post answer
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setAnsweringId(null)}
+                          className="btn btn-secondary"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </form>
+                  ) : (
+                    <button
+                      onClick={() => {
+                        setAnsweringId(question._id);
+                        setNewAnswer('');
+                      }}
+                      className="mt-3 text-sm text-primary-600 hover:underline"
+                    >
+                      Answer this question
+                    </button>
+                  ))}
+              </li>
+            ))}
+          </ul>
+
+          {pages > 1 && (
+            <div className="flex items-center justify-between mt-6">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page === 1}
+                className="btn btn-secondary disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <span className="text-sm text-gray-600 dark:text-gray-400">
+                Page {page} of {pages}
+              </span>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page === pages}
+                className="btn btn-secondary disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default ProductQuestions;
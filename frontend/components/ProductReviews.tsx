@@ -0,0 +1,327 @@
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { CheckCircleIcon, StarIcon } from '@heroicons/react/24/outline';
+import ReviewForm from './ReviewForm';
+import { Review, ReviewSort } from '../types';
+import { useAuth } from '../hooks/useAuth';
+import {
+  useMyReview,
+  useProductReviews,
+  useReviewEditor,
+  useReviewVotes,
+} from '../hooks/useReviews';
+import * as api from '../utils/api';
+
+interface ProductReviewsProps {
+  productId: string;
+  rating: number;
+  numReviews: number;
+}
+
+const SORT_OPTIONS: { value: ReviewSort; label: string }[] = [
+  { value: 'helpful', label: 'Most helpful' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'highest', label: 'Highest rated' },
+  { value: 'lowest', label: 'Lowest rated' },
+];
+
+const STATUS_LABELS: Record<Review['status'], string> = {
+  pending: 'Awaiting approval',
+  approved: 'Published',
+  rejected: 'Not published',
+};
+
+export const RatingStars: React.FC<{ rating: number; className?: string }> = ({
+  rating,
+  className = 'h-5 w-5',
+}) => (
+  <div className="flex" aria-label={`Rated ${rating.toFixed(1)} out of 5`}>
+    {[1, 2, 3, 4, 5].map((star) => (
+      <StarIcon
+        key={star}
+        className={`${className} ${
+          star <= Math.round(rating)
+            ? 'fill-current text-yellow-400'
+            : 'text-gray-300 dark:text-gray-600'
+        }`}
+      />
+    ))}
+  </div>
+);
+
+const ReviewPhotos: React.FC<{ photos: string[] }> = ({ photos }) =>
+  photos.length > 0 ? (
+    <div className="flex flex-wrap gap-2 mt-3">
+      {photos.map((url) => (
+        <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+          <img src={url} alt="Customer photo" className="w-20 h-20 object-cover rounded-md" />
+        </a>
+      ))}
+    </div>
+  ) : null;
+
+interface ReviewItemProps {
+  review: Review;
+  vote?: boolean;
+  // Left out for guests and on the customer's own review
+  onVote?: (helpful: boolean | null) => void;
+}
+
+const ReviewItem: React.FC<ReviewItemProps> = ({ review, vote, onVote }) => (
+  <li className="border-b border-gray-200 dark:border-gray-700 pb-6">
+    <div className="flex items-center justify-between mb-2">
+      <div className="flex items-center space-x-3">
+        <span className="font-semibold">{review.name}</span>
+        {review.verifiedPurchase && (
+          <span className="flex items-center text-xs text-green-600">
+            <CheckCircleIcon className="h-4 w-4 mr-1" />
+            Verified purchase
+          </span>
+        )}
+      </div>
+      <span className="text-sm text-gray-600 dark:text-gray-400">
+        {new Date(review.createdAt).toLocaleDateString()}
+      </span>
+    </div>
+    <RatingStars rating={review.rating} className="h-4 w-4" />
+    <p className="mt-2 text-gray-700 dark:text-gray-300 whitespace-pre-line">{review.comment}</p>
+    <ReviewPhotos photos={review.photos} />
+
+    <div className="flex items-center space-x-4 mt-3 text-sm text-gray-600 dark:text-gray-400">
+      <span>Was this helpful?</span>
+      {[true, false].map((helpful) => (
+        <button
+          key={String(helpful)}
+          onClick={() => onVote?.(vote === helpful ? null : helpful)}
+          disabled={!onVote}
+          aria-pressed={vote === helpful}
+          className={`px-2 py-0.5 rounded border ${
+            vote === helpful
+              ? 'border-primary-600 text-primary-600'
+              : 'border-gray-300 dark:border-gray-600'
+          } ${onVote ? 'hover:border-primary-600' : 'cursor-default'}`}
+        >
+          {helpful ? 'Yes' : 'No'} ({helpful ? review.helpfulCount : review.unhelpfulCount})
+        </button>
+      ))}
+    </div>
+  </li>
+);
+
+const ProductReviews: React.FC<ProductReviewsProps> = ({ productId, rating, numReviews }) => {
+  const { user } = useAuth();
+  const [sort, setSort] = useState<ReviewSort>('helpful');
+  const [ratingFilter, setRatingFilter] = useState<number | undefined>();
+  const [page, setPage] = useState(1);
+  const [editing, setEditing] = useState(false);
+  const { reviews, summary, pages, mutate } = useProductReviews(productId, {
+    sort,
+    rating: ratingFilter,
+    page,
+  });
+  const { review: myReview, mutate: mutateMyReview } = useMyReview(productId, !!user);
+  const { votes, mutate: mutateVotes } = useReviewVotes(productId, !!user);
+  const { deleteReview, saving } = useReviewEditor();
+
+  const total = summary?.numReviews ?? numReviews;
+  const average = summary?.rating ?? rating;
+
+  const filterByRating = (stars?: number) => {
+    setRatingFilter(stars === ratingFilter ? undefined : stars);
+    setPage(1);
+  };
+
+  const handleVote = async (review: Review, helpful: boolean | null) => {
+    try {
+      await api.voteReview(review._id, helpful);
+      mutate();
+      mutateVotes();
+    } catch (error) {
+      toast.error(api.handleApiError(error));
+    }
+  };
+
+  const handleSaved = () => {
+    setEditing(false);
+    mutateMyReview();
+    mutate();
+  };
+
+  const handleDelete = async () => {
+    if (!myReview || !window.confirm('Delete your review?')) return;
+    if (await deleteReview(myReview)) {
+      mutateMyReview();
+      mutate();
+    }
+  };
+
+  return (
+    <section>
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-serif font-bold">Customer Reviews</h2>
+        {user && !myReview && !editing && (
+          <button onClick={() => setEditing(true)} className="btn btn-secondary">
+            Write a review
+          </button>
+        )}
+      </div>
+
+      {editing && (
+        <div className="card p-6 mb-8">
+          <h3 className="font-semibold mb-4">{myReview ? 'Edit your review' : 'Write a review'}</h3>
+          <ReviewForm
+            productId={productId}
+            review={myReview}
+            onSaved={handleSaved}
+            onCancel={() => setEditing(false)}
+          />
+        </div>
+      )}
+
+      {myReview && !editing && (
+        <div className="card p-6 mb-8">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="font-semibold">Your review</h3>
+            <span className="text-sm text-gray-600 dark:text-gray-400">
+              {STATUS_LABELS[myReview.status]}
+            </span>
+          </div>
+          <RatingStars rating={myReview.rating} className="h-4 w-4" />
+          <p className="mt-2 text-gray-700 dark:text-gray-300 whitespace-pre-line">
+            {myReview.comment}
+          </p>
+          <ReviewPhotos photos={myReview.photos} />
+          {myReview.status === 'rejected' && myReview.moderationNote && (
+            <p className="mt-3 text-sm text-red-600">{myReview.moderationNote}</p>
+          )}
+          <div className="flex space-x-4 mt-4 text-sm">
+            <button onClick={() => setEditing(true)} className="text-primary-600 hover:underline">
+              Edit
+            </button>
+            <button
+              onClick={handleDelete}
+              disabled={saving}
+              className="text-red-600 hover:underline disabled:opacity-50"
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+      )}
+
+      {total === 0 ? (
+        <p className="text-gray-600 dark:text-gray-400">
+          No reviews yet. Be the first to share your thoughts.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+          <div>
+            <div className="flex items-center space-x-2 mb-2">
+              <RatingStars rating={average} />
+              <span className="font-semibold">{average.toFixed(1)} out of 5</span>
+            </div>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              {total} {total === 1 ? 'review' : 'reviews'}
+            </p>
+
+            <ul className="space-y-2">
+              {(summary?.distribution || []).map(({ stars, count }) => (
+                <li key={stars}>
+                  <button
+                    onClick={() => filterByRating(stars)}
+                    disabled={count === 0}
+                    aria-pressed={ratingFilter === stars}
+                    className={`w-full flex items-center space-x-2 text-sm rounded ${
+                      ratingFilter === stars ? 'font-semibold text-primary-600' : ''
+                    } disabled:cursor-default`}
+                  >
+                    <span className="w-12 text-left">{stars} star</span>
+                    <div className="flex-1 h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                      <div
+                        className="h-full bg-yellow-400"
+                        style={{ width: `${(count / total) * 100}%` }}
+                      />
+                    </div>
+                    <span className="w-8 text-right text-gray-600 dark:text-gray-400">
+                      {count}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+            {ratingFilter && (
+              <button
+                onClick={() => filterByRating(undefined)}
+                className="mt-3 text-sm text-primary-600 hover:underline"
+              >
+                Show all ratings
+              </button>
+            )}
+          </div>
+
+          <div className="md:col-span-2">
+            <div className="flex justify-end mb-4">
+              <label htmlFor="review-sort" className="sr-only">
+                Sort reviews
+              </label>
+              <select
+                id="review-sort"
+                value={sort}
+                onChange={(e) => {
+                  setSort(e.target.value as ReviewSort);
+                  setPage(1);
+                }}
+                className="input"
+              >
+                {SORT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <ul className="space-y-6">
+              {reviews.map((review) => (
+                <ReviewItem
+                  key={review._id}
+                  review={review}
+                  vote={votes[review._id]}
+                  onVote={
+                    user && review._id !== myReview?._id
+                      ? (helpful) => handleVote(review, helpful)
+                      : undefined
+                  }
+                />
+              ))}
+            </ul>
+
+            {pages > 1 && (
+              <div className="flex items-center justify-between mt-6">
+                <button
+                  onClick={() => setPage(page - 1)}
+                  disabled={page === 1}
+                  className="btn btn-secondary disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <span className="text-sm text-gray-600 dark:text-gray-400">
+                  Page {page} of {pages}
+                </span>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={page === pages}
+                  className="btn btn-secondary disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default ProductReviews;
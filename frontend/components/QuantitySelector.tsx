@@ -0,0 +1,52 @@
+import { MinusIcon, PlusIcon } from '@heroicons/react/24/outline';
+
+interface QuantitySelectorProps {
+  value: number;
+  max: number;
+  onChange: (value: number) => void;
+  disabled?: boolean;
+}
+
+const QuantitySelector: React.FC<QuantitySelectorProps> = ({
+  value,
+  max,
+  onChange,
+  disabled = false,
+}) => {
+  const clamp = (next: number) => Math.min(Math.max(next, 1), Math.max(max, 1));
+
+  return (
+    <div className="inline-flex items-center rounded-md border border-gray-300 dark:border-gray-600">
+      <button
+        type="button"
+        aria-label="Decrease quantity"
+        onClick={() => onChange(clamp(value - 1))}
+        disabled={disabled || value <= 1}
+        className="p-2 disabled:opacity-50"
+      >
+        <MinusIcon className="h-4 w-4" />
+      </button>
+      <input
+        type="number"
+        aria-label="Quantity"
+        min={1}
+        max={max}
+        value={value}
+        disabled={disabled}
+        onChange={(e) => onChange(clamp(Number(e.target.value) || 1))}
+        className="w-14 bg-transparent text-center [appearance:textfield] [&::-webkit-inner-spin-button]:appearance-none"
+      />
+      <button
+        type="button"
+        aria-label="Increase quantity"
+        onClick={() => onChange(clamp(value + 1))}
+        disabled={disabled || value >= max}
+        className="p-2 disabled:opacity-50"
+      >
+        <PlusIcon className="h-4 w-4" />
+      </button>
+    </div>
+  );
+};
+
+export default QuantitySelector;
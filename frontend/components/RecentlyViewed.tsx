@@ -0,0 +1,69 @@
+import { useRef } from 'react';
+import { ChevronLeftIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+import ProductCard from './ProductCard';
+import { useRecentlyViewed } from '../context/RecentlyViewedContext';
+import { useProductsByIds } from '../hooks/useProducts';
+
+interface RecentlyViewedProps {
+  // Leave out the product currently on screen
+  excludeId?: string;
+  title?: string;
+  limit?: number;
+}
+
+// Horizontally scrolling rail of the customer's recently viewed products
+const RecentlyViewed: React.FC<RecentlyViewedProps> = ({
+  excludeId,
+  title = 'Recently Viewed',
+  limit = 12,
+}) => {
+  const { productIds, clearHistory } = useRecentlyViewed();
+  const ids = productIds.filter((id) => id !== excludeId).slice(0, limit);
+  const { products } = useProductsByIds(ids);
+  const railRef = useRef<HTMLDivElement>(null);
+
+  if (products.length === 0) return null;
+
+  const scroll = (direction: 1 | -1) => {
+    const rail = railRef.current;
+    if (!rail) return;
+    rail.scrollBy({ left: direction * rail.clientWidth * 0.8, behavior: 'smooth' });
+  };
+
+  return (
+    <section>
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-serif font-bold">{title}</h2>
+        <div className="flex items-center space-x-2">
+          <button onClick={clearHistory} className="text-sm text-primary-600 hover:underline mr-2">
+            Clear
+          </button>
+          <button
+            onClick={() => scroll(-1)}
+            aria-label="Scroll back"
+            className="p-2 rounded-full border border-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+          >
+            <ChevronLeftIcon className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => scroll(1)}
+            aria-label="Scroll forward"
+            className="p-2 rounded-full border border-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+          >
+            <ChevronRightIcon className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      <div ref={railRef} className="flex gap-6 overflow-x-auto snap-x pb-2">
+        {products.map((product) => (
+          <div key={product._id} className="w-56 shrink-0 snap-start">
+            <ProductCard product={product} />
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default RecentlyViewed;
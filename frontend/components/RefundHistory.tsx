@@ -0,0 +1,56 @@
+import { Refund, RefundStatus } from '../types';
+import { formatPrice } from '../utils/api';
+
+interface RefundHistoryProps {
+  refunds: Refund[];
+}
+
+const statusStyles: Record<RefundStatus, { label: string; className: string }> = {
+  pending: {
+    label: 'Processing',
+    className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  },
+  processed: {
+    label: 'Refunded',
+    className: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  },
+  failed: {
+    label: 'Failed',
+    className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  },
+};
+
+const RefundHistory: React.FC<RefundHistoryProps> = ({ refunds }) => {
+  if (refunds.length === 0) return null;
+
+  return (
+    <section>
+      <h2 className="text-lg font-semibold mb-2">Refunds</h2>
+      <ul className="space-y-2">
+        {refunds.map((refund) => (
+          <li
+            key={refund._id}
+            className="flex items-center justify-between border-b border-gray-200 dark:border-gray-700 py-2"
+          >
+            <div>
+              <p className="font-semibold">{formatPrice(refund.amount)}</p>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {new Date(refund.createdAt).toLocaleDateString()}
+                {refund.reason && ` - ${refund.reason}`}
+              </p>
+            </div>
+            <span
+              className={`text-xs font-semibold px-2 py-1 rounded-full ${
+                statusStyles[refund.status].className
+              }`}
+            >
+              {statusStyles[refund.status].label}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export default RefundHistory;
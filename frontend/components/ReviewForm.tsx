@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { StarIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { Review } from '../types';
+import { useImageUpload } from '../hooks/useImageUpload';
+import { useReviewEditor } from '../hooks/useReviews';
+
+// Matches the server's limit per review
+const MAX_PHOTOS = 4;
+
+interface ReviewFormProps {
+  productId: string;
+  // Editing an existing review rather than writing a new one
+  review?: Review;
+  onSaved: (review: Review) => void;
+  onCancel?: () => void;
+}
+
+const ReviewForm: React.FC<ReviewFormProps> = ({ productId, review, onSaved, onCancel }) => {
+  const [rating, setRating] = useState(review?.rating || 0);
+  const [hoverRating, setHoverRating] = useState(0);
+  const [comment, setComment] = useState(review?.comment || '');
+  const [photos, setPhotos] = useState(review?.photos || []);
+  const { images, uploading, error, handleImageUpload, removeImage, inputRef } = useImageUpload({
+    multiple: true,
+    maxWidth: 1600,
+    maxHeight: 1600,
+  });
+  const { saveReview, saving } = useReviewEditor();
+  const photoCount = photos.length + images.length;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const saved = await saveReview(
+      productId,
+      { rating, comment, photos, newPhotos: images.map((image) => image.file) },
+      review
+    );
+    if (saved) onSaved(saved);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <p className="text-sm font-medium mb-1">Your rating</p>
+        <div className="flex" onMouseLeave={() => setHoverRating(0)}>
+          {[1, 2, 3, 4, 5].map((star) => (
+            <button
+              key={star}
+              type="button"
+              onClick={() => setRating(star)}
+              onMouseEnter={() => setHoverRating(star)}
+              aria-label={`${star} star${star === 1 ? '' : 's'}`}
+              aria-pressed={rating === star}
+            >
+              <StarIcon
+                className={`h-7 w-7 ${
+                  star <= (hoverRating || rating)
+                    ? 'fill-current text-yellow-400'
+                    : 'text-gray-300 dark:text-gray-600'
+                }`}
+              />
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="review-comment" className="block text-sm font-medium mb-1">
+          Your review
+        </label>
+        <textarea
+          id="review-comment"
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          rows={4}
+          maxLength={2000}
+          required
+          className="input w-full"
+          placeholder="How did it smell, burn and look?"
+        />
+      </div>
+
+      <div>
+        <p className="text-sm font-medium mb-1">Photos (optional, up to {MAX_PHOTOS})</p>
+        <div className="flex flex-wrap gap-3">
+          {photos.map((url) => (
+            <div key={url} className="relative">
+              <img src={url} alt="" className="w-20 h-20 object-cover rounded-md" />
+              <button
+                type="button"
+                onClick={() => setPhotos(photos.filter((photo) => photo !== url))}
+                aria-label="Remove photo"
+                className="absolute -top-2 -right-2 p-0.5 rounded-full bg-gray-700 text-white hover:bg-gray-900"
+              >
+                <XMarkIcon className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+          {images.map((image, index) => (
+            <div key={image.url} className="relative">
+              <img src={image.url} alt="" className="w-20 h-20 object-cover rounded-md" />
+              <button
+                type="button"
+                onClick={() => removeImage(index)}
+                aria-label="Remove photo"
+                className="absolute -top-2 -right-2 p-0.5 rounded-full bg-gray-700 text-white hover:bg-gray-900"
+              >
+                <XMarkIcon className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+          {photoCount < MAX_PHOTOS && (
+            <label className="flex items-center justify-center w-20 h-20 rounded-md border-2 border-dashed border-gray-300 dark:border-gray-600 text-xs text-gray-600 dark:text-gray-400 cursor-pointer hover:border-primary-600">
+              {uploading ? 'Adding…' : 'Add photo'}
+              <input
+                ref={inputRef}
+                type="file"
+                accept="image/jpeg,image/png,image/webp"
+                multiple
+                className="sr-only"
+                onChange={(e) => handleImageUpload(e.target.files)}
+              />
+            </label>
+          )}
+        </div>
+        {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+        {photoCount > MAX_PHOTOS && (
+          <p className="mt-1 text-sm text-red-600">Please remove {photoCount - MAX_PHOTOS}.</p>
+        )}
+      </div>
+
+      <div className="flex items-center space-x-3">
+        <button
+          type="submit"
+          disabled={saving || uploading || rating === 0 || !comment.trim() || photoCount > MAX_PHOTOS}
+          className="btn btn-primary disabled:opacity-50"
+        >
+          {saving ? 'Saving…' : review ? 'Update review' : 'Submit review'}
+        </button>
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="btn btn-secondary">
+            Cancel
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-gray-600 dark:text-gray-400">
+        Reviews are checked by our team before they appear.
+      </p>
+    </form>
+  );
+};
+
+export default ReviewForm;
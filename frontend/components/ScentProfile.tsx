@@ -0,0 +1,85 @@
+import Link from 'next/link';
+import { ScentIntensity, ScentProfile as ScentProfileType } from '../types';
+
+interface ScentProfileProps {
+  profile: ScentProfileType;
+}
+
+const TIERS = [
+  { key: 'top', label: 'Top notes' },
+  { key: 'heart', label: 'Heart notes' },
+  { key: 'base', label: 'Base notes' },
+] as const;
+
+const INTENSITY_LEVELS: ScentIntensity[] = ['light', 'moderate', 'strong'];
+
+// Families and notes link to the catalog filtered by them
+const ScentProfile: React.FC<ScentProfileProps> = ({ profile }) => {
+  const tiers = TIERS.filter(({ key }) => (profile.notes[key] || []).length > 0);
+  const level = profile.intensity ? INTENSITY_LEVELS.indexOf(profile.intensity) + 1 : 0;
+
+  return (
+    <section>
+      <h2 className="text-lg font-semibold mb-4">Scent profile</h2>
+
+      {profile.families.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {profile.families.map((family) => (
+            <Link
+              key={family}
+              href={{ pathname: '/products', query: { family } }}
+              className="px-3 py-1 rounded-full text-sm capitalize bg-primary-50 text-primary-700 dark:bg-gray-800 dark:text-primary-400 hover:bg-primary-100"
+            >
+              {family}
+            </Link>
+          ))}
+        </div>
+      )}
+
+      {tiers.length > 0 && (
+        <dl className="space-y-2 mb-4">
+          {tiers.map(({ key, label }) => (
+            <div key={key} className="flex">
+              <dt className="w-28 shrink-0 text-gray-600 dark:text-gray-400">{label}</dt>
+              <dd className="flex flex-wrap gap-x-2">
+                {profile.notes[key]!.map((note, index, notes) => (
+                  <span key={note}>
+                    <Link
+                      href={{ pathname: '/products', query: { note } }}
+                      className="capitalize hover:text-primary-600"
+                    >
+                      {note}
+                    </Link>
+                    {index < notes.length - 1 && ','}
+                  </span>
+                ))}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      {profile.intensity && (
+        <div className="flex items-center">
+          <span className="w-28 shrink-0 text-gray-600 dark:text-gray-400">Intensity</span>
+          <div
+            className="flex space-x-1"
+            aria-label={`Scent intensity: ${profile.intensity}`}
+          >
+            {INTENSITY_LEVELS.map((intensity, index) => (
+              <span
+                key={intensity}
+                className={`h-2 w-8 rounded-full ${
+                  index < level ? 'bg-primary-600' : 'bg-gray-200 dark:bg-gray-700'
+                }`}
+              />
+            ))}
+          </div>
+          <span className="ml-3 text-sm capitalize">{profile.intensity}</span>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default ScentProfile;
@@ -0,0 +1,207 @@
+import { useState, useEffect, useCallback, useId } from 'react';
+import { useRouter } from 'next/router';
+import { MagnifyingGlassIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { useKeyboardNav } from '../hooks/useKeyboard';
+import { useRecentSearches, useSuggestions } from '../hooks/useSearch';
+import { SearchSuggestion } from '../types';
+import * as api from '../utils/api';
+
+interface SearchBoxProps {
+  className?: string;
+  onNavigate?: () => void;
+}
+
+const fetchSuggestions = async (query: string) => {
+  const { data } = await api.getSearchSuggestions(query);
+  return data;
+};
+
+const TYPE_LABELS: Record<SearchSuggestion['type'], string> = {
+  product: 'Product',
+  scent: 'Scent',
+  category: 'Category',
+};
+
+// Header search with autocomplete; shows recent searches while the box is empty
+const SearchBox: React.FC<SearchBoxProps> = ({ className = '', onNavigate }) => {
+  const router = useRouter();
+  const listId = useId();
+  const [open, setOpen] = useState(false);
+  const [focused, setFocused] = useState(false);
+  const { recentSearches, addRecentSearch, removeRecentSearch, clearRecentSearches } =
+    useRecentSearches();
+  const { query, setQuery, suggestions } = useSuggestions<SearchSuggestion>({
+    getSuggestions: fetchSuggestions,
+    maxSuggestions: 8,
+  });
+
+  const showingRecent = query.trim() === '';
+  const itemCount = showingRecent ? recentSearches.length : suggestions.length;
+
+  const close = useCallback(() => {
+    setOpen(false);
+    onNavigate?.();
+  }, [onNavigate]);
+
+  const searchFor = useCallback(
+    (term: string) => {
+      const trimmed = term.trim();
+      if (!trimmed) return;
+      addRecentSearch(trimmed);
+      setQuery(trimmed);
+      close();
+      router.push({ pathname: '/products', query: { keyword: trimmed } });
+    },
+    [addRecentSearch, setQuery, close, router]
+  );
+
+  const openSuggestion = useCallback(
+    (suggestion: SearchSuggestion) => {
+      addRecentSearch(suggestion.value);
+      setQuery('');
+      close();
+
+      if (suggestion.type === 'product' && suggestion.productId) {
+        router.push(`/products/${suggestion.productId}`);
+      } else if (suggestion.type === 'category') {
+        router.push({ pathname: '/products', query: { category: suggestion.value.toLowerCase() } });
+      } else {
+        router.push({ pathname: '/products', query: { scent: suggestion.value } });
+      }
+    },
+    [addRecentSearch, setQuery, close, router]
+  );
+
+  // Enter with nothing highlighted searches for what's typed
+  const handleSelect = useCallback(
+    (index: number) => {
+      if (showingRecent) {
+        if (recentSearches[index]) searchFor(recentSearches[index]);
+      } else if (suggestions[index]) {
+        openSuggestion(suggestions[index]);
+      } else {
+        searchFor(query);
+      }
+    },
+    [showingRecent, recentSearches, suggestions, query, searchFor, openSuggestion]
+  );
+
+  const { activeIndex, setActiveIndex } = useKeyboardNav(itemCount, handleSelect, {
+    initialIndex: -1,
+    enabled: focused,
+  });
+
+  useEffect(() => {
+    setActiveIndex(-1);
+  }, [query, suggestions, open, setActiveIndex]);
+
+  const optionId = (index: number) => `${listId}-option-${index}`;
+  const expanded = open && itemCount > 0;
+
+  return (
+    <div className={`relative ${className}`}>
+      <div className="relative">
+        <input
+          type="search"
+          role="combobox"
+          aria-label="Search products"
+          aria-expanded={expanded}
+          aria-controls={listId}
+          aria-autocomplete="list"
+          aria-activedescendant={expanded && activeIndex >= 0 ? optionId(activeIndex) : undefined}
+          placeholder="Search candles..."
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setOpen(true);
+          }}
+          onFocus={() => {
+            setFocused(true);
+            setOpen(true);
+          }}
+          onBlur={() => {
+            setFocused(false);
+            setOpen(false);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') setOpen(false);
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') setOpen(true);
+          }}
+          className="w-full pl-9 pr-3 py-1.5 text-sm rounded-md border border-gray-300 dark:border-gray-600 dark:bg-gray-800 focus:ring-primary-500 focus:border-primary-500"
+        />
+        <MagnifyingGlassIcon className="h-4 w-4 text-gray-400 absolute left-3 top-1/2 transform -translate-y-1/2" />
+      </div>
+
+      {expanded && (
+        <div className="absolute z-30 mt-1 w-full min-w-[16rem] rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-lg">
+          {showingRecent && (
+            <div className="flex items-center justify-between px-3 pt-2 text-xs text-gray-500 dark:text-gray-400">
+              <span>Recent searches</span>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={clearRecentSearches}
+                className="hover:text-primary-600"
+              >
+                Clear
+              </button>
+            </div>
+          )}
+
+          <ul id={listId} role="listbox" className="py-1">
+            {showingRecent
+              ? recentSearches.map((term, index) => (
+                  <li
+                    key={term}
+                    id={optionId(index)}
+                    role="option"
+                    aria-selected={activeIndex === index}
+                    onMouseEnter={() => setActiveIndex(index)}
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => searchFor(term)}
+                    className={`flex items-center justify-between px-3 py-2 text-sm cursor-pointer ${
+                      activeIndex === index ? 'bg-gray-100 dark:bg-gray-700' : ''
+                    }`}
+                  >
+                    <span>{term}</span>
+                    <button
+                      type="button"
+                      aria-label={`Remove ${term} from recent searches`}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        removeRecentSearch(term);
+                      }}
+                      className="text-gray-400 hover:text-gray-600"
+                    >
+                      <XMarkIcon className="h-4 w-4" />
+                    </button>
+                  </li>
+                ))
+              : suggestions.map((suggestion, index) => (
+                  <li
+                    key={`${suggestion.type}-${suggestion.productId || suggestion.value}`}
+                    id={optionId(index)}
+                    role="option"
+                    aria-selected={activeIndex === index}
+                    onMouseEnter={() => setActiveIndex(index)}
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => openSuggestion(suggestion)}
+                    className={`flex items-center justify-between px-3 py-2 text-sm cursor-pointer ${
+                      activeIndex === index ? 'bg-gray-100 dark:bg-gray-700' : ''
+                    }`}
+                  >
+                    <span>{suggestion.value}</span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {TYPE_LABELS[suggestion.type]}
+                      {suggestion.count !== undefined && ` · ${suggestion.count}`}
+                    </span>
+                  </li>
+                ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchBox;
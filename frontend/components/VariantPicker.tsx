@@ -0,0 +1,71 @@
+import { ProductOption, ProductVariant } from '../types';
+
+interface VariantPickerProps {
+  options: ProductOption[];
+  variants: ProductVariant[];
+  selected: Record<string, string>;
+  onChange: (selected: Record<string, string>) => void;
+}
+
+// Does any in-stock variant match the current picks with `name` set to `value`?
+const isAvailable = (
+  variants: ProductVariant[],
+  selected: Record<string, string>,
+  name: string,
+  value: string
+) => {
+  const wanted = { ...selected, [name]: value };
+  return variants.some(
+    (variant) =>
+      variant.stock > 0 &&
+      Object.entries(wanted).every(([axis, picked]) => variant.options[axis] === picked)
+  );
+};
+
+const VariantPicker: React.FC<VariantPickerProps> = ({
+  options,
+  variants,
+  selected,
+  onChange,
+}) => {
+  return (
+    <div className="space-y-4">
+      {options.map((option) => (
+        <fieldset key={option.name}>
+          <legend className="label capitalize">
+            {option.name}
+            {selected[option.name] && (
+              <span className="ml-2 font-normal text-gray-600 dark:text-gray-400">
+                {selected[option.name]}
+              </span>
+            )}
+          </legend>
+          <div className="flex flex-wrap gap-2">
+            {option.values.map((value) => {
+              const active = selected[option.name] === value;
+              const available = isAvailable(variants, selected, option.name, value);
+
+              return (
+                <button
+                  key={value}
+                  type="button"
+                  aria-pressed={active}
+                  onClick={() => onChange({ ...selected, [option.name]: value })}
+                  className={`px-4 py-2 rounded-md border text-sm ${
+                    active
+                      ? 'border-primary-600 bg-primary-50 text-primary-700 dark:bg-gray-800 dark:text-primary-400'
+                      : 'border-gray-300 dark:border-gray-600 hover:border-primary-600'
+                  } ${available ? '' : 'line-through opacity-50'}`}
+                >
+                  {value}
+                </button>
+              );
+            })}
+          </div>
+        </fieldset>
+      ))}
+    </div>
+  );
+};
+
+export default VariantPicker;
@@ -11,6 +11,7 @@ import {
   Bars3Icon as MenuIcon,
   XMarkIcon as XIcon,
 } from '@heroicons/react/24/outline';
+import SearchBox from '../SearchBox';
 
 const Header = () => {
   const [mounted, setMounted] = useState(false);
@@ -58,6 +59,8 @@ const Header = () => {
 
           {/* Desktop Right Section */}
           <div className="hidden md:flex items-center space-x-6">
+            <SearchBox className="w-56" />
+
             {/* Theme Toggle */}
             <button
               aria-label="Toggle Dark Mode"
@@ -79,7 +82,7 @@ const Header = () => {
             </Link>
 
             {/* User Profile */}
-            <Link href="/profile" className="p-2 hover:text-primary-600">
+            <Link href="/orders" aria-label="My orders" className="p-2 hover:text-primary-600">
               <UserIcon className="h-6 w-6" />
             </Link>
           </div>
@@ -109,6 +112,7 @@ const Header = () => {
               className="md:hidden"
             >
               <div className="px-2 pt-2 pb-3 space-y-1">
+                <SearchBox className="px-3 pb-2" onNavigate={() => setIsMenuOpen(false)} />
                 {navigation.map((item) => (
                   <Link
                     key={item.name}
@@ -127,7 +131,7 @@ const Header = () => {
                   <Link href="/cart" className="hover:text-primary-600">
                     <ShoppingCartIcon className="h-6 w-6" />
                   </Link>
-                  <Link href="/profile" className="hover:text-primary-600">
+                  <Link href="/orders" aria-label="My orders" className="hover:text-primary-600">
                     <UserIcon className="h-6 w-6" />
                   </Link>
                   <button
@@ -1,5 +1,14 @@
-import { createContext, useContext, useReducer, ReactNode } from 'react';
-import { CartItem, Product } from '../types';
+import { createContext, useContext, useReducer, useState, useEffect, useRef, ReactNode } from 'react';
+import { CartItem, CartChange, CouponQuote, Product } from '../types';
+import { useLocalStorage } from '../hooks/useStorage';
+import * as api from '../utils/api';
+import { getItemKey, getItemName, getItemPrice, cartItemKey, toCartPayload } from '../utils/cart';
+
+interface CartLineToAdd {
+  product: Product;
+  variant?: string;
+  quantity: number;
+}
 
 interface CartState {
   items: CartItem[];
@@ -8,62 +17,102 @@ interface CartState {
 }
 
 type CartAction =
-  | { type: 'ADD_ITEM'; payload: { product: Product; quantity: number } }
+  | { type: 'ADD_ITEM'; payload: CartLineToAdd }
+  | { type: 'ADD_ITEMS'; payload: CartLineToAdd[] }
   | { type: 'REMOVE_ITEM'; payload: string }
-  | { type: 'UPDATE_QUANTITY'; payload: { productId: string; quantity: number } }
+  | { type: 'UPDATE_QUANTITY'; payload: { itemKey: string; quantity: number } }
+  | { type: 'SET_ITEMS'; payload: CartItem[] }
   | { type: 'CLEAR_CART' };
 
 interface CartContextType extends CartState {
-  addItem: (product: Product, quantity: number) => void;
-  removeItem: (productId: string) => void;
-  updateQuantity: (productId: string, quantity: number) => void;
+  addItem: (product: Product, quantity: number, variant?: string) => void;
+  // Adds several lines as one change, e.g. a bundle
+  addItems: (lines: CartLineToAdd[]) => void;
+  // Lines are addressed by `getItemKey` from utils/cart
+  removeItem: (itemKey: string) => void;
+  updateQuantity: (itemKey: string, quantity: number) => void;
   clearCart: () => void;
+  mergeServerCart: () => Promise<void>;
+  cartChanges: CartChange[];
+  revalidateCart: () => Promise<CartChange[]>;
+  acceptCartChanges: () => void;
+  couponCode: string;
+  coupon: CouponQuote | null;
+  couponError: string | null;
+  discount: number;
+  applyCoupon: (code: string) => Promise<CouponQuote>;
+  removeCoupon: () => void;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
+const CART_STORAGE_KEY = 'cart';
+const COUPON_STORAGE_KEY = 'cart-coupon';
+const SERVER_SYNC_DELAY = 500;
+
+const summarizeCart = (items: CartItem[]): CartState => ({
+  items,
+  itemCount: items.reduce((count, item) => count + item.quantity, 0),
+  total: items.reduce((sum, item) => sum + getItemPrice(item) * item.quantity, 0),
+});
+
+const isLoggedIn = () =>
+  typeof window !== 'undefined' && !!localStorage.getItem('token');
+
 const cartReducer = (state: CartState, action: CartAction): CartState => {
   switch (action.type) {
     case 'ADD_ITEM': {
+      const { product, variant, quantity } = action.payload;
+      const newItem: CartItem = { product, ...(variant && { variant }), quantity };
+      const unitPrice = getItemPrice(newItem);
       const existingItemIndex = state.items.findIndex(
-        (item) => item.product._id === action.payload.product._id
+        (item) => getItemKey(item) === cartItemKey(product._id, variant)
       );
 
       if (existingItemIndex > -1) {
         const updatedItems = [...state.items];
-        updatedItems[existingItemIndex].quantity += action.payload.quantity;
+        updatedItems[existingItemIndex] = {
+          ...updatedItems[existingItemIndex],
+          quantity: updatedItems[existingItemIndex].quantity + quantity,
+        };
 
         return {
           ...state,
           items: updatedItems,
-          itemCount: state.itemCount + action.payload.quantity,
-          total: state.total + action.payload.product.price * action.payload.quantity,
+          itemCount: state.itemCount + quantity,
+          total: state.total + unitPrice * quantity,
         };
       }
 
       return {
         ...state,
-        items: [...state.items, { product: action.payload.product, quantity: action.payload.quantity }],
-        itemCount: state.itemCount + action.payload.quantity,
-        total: state.total + action.payload.product.price * action.payload.quantity,
+        items: [...state.items, newItem],
+        itemCount: state.itemCount + quantity,
+        total: state.total + unitPrice * quantity,
       };
     }
 
+    case 'ADD_ITEMS':
+      return action.payload.reduce(
+        (next, line) => cartReducer(next, { type: 'ADD_ITEM', payload: line }),
+        state
+      );
+
     case 'REMOVE_ITEM': {
-      const itemToRemove = state.items.find((item) => item.product._id === action.payload);
+      const itemToRemove = state.items.find((item) => getItemKey(item) === action.payload);
       if (!itemToRemove) return state;
 
       return {
         ...state,
-        items: state.items.filter((item) => item.product._id !== action.payload),
+        items: state.items.filter((item) => getItemKey(item) !== action.payload),
         itemCount: state.itemCount - itemToRemove.quantity,
-        total: state.total - itemToRemove.product.price * itemToRemove.quantity,
+        total: state.total - getItemPrice(itemToRemove) * itemToRemove.quantity,
       };
     }
 
     case 'UPDATE_QUANTITY': {
       const existingItemIndex = state.items.findIndex(
-        (item) => item.product._id === action.payload.productId
+        (item) => getItemKey(item) === action.payload.itemKey
       );
 
       if (existingItemIndex === -1) return state;
@@ -81,10 +130,13 @@ const cartReducer = (state: CartState, action: CartAction): CartState => {
         ...state,
         items: updatedItems,
         itemCount: state.itemCount + quantityDiff,
-        total: state.total + item.product.price * quantityDiff,
+        total: state.total + getItemPrice(item) * quantityDiff,
       };
     }
 
+    case 'SET_ITEMS':
+      return summarizeCart(action.payload);
+
     case 'CLEAR_CART':
       return {
         items: [],
@@ -107,31 +159,189 @@ export const CartProvider = ({ children }: CartProviderProps) => {
     itemCount: 0,
     total: 0,
   });
+  const [storedItems, setStoredItems] = useLocalStorage<CartItem[]>(CART_STORAGE_KEY, []);
+  const [couponCode, setCouponCode] = useLocalStorage<string>(COUPON_STORAGE_KEY, '');
+  const [coupon, setCoupon] = useState<CouponQuote | null>(null);
+  const [couponError, setCouponError] = useState<string | null>(null);
+  const [hydrated, setHydrated] = useState(false);
+  const [pendingValidation, setPendingValidation] = useState<{
+    items: CartItem[];
+    changes: CartChange[];
+  }>({ items: [], changes: [] });
+  const pendingServerSync = useRef(false);
+  const syncTimer = useRef<NodeJS.Timeout>();
+
+  // Hydrate from storage on mount and follow writes made by other tabs
+  useEffect(() => {
+    if (storedItems !== state.items) {
+      dispatch({ type: 'SET_ITEMS', payload: storedItems });
+    }
+    setHydrated(true);
+  }, [storedItems]);
+
+  // Signed-in customers pick up changes made on their other devices
+  useEffect(() => {
+    if (!isLoggedIn()) return;
+
+    api
+      .getCart()
+      .then(({ data }) => dispatch({ type: 'SET_ITEMS', payload: data.items }))
+      .catch((error) => console.warn('Error loading server cart:', error));
+  }, []);
+
+  // Persist locally, and push customer-made changes to the server cart
+  useEffect(() => {
+    if (!hydrated) return;
+
+    setStoredItems(state.items);
+
+    if (!pendingServerSync.current) return;
+    pendingServerSync.current = false;
+
+    if (syncTimer.current) {
+      clearTimeout(syncTimer.current);
+    }
+    syncTimer.current = setTimeout(() => {
+      if (!isLoggedIn()) return;
+      api
+        .saveCart(toCartPayload(state.items))
+        .catch((error) => console.warn('Error saving server cart:', error));
+    }, SERVER_SYNC_DELAY);
+  }, [state.items, hydrated]);
+
+  // Re-price the applied coupon whenever the cart contents change
+  useEffect(() => {
+    if (!hydrated || !couponCode) return;
+
+    if (state.items.length === 0) {
+      setCoupon(null);
+      return;
+    }
 
-  const addItem = (product: Product, quantity: number) => {
-    dispatch({ type: 'ADD_ITEM', payload: { product, quantity } });
+    api
+      .applyCoupon(couponCode, toCartPayload(state.items))
+      .then(({ data }) => {
+        setCoupon(data);
+        setCouponError(null);
+      })
+      .catch((error) => {
+        setCoupon(null);
+        setCouponError(api.handleApiError(error));
+      });
+  }, [state.items, hydrated]);
+
+  useEffect(() => {
+    return () => {
+      if (syncTimer.current) {
+        clearTimeout(syncTimer.current);
+      }
+    };
+  }, []);
+
+  // Customer edits sync to the server and invalidate any unapproved revalidation
+  const markCustomerChange = () => {
+    pendingServerSync.current = true;
+    setPendingValidation({ items: [], changes: [] });
   };
 
-  const removeItem = (productId: string) => {
-    dispatch({ type: 'REMOVE_ITEM', payload: productId });
+  const addItem = (product: Product, quantity: number, variant?: string) => {
+    markCustomerChange();
+    dispatch({ type: 'ADD_ITEM', payload: { product, variant, quantity } });
   };
 
-  const updateQuantity = (productId: string, quantity: number) => {
-    dispatch({ type: 'UPDATE_QUANTITY', payload: { productId, quantity } });
+  const addItems = (lines: CartLineToAdd[]) => {
+    if (lines.length === 0) return;
+    markCustomerChange();
+    dispatch({ type: 'ADD_ITEMS', payload: lines });
+  };
+
+  const removeItem = (itemKey: string) => {
+    markCustomerChange();
+    dispatch({ type: 'REMOVE_ITEM', payload: itemKey });
+  };
+
+  const updateQuantity = (itemKey: string, quantity: number) => {
+    markCustomerChange();
+    dispatch({ type: 'UPDATE_QUANTITY', payload: { itemKey, quantity } });
   };
 
   const clearCart = () => {
+    markCustomerChange();
+    removeCoupon();
     dispatch({ type: 'CLEAR_CART' });
   };
 
+  const applyCoupon = async (code: string) => {
+    const { data } = await api.applyCoupon(code, toCartPayload(state.items));
+    setCoupon(data);
+    setCouponCode(data.code);
+    setCouponError(null);
+    return data;
+  };
+
+  const removeCoupon = () => {
+    setCoupon(null);
+    setCouponCode('');
+    setCouponError(null);
+  };
+
+  // Fold the anonymous cart into the account cart right after login
+  const mergeServerCart = async () => {
+    try {
+      const { data } = await api.mergeCart(toCartPayload(state.items));
+      dispatch({ type: 'SET_ITEMS', payload: data.items });
+    } catch (error) {
+      console.warn('Error merging server cart:', error);
+    }
+  };
+
+  // Re-fetch carted products and report how they differ from the stored snapshots
+  const revalidateCart = async () => {
+    if (state.items.length === 0) return [];
+
+    const { data } = await api.validateCart(
+      state.items.map((item) => ({
+        product: item.product._id,
+        ...(item.variant && { variant: item.variant }),
+        name: getItemName(item),
+        price: getItemPrice(item),
+        quantity: item.quantity,
+      }))
+    );
+
+    if (data.changes.length === 0) {
+      // Nothing the customer needs to approve; just refresh the snapshots
+      dispatch({ type: 'SET_ITEMS', payload: data.items });
+    }
+    setPendingValidation(data);
+    return data.changes;
+  };
+
+  const acceptCartChanges = () => {
+    const { items } = pendingValidation;
+    markCustomerChange();
+    dispatch({ type: 'SET_ITEMS', payload: items });
+  };
+
   return (
     <CartContext.Provider
       value={{
         ...state,
         addItem,
+        addItems,
         removeItem,
         updateQuantity,
         clearCart,
+        mergeServerCart,
+        cartChanges: pendingValidation.changes,
+        revalidateCart,
+        acceptCartChanges,
+        couponCode,
+        coupon,
+        couponError,
+        discount: coupon?.discount ?? 0,
+        applyCoupon,
+        removeCoupon,
       }}
     >
       {children}
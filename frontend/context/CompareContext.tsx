@@ -0,0 +1,102 @@
+import { createContext, useContext, useCallback, useState, useEffect, ReactNode } from 'react';
+import { useLocalStorage } from '../hooks/useStorage';
+
+export const MAX_COMPARE_ITEMS = 4;
+
+interface CompareContextType {
+  // In the order they were added
+  productIds: string[];
+  isFull: boolean;
+  isComparing: (productId: string) => boolean;
+  // Returns false when the tray is already full
+  addToCompare: (productId: string) => boolean;
+  removeFromCompare: (productId: string) => void;
+  toggleCompare: (productId: string) => boolean;
+  // Replace the tray, e.g. with a selection opened from a shared link
+  setCompare: (productIds: string[]) => void;
+  clearCompare: () => void;
+}
+
+const CompareContext = createContext<CompareContextType | undefined>(undefined);
+
+const STORAGE_KEY = 'compare';
+const NO_ITEMS: string[] = [];
+
+interface CompareProviderProps {
+  children: ReactNode;
+}
+
+export const CompareProvider = ({ children }: CompareProviderProps) => {
+  const [storedIds, setProductIds] = useLocalStorage<string[]>(STORAGE_KEY, NO_ITEMS);
+  const [mounted, setMounted] = useState(false);
+
+  // Storage isn't readable during SSR; start empty so the first render matches the server
+  useEffect(() => setMounted(true), []);
+  const productIds = mounted ? storedIds : NO_ITEMS;
+  const isFull = productIds.length >= MAX_COMPARE_ITEMS;
+
+  const isComparing = useCallback(
+    (productId: string) => productIds.includes(productId),
+    [productIds]
+  );
+
+  const addToCompare = useCallback(
+    (productId: string) => {
+      if (productIds.includes(productId)) return true;
+      if (productIds.length >= MAX_COMPARE_ITEMS) return false;
+      setProductIds([...productIds, productId]);
+      return true;
+    },
+    [productIds, setProductIds]
+  );
+
+  const removeFromCompare = useCallback(
+    (productId: string) => setProductIds(productIds.filter((id) => id !== productId)),
+    [productIds, setProductIds]
+  );
+
+  const toggleCompare = useCallback(
+    (productId: string) => {
+      if (productIds.includes(productId)) {
+        removeFromCompare(productId);
+        return true;
+      }
+      return addToCompare(productId);
+    },
+    [productIds, addToCompare, removeFromCompare]
+  );
+
+  const setCompare = useCallback(
+    (ids: string[]) => setProductIds(Array.from(new Set(ids)).slice(0, MAX_COMPARE_ITEMS)),
+    [setProductIds]
+  );
+
+  const clearCompare = useCallback(() => setProductIds([]), [setProductIds]);
+
+  return (
+    <CompareContext.Provider
+      value={{
+        productIds,
+        isFull,
+        isComparing,
+        addToCompare,
+        removeFromCompare,
+        toggleCompare,
+        setCompare,
+        clearCompare,
+      }}
+    >
+      {children}
+    </CompareContext.Provider>
+  );
+};
+
+export const useCompare = () => {
+  const context = useContext(CompareContext);
+  if (context === undefined) {
+    throw new Error('useCompare must be used within a CompareProvider');
+  }
+  return context;
+};
+
+export default CompareContext;
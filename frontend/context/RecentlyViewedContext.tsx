@@ -0,0 +1,112 @@
+import { createContext, useContext, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { RecentlyViewedItem } from '../types';
+import { useLocalStorage } from '../hooks/useStorage';
+import * as api from '../utils/api';
+
+interface RecentlyViewedContextType {
+  // Newest first
+  productIds: string[];
+  recordView: (productId: string) => void;
+  clearHistory: () => void;
+  mergeServerHistory: () => Promise<void>;
+}
+
+const RecentlyViewedContext = createContext<RecentlyViewedContextType | undefined>(undefined);
+
+const STORAGE_KEY = 'recently-viewed';
+// Matches the cap the server keeps per account
+const MAX_ITEMS = 20;
+const NO_ITEMS: RecentlyViewedItem[] = [];
+
+const isLoggedIn = () =>
+  typeof window !== 'undefined' && !!localStorage.getItem('token');
+
+// Latest view per product, newest first, capped
+const mergeHistory = (...lists: RecentlyViewedItem[][]) => {
+  const latest = new Map<string, RecentlyViewedItem>();
+  lists.flat().forEach((item) => {
+    const previous = latest.get(item.product);
+    if (!previous || item.viewedAt > previous.viewedAt) {
+      latest.set(item.product, item);
+    }
+  });
+
+  return Array.from(latest.values())
+    .sort((a, b) => b.viewedAt.localeCompare(a.viewedAt))
+    .slice(0, MAX_ITEMS);
+};
+
+interface RecentlyViewedProviderProps {
+  children: ReactNode;
+}
+
+export const RecentlyViewedProvider = ({ children }: RecentlyViewedProviderProps) => {
+  const [items, setItems] = useLocalStorage<RecentlyViewedItem[]>(STORAGE_KEY, NO_ITEMS);
+
+  // Fold this device's views into the account and adopt the combined list
+  const mergeServerHistory = useCallback(async () => {
+    if (!isLoggedIn()) return;
+
+    try {
+      const { data } = await api.recordRecentlyViewed(items);
+      setItems(data.items);
+    } catch (error) {
+      console.warn('Error syncing recently viewed products:', error);
+    }
+  }, [items, setItems]);
+
+  // Signed-in customers pick up what they viewed on their other devices. Only the
+  // first render's merge runs; later views are pushed as they happen.
+  const mergeOnLoad = useRef(mergeServerHistory);
+
+  useEffect(() => {
+    mergeOnLoad.current();
+  }, []);
+
+  const recordView = useCallback(
+    (productId: string) => {
+      const item = { product: productId, viewedAt: new Date().toISOString() };
+      setItems((prev) => mergeHistory([item], prev));
+
+      if (isLoggedIn()) {
+        api
+          .recordRecentlyViewed([item])
+          .catch((error) => console.warn('Error saving recently viewed product:', error));
+      }
+    },
+    [setItems]
+  );
+
+  const clearHistory = useCallback(() => {
+    setItems([]);
+
+    if (isLoggedIn()) {
+      api
+        .clearRecentlyViewed()
+        .catch((error) => console.warn('Error clearing recently viewed products:', error));
+    }
+  }, [setItems]);
+
+  return (
+    <RecentlyViewedContext.Provider
+      value={{
+        productIds: items.map((item) => item.product),
+        recordView,
+        clearHistory,
+        mergeServerHistory,
+      }}
+    >
+      {children}
+    </RecentlyViewedContext.Provider>
+  );
+};
+
+export const useRecentlyViewed = () => {
+  const context = useContext(RecentlyViewedContext);
+  if (context === undefined) {
+    throw new Error('useRecentlyViewed must be used within a RecentlyViewedProvider');
+  }
+  return context;
+};
+
+export default RecentlyViewedContext;
@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import useSWR from 'swr';
+import toast from 'react-hot-toast';
+import { ProductAlert, ProductAlertType } from '../types';
+import * as api from '../utils/api';
+
+// The signed-in customer's alerts, optionally just those for one product
+export const useProductAlerts = (productId?: string, enabled = true) => {
+  const [saving, setSaving] = useState(false);
+  const { data, error, mutate } = useSWR<{ data: ProductAlert[] }>(
+    enabled ? ['/alerts', productId ?? ''] : null,
+    ([, id]: [string, string]) => api.getMyAlerts(id || undefined)
+  );
+  const alerts = data?.data || [];
+
+  const subscribe = async (id: string, type: ProductAlertType, variantId?: string) => {
+    try {
+      setSaving(true);
+      await api.createAlert(id, type, variantId);
+      toast.success(
+        type === 'back_in_stock'
+          ? "We'll email you when it's back in stock"
+          : "We'll email you if the price drops"
+      );
+      mutate();
+    } catch (error) {
+      toast.error(api.handleApiError(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const unsubscribe = async (alert: ProductAlert) => {
+    try {
+      setSaving(true);
+      await api.deleteAlert(alert._id);
+      toast.success('Alert removed');
+      mutate();
+    } catch (error) {
+      toast.error(api.handleApiError(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return {
+    alerts,
+    // Active alert of each type, for a single product or one of its variants
+    findAlert: (type: ProductAlertType, variantId?: string) =>
+      alerts.find(
+        (alert) =>
+          alert.type === type && alert.active && (alert.variant ?? undefined) === variantId
+      ),
+    loading: enabled && !error && !data,
+    error,
+    saving,
+    subscribe,
+    unsubscribe,
+  };
+};
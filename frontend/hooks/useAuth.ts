@@ -3,6 +3,8 @@ import { useRouter } from 'next/router';
 import { User } from '../types';
 import * as api from '../utils/api';
 import toast from 'react-hot-toast';
+import { useCart } from '../context/CartContext';
+import { useRecentlyViewed } from '../context/RecentlyViewedContext';
 
 interface AuthState {
   user: User | null;
@@ -12,6 +14,8 @@ interface AuthState {
 
 export const useAuth = () => {
   const router = useRouter();
+  const { mergeServerCart, clearCart } = useCart();
+  const { mergeServerHistory, clearHistory } = useRecentlyViewed();
   const [state, setState] = useState<AuthState>({
     user: null,
     loading: true,
@@ -22,6 +26,14 @@ export const useAuth = () => {
     checkAuth();
   }, []);
 
+  // Back to the page that sent the customer to sign in, as long as it's one of ours
+  const redirectPath = () => {
+    const { redirect } = router.query;
+    return typeof redirect === 'string' && redirect.startsWith('/') && !redirect.startsWith('//')
+      ? redirect
+      : '/';
+  };
+
   const checkAuth = async () => {
     try {
       const token = localStorage.getItem('token');
@@ -43,8 +55,9 @@ export const useAuth = () => {
       setState({ ...state, loading: true, error: null });
       const { data } = await api.login(email, password);
       setState({ user: data, loading: false, error: null });
+      await Promise.all([mergeServerCart(), mergeServerHistory()]);
       toast.success('Login successful');
-      router.push('/');
+      router.push(redirectPath());
     } catch (error) {
       setState({
         ...state,
@@ -60,8 +73,9 @@ export const useAuth = () => {
       setState({ ...state, loading: true, error: null });
       const { data } = await api.register(name, email, password);
       setState({ user: data, loading: false, error: null });
+      await Promise.all([mergeServerCart(), mergeServerHistory()]);
       toast.success('Registration successful');
-      router.push('/');
+      router.push(redirectPath());
     } catch (error) {
       setState({
         ...state,
@@ -74,6 +88,9 @@ export const useAuth = () => {
 
   const logout = () => {
     api.logout();
+    // The cart and browsing history live on the account; don't leave them on this device
+    clearCart();
+    clearHistory();
     setState({ user: null, loading: false, error: null });
     toast.success('Logged out successfully');
     router.push('/');
@@ -130,38 +130,42 @@ export const useFocus = (initialFocus = false) => {
   };
 };
 
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
 // Hook for handling keyboard navigation
+// `initialIndex: -1` starts with nothing active, as in an autocomplete list;
+// `enabled: false` stops listening, e.g. while a dropdown is closed.
 export const useKeyboardNav = (
   itemCount: number,
   onSelect: (index: number) => void,
-  options: { loop?: boolean; vertical?: boolean } = {}
+  options: { loop?: boolean; vertical?: boolean; initialIndex?: number; enabled?: boolean } = {}
 ) => {
-  const { loop = true, vertical = true } = options;
-  const [activeIndex, setActiveIndex] = useState(0);
+  const { loop = true, vertical = true, initialIndex = 0, enabled = true } = options;
+  const [activeIndex, setActiveIndex] = useState(initialIndex);
 
   const handleKeyDown = useCallback(
     (event: KeyboardEvent) => {
       let newIndex = activeIndex;
-
-      if (vertical) {
-        if (event.key === 'ArrowUp') {
-          newIndex = activeIndex - 1;
-        } else if (event.key === 'ArrowDown') {
-          newIndex = activeIndex + 1;
-        }
-      } else {
-        if (event.key === 'ArrowLeft') {
-          newIndex = activeIndex - 1;
-        } else if (event.key === 'ArrowRight') {
-          newIndex = activeIndex + 1;
-        }
-      }
-
-      if (event.key === 'Enter' || event.key === ' ') {
+      const [previousKey, nextKey] = vertical
+        ? ['ArrowUp', 'ArrowDown']
+        : ['ArrowLeft', 'ArrowRight'];
+
+      if (event.key === previousKey) {
+        newIndex = activeIndex - 1;
+      } else if (event.key === nextKey) {
+        newIndex = activeIndex + 1;
+      } else if (event.key === 'Enter' || (event.key === ' ' && !isTextField(event.target))) {
         onSelect(activeIndex);
         return;
+      } else {
+        return;
       }
 
+      // Keep arrows from moving the caret or scrolling the page
+      event.preventDefault();
+
       if (loop) {
         if (newIndex < 0) {
           newIndex = itemCount - 1;
@@ -180,9 +184,10 @@ export const useKeyboardNav = (
   );
 
   useEffect(() => {
+    if (!enabled) return;
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [handleKeyDown]);
+  }, [handleKeyDown, enabled]);
 
   return {
     activeIndex,
@@ -1,10 +1,23 @@
 import { useState } from 'react';
 import useSWR from 'swr';
 import { useRouter } from 'next/router';
-import { Order } from '../types';
+import {
+  Order,
+  Quote,
+  ShippingAddress,
+  ShippingMethod,
+  PaymentMethod,
+  MockPaymentOutcome,
+  OrderFilters,
+  InvoiceFormat,
+  CartChange,
+  StockConflict,
+} from '../types';
 import * as api from '../utils/api';
+import { toCartPayload } from '../utils/cart';
 import toast from 'react-hot-toast';
 import { useCart } from '../context/CartContext';
+import { useSessionStorage } from './useStorage';
 
 interface OrderResponse {
   success: boolean;
@@ -14,6 +27,14 @@ interface OrderResponse {
 interface OrdersResponse {
   success: boolean;
   data: Order[];
+  page: number;
+  pages: number;
+  total: number;
+}
+
+interface QuoteResponse {
+  success: boolean;
+  data: Quote;
 }
 
 const orderFetcher = async (url: string) => {
@@ -23,15 +44,22 @@ const orderFetcher = async (url: string) => {
   return response;
 };
 
-const myOrdersFetcher = async () => {
-  const response = await api.getMyOrders();
+const myOrdersFetcher = async ([, filters]: [string, string]) => {
+  const response = await api.getMyOrders(JSON.parse(filters));
   return response;
 };
 
-export const useOrder = (id: string) => {
+// Orders that can still change; these are polled when live refresh is on
+const isOrderActive = (order?: Order) =>
+  !!order && order.status !== 'delivered' && order.status !== 'cancelled';
+
+export const useOrder = (id: string, { live = false }: { live?: boolean } = {}) => {
   const { data, error, mutate } = useSWR<OrderResponse>(
     id ? `/orders/${id}` : null,
-    orderFetcher
+    orderFetcher,
+    {
+      refreshInterval: (latest) => (live && isOrderActive(latest?.data) ? 15000 : 0),
+    }
   );
 
   return {
@@ -42,45 +70,333 @@ export const useOrder = (id: string) => {
   };
 };
 
-export const useMyOrders = () => {
+export const useMyOrders = (filters: OrderFilters = {}) => {
   const { data, error, mutate } = useSWR<OrdersResponse>(
-    '/orders/myorders',
-    myOrdersFetcher
+    ['/orders/myorders', JSON.stringify(filters)],
+    myOrdersFetcher,
+    { keepPreviousData: true }
   );
 
   return {
     orders: data?.data || [],
+    page: data?.page || 1,
+    pages: data?.pages || 1,
+    total: data?.total || 0,
     loading: !error && !data,
     error,
     mutate,
   };
 };
 
+export const useCancelOrder = () => {
+  const [loading, setLoading] = useState(false);
+
+  const cancelOrder = async (orderId: string, reason?: string) => {
+    try {
+      setLoading(true);
+      const { data } = await api.cancelOrder(orderId, reason);
+      toast.success(
+        data.refunds.length > 0
+          ? 'Order cancelled. Your refund is on its way.'
+          : 'Order cancelled'
+      );
+      return data;
+    } catch (error) {
+      toast.error(api.handleApiError(error));
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return {
+    cancelOrder,
+    loading,
+  };
+};
+
+// Invoices are fetched as blobs, so error bodies arrive as blobs too
+const readBlobError = async (error: any) => {
+  const body = error?.response?.data;
+  if (body instanceof Blob) {
+    try {
+      error.response.data = JSON.parse(await body.text());
+    } catch {
+      // Not JSON; fall back to the generic message
+    }
+  }
+  return api.handleApiError(error);
+};
+
+export const useInvoiceDownload = () => {
+  const [loading, setLoading] = useState(false);
+
+  // HTML opens in a new tab for printing; PDF downloads as a file
+  const downloadInvoice = async (order: Order, format: InvoiceFormat = 'pdf') => {
+    // Open the tab before the request so popup blockers allow it
+    const preview = format === 'html' ? window.open('', '_blank') : null;
+
+    try {
+      setLoading(true);
+      const blob = await api.getOrderInvoice(order._id, format);
+      const url = URL.createObjectURL(blob);
+
+      if (preview) {
+        preview.location.href = url;
+      } else {
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `invoice-${(order.invoice?.number || order._id).replace(/\//g, '-')}.pdf`;
+        link.click();
+      }
+
+      setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+    } catch (error) {
+      preview?.close();
+      toast.error(await readBlobError(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return {
+    downloadInvoice,
+    loading,
+  };
+};
+
+// Puts an old order's items back in the cart at today's prices and stock.
+// Resolves to the lines that were repriced, cut down or left out, or null on error.
+export const useReorder = () => {
+  const { addItem } = useCart();
+  const [loading, setLoading] = useState(false);
+
+  const reorder = async (order: Order): Promise<CartChange[] | null> => {
+    try {
+      setLoading(true);
+      const { data } = await api.validateCart(
+        order.orderItems.map((item) => ({
+          product: item.product,
+          ...(item.variant && { variant: item.variant }),
+          name: item.variantLabel ? `${item.name} (${item.variantLabel})` : item.name,
+          price: item.price,
+          quantity: item.quantity,
+        }))
+      );
+
+      data.items.forEach((item) => addItem(item.product, item.quantity, item.variant));
+
+      if (data.items.length > 0) {
+        toast.success(
+          `Added ${data.items.length} ${data.items.length === 1 ? 'item' : 'items'} to your cart`
+        );
+      } else {
+        toast.error('None of these items are available right now');
+      }
+
+      return data.changes;
+    } catch (error) {
+      toast.error(api.handleApiError(error));
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return {
+    reorder,
+    loading,
+  };
+};
+
+const quoteFetcher = async ([, body]: [string, string]) => {
+  const response = await api.getQuote(JSON.parse(body));
+  return response;
+};
+
+// Server-computed shipping, tax and totals for the current cart
+export const useQuote = (
+  options: {
+    shippingAddress?: ShippingAddress;
+    shippingMethod?: ShippingMethod;
+    couponCode?: string;
+  } = {}
+) => {
+  const { items } = useCart();
+  const body = JSON.stringify({
+    items: toCartPayload(items),
+    ...options,
+  });
+
+  const { data, error, mutate } = useSWR<QuoteResponse>(
+    items.length > 0 ? ['/pricing/quote', body] : null,
+    quoteFetcher,
+    { keepPreviousData: true }
+  );
+
+  return {
+    quote: data?.data,
+    loading: items.length > 0 && !error && !data,
+    error,
+    mutate,
+  };
+};
+
+export type CheckoutStep = 'shipping' | 'delivery' | 'payment' | 'review';
+
+export interface CheckoutSession {
+  step: CheckoutStep;
+  shippingAddress: ShippingAddress;
+  shippingMethod: ShippingMethod;
+  paymentMethod: PaymentMethod;
+  mockOutcome?: MockPaymentOutcome;
+}
+
+const CHECKOUT_SESSION_KEY = 'checkout-session';
+
+const initialCheckoutSession: CheckoutSession = {
+  step: 'shipping',
+  shippingAddress: {
+    address: '',
+    city: '',
+    state: '',
+    postalCode: '',
+    country: '',
+  },
+  shippingMethod: 'standard',
+  paymentMethod: 'razorpay',
+};
+
+// Keeps the checkout wizard's progress across page refreshes
+export const useCheckoutSession = () => {
+  const [session, setSession, clearSession] = useSessionStorage<CheckoutSession>(
+    CHECKOUT_SESSION_KEY,
+    initialCheckoutSession
+  );
+
+  const updateSession = (changes: Partial<CheckoutSession>) => {
+    setSession((prev) => ({ ...prev, ...changes }));
+  };
+
+  return {
+    session,
+    updateSession,
+    clearSession,
+  };
+};
+
+const orderConfirmationPath = (orderId: string) =>
+  `/order-confirmation?orderId=${orderId}`;
+
+type OrderRequest = Parameters<typeof api.createOrder>[0];
+
+const PENDING_ORDER_KEY = 'checkout-pending-order';
+
+interface PendingOrder {
+  orderId: string;
+  // The request it was placed with, to tell whether a retry changed anything
+  request: string;
+}
+
+const readPendingOrder = (): PendingOrder | null => {
+  try {
+    return JSON.parse(window.sessionStorage.getItem(PENDING_ORDER_KEY) || 'null');
+  } catch {
+    return null;
+  }
+};
+
+const clearPendingOrder = () => window.sessionStorage.removeItem(PENDING_ORDER_KEY);
+
+// A failed or dismissed payment leaves its order pending and holding stock. Retrying
+// with the same cart and details pays that order again; anything else cancels it
+// before placing a new one. Resolves to the order to pay, which may already be paid
+// if the payment went through after all.
+const placeOrReuseOrder = async (request: OrderRequest): Promise<Order> => {
+  const signature = JSON.stringify(request);
+  const pending = readPendingOrder();
+
+  if (pending) {
+    let previous: Order | null = null;
+    try {
+      ({ data: previous } = await api.getOrder(pending.orderId));
+    } catch {
+      // Deleted, or placed by another account on this device
+    }
+
+    // Paid after all; a late payment on a cancelled order is refunded instead
+    if (previous && previous.isPaid && previous.status !== 'cancelled') {
+      clearPendingOrder();
+      return previous;
+    }
+
+    if (previous && previous.status === 'pending') {
+      const reservationHeld =
+        previous.stockStatus === 'reserved' &&
+        !!previous.reservationExpiresAt &&
+        new Date(previous.reservationExpiresAt) > new Date();
+
+      if (reservationHeld && pending.request === signature) {
+        return previous;
+      }
+
+      try {
+        await api.cancelOrder(previous._id, 'Replaced by a new checkout attempt');
+      } catch {
+        // Already cancelled; otherwise its reservation runs out on its own
+      }
+    }
+
+    clearPendingOrder();
+  }
+
+  const {
+    data: { order },
+  } = await api.createOrder(request);
+  window.sessionStorage.setItem(
+    PENDING_ORDER_KEY,
+    JSON.stringify({ orderId: order._id, request: signature })
+  );
+
+  return order;
+};
+
 export const useCheckout = () => {
   const router = useRouter();
-  const { items, total, clearCart } = useCart();
+  const { items, couponCode, clearCart } = useCart();
+  const { clearSession } = useCheckoutSession();
   const [loading, setLoading] = useState(false);
+  const [stockConflicts, setStockConflicts] = useState<StockConflict[]>([]);
+
+  // Clear cart and redirect to success page
+  const completeCheckout = (order: Order) => {
+    clearPendingOrder();
+    clearCart();
+    clearSession();
+    router.push(orderConfirmationPath(order._id));
+  };
 
-  const createOrder = async (shippingAddress: {
-    address: string;
-    city: string;
-    postalCode: string;
-    country: string;
-  }) => {
+  const createOrder = async (
+    shippingAddress: ShippingAddress,
+    shippingMethod: ShippingMethod = 'standard'
+  ) => {
     try {
       setLoading(true);
+      setStockConflicts([]);
 
-      // Create order in the backend
-      const orderData = {
-        orderItems: items.map((item) => ({
-          product: item.product._id,
-          quantity: item.quantity,
-        })),
+      // Create order in the backend, or pick up the one from a failed attempt
+      const order = await placeOrReuseOrder({
+        orderItems: toCartPayload(items),
         shippingAddress,
-        paymentMethod: 'razorpay', // or 'mock' for testing
-      };
+        shippingMethod,
+        paymentMethod: 'razorpay',
+        couponCode: couponCode || undefined,
+      });
 
-      const { data: order } = await api.createOrder(orderData);
+      if (order.isPaid) {
+        completeCheckout(order);
+        return;
+      }
 
       // Initialize Razorpay
       const res = await api.initializeRazorpay();
@@ -93,11 +409,11 @@ export const useCheckout = () => {
       // Create Razorpay options
       const options = {
         key: process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID,
-        amount: order.totalPrice * 100, // Amount in smallest currency unit
+        amount: Math.round(order.totalPrice * 100), // Amount in smallest currency unit
         currency: 'INR',
         name: 'Moh-Scent',
         description: 'Payment for your order',
-        order_id: order.razorpayOrderId,
+        order_id: order.paymentOrderId,
         handler: async (response: {
           razorpay_payment_id: string;
           razorpay_order_id: string;
@@ -106,11 +422,8 @@ export const useCheckout = () => {
           try {
             // Verify payment with backend
             await api.updateOrderToPaid(order._id, response);
-            
-            // Clear cart and redirect to success page
-            clearCart();
             toast.success('Payment successful!');
-            router.push(`/orders/${order._id}`);
+            completeCheckout(order);
           } catch (error) {
             toast.error(api.handleApiError(error));
           }
@@ -129,6 +442,7 @@ export const useCheckout = () => {
       paymentObject.open();
 
     } catch (error) {
+      setStockConflicts(api.getStockConflicts(error));
       toast.error(api.handleApiError(error));
     } finally {
       setLoading(false);
@@ -153,53 +467,55 @@ export const useCheckout = () => {
     createOrder,
     processPayment,
     loading,
+    stockConflicts,
   };
 };
 
 export const useMockCheckout = () => {
   const router = useRouter();
-  const { items, total, clearCart } = useCart();
+  const { items, couponCode, clearCart } = useCart();
+  const { clearSession } = useCheckoutSession();
   const [loading, setLoading] = useState(false);
+  const [stockConflicts, setStockConflicts] = useState<StockConflict[]>([]);
 
-  const createMockOrder = async (shippingAddress: {
-    address: string;
-    city: string;
-    postalCode: string;
-    country: string;
-  }) => {
+  // Clear cart and redirect to success page
+  const completeCheckout = (order: Order) => {
+    clearPendingOrder();
+    clearCart();
+    clearSession();
+    router.push(orderConfirmationPath(order._id));
+  };
+
+  const createMockOrder = async (
+    shippingAddress: ShippingAddress,
+    shippingMethod: ShippingMethod = 'standard',
+    outcome?: MockPaymentOutcome
+  ) => {
     try {
       setLoading(true);
+      setStockConflicts([]);
 
-      // Create order with mock payment method
-      const orderData = {
-        orderItems: items.map((item) => ({
-          product: item.product._id,
-          quantity: item.quantity,
-        })),
+      // Create order with mock payment method, or retry the one from a failed attempt
+      const order = await placeOrReuseOrder({
+        orderItems: toCartPayload(items),
         shippingAddress,
+        shippingMethod,
         paymentMethod: 'mock',
-      };
+        couponCode: couponCode || undefined,
+      });
 
-      const { data: order } = await api.createOrder(orderData);
+      if (!order.isPaid) {
+        // Process mock payment on the server, then verify it like a real one
+        const { data: mockPaymentResult } = await api.processMockPayment(order._id, outcome);
 
-      // Simulate payment processing
-      await new Promise((resolve) => setTimeout(resolve, 2000));
-
-      // Process mock payment
-      const mockPaymentResult = {
-        razorpay_payment_id: `mock_${Date.now()}`,
-        razorpay_order_id: order._id,
-        razorpay_signature: 'mock_signature',
-      };
-
-      await api.updateOrderToPaid(order._id, mockPaymentResult);
+        await api.updateOrderToPaid(order._id, mockPaymentResult);
+        toast.success('Mock payment successful!');
+      }
 
-      // Clear cart and redirect to success page
-      clearCart();
-      toast.success('Mock payment successful!');
-      router.push(`/orders/${order._id}`);
+      completeCheckout(order);
 
     } catch (error) {
+      setStockConflicts(api.getStockConflicts(error));
       toast.error(api.handleApiError(error));
     } finally {
       setLoading(false);
@@ -209,5 +525,6 @@ export const useMockCheckout = () => {
   return {
     createMockOrder,
     loading,
+    stockConflicts,
   };
 };
@@ -1,21 +1,8 @@
 import useSWR from 'swr';
-import { Product } from '../types';
+import { Product, ProductListResponse, SearchFilters } from '../types';
 import * as api from '../utils/api';
 
-interface ProductsResponse {
-  data: Product[];
-  page: number;
-  pages: number;
-  total: number;
-}
-
-interface UseProductsOptions {
-  keyword?: string;
-  category?: string;
-  minPrice?: number;
-  maxPrice?: number;
-  page?: number;
-}
+type UseProductsOptions = SearchFilters;
 
 const fetcher = async (url: string) => {
   const response = await api.getProducts({
@@ -37,15 +24,13 @@ const featuredFetcher = async () => {
 };
 
 export const useProducts = (options: UseProductsOptions = {}) => {
-  const queryString = new URLSearchParams({
-    ...(options.keyword && { keyword: options.keyword }),
-    ...(options.category && { category: options.category }),
-    ...(options.minPrice && { minPrice: options.minPrice.toString() }),
-    ...(options.maxPrice && { maxPrice: options.maxPrice.toString() }),
-    ...(options.page && { page: options.page.toString() }),
-  }).toString();
-
-  const { data, error, mutate } = useSWR<ProductsResponse>(
+  const queryString = new URLSearchParams(
+    Object.entries(options)
+      .filter(([, value]) => value !== undefined && value !== '' && value !== false)
+      .map(([key, value]) => [key, String(value)])
+  ).toString();
+
+  const { data, error, mutate } = useSWR<ProductListResponse>(
     `/products?${queryString}`,
     fetcher
   );
@@ -55,6 +40,7 @@ export const useProducts = (options: UseProductsOptions = {}) => {
     page: data?.page || 1,
     pages: data?.pages || 1,
     total: data?.total || 0,
+    facets: data?.facets,
     loading: !error && !data,
     error,
     mutate,
@@ -89,6 +75,70 @@ export const useFeaturedProducts = () => {
   };
 };
 
+const productsByIdsFetcher = async (url: string) => {
+  const ids = new URLSearchParams(url.split('?')[1]).get('ids') || '';
+  return api.getProductsByIds(ids.split(','));
+};
+
+// Several products in one request, in the order given
+export const useProductsByIds = (ids: string[]) => {
+  const key = ids.join(',');
+  const { data, error } = useSWR<{ data: Product[] }>(
+    key ? `/products/batch?ids=${key}` : null,
+    productsByIdsFetcher
+  );
+
+  return {
+    products: data?.data || [],
+    loading: !!key && !error && !data,
+    error,
+  };
+};
+
+const boughtTogetherFetcher = async (url: string) => {
+  const ids = new URLSearchParams(url.split('?')[1]).get('ids') || '';
+  return api.getBoughtTogetherForProducts(ids.split(','));
+};
+
+// Products often bought with the given ones (e.g. the cart), leaving those out
+export const useBoughtTogether = (productIds: string[]) => {
+  // Sorted so reordering the cart doesn't refetch
+  const ids = Array.from(new Set(productIds)).sort().join(',');
+  const { data, error } = useSWR<{ data: Product[] }>(
+    ids ? `/products/bought-together?ids=${ids}` : null,
+    boughtTogetherFetcher
+  );
+
+  return {
+    products: data?.data || [],
+    loading: !!ids && !error && !data,
+    error,
+  };
+};
+
+const productRecommendationsFetcher = async (url: string) => {
+  const [, , id, kind] = url.split('/');
+  return kind === 'related' ? api.getRelatedProducts(id) : api.getBoughtTogether(id);
+};
+
+// "You may also like" and "frequently bought together" for a product page. Loaded in
+// the browser since the page renders fine without them.
+export const useProductRecommendations = (productId: string) => {
+  const { data: related } = useSWR<{ data: Product[] }>(
+    productId ? `/products/${productId}/related` : null,
+    productRecommendationsFetcher
+  );
+  const { data: boughtTogether } = useSWR<{ data: Product[] }>(
+    productId ? `/products/${productId}/bought-together` : null,
+    productRecommendationsFetcher
+  );
+
+  return {
+    relatedProducts: related?.data || [],
+    boughtTogether: boughtTogether?.data || [],
+  };
+};
+
 // Helper function to prefetch products
 export const prefetchProducts = async (options: UseProductsOptions = {}) => {
   return api.getProducts(options);
@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import useSWR from 'swr';
+import toast from 'react-hot-toast';
+import { PaginatedResponse, Question, QuestionActivity, QuestionFilters } from '../types';
+import * as api from '../utils/api';
+
+const productQuestionsFetcher = async ([, productId, filters]: [string, string, string]) =>
+  api.getProductQuestions(productId, JSON.parse(filters));
+
+// A product's questions and answers
+export const useProductQuestions = (productId: string, filters: QuestionFilters = {}) => {
+  const { data, error, mutate } = useSWR<PaginatedResponse<Question[]>>(
+    ['/questions', productId, JSON.stringify(filters)],
+    productQuestionsFetcher,
+    { keepPreviousData: true }
+  );
+
+  return {
+    questions: data?.data || [],
+    page: data?.page || 1,
+    pages: data?.pages || 1,
+    total: data?.total || 0,
+    loading: !error && !data,
+    error,
+    mutate,
+  };
+};
+
+export const useQuestionActivity = (productId: string, enabled: boolean) => {
+  const { data, mutate } = useSWR<{ data: QuestionActivity }>(
+    enabled ? ['/questions/mine', productId] : null,
+    ([, id]: [string, string]) => api.getMyQuestionActivity(id)
+  );
+
+  return {
+    canAnswer: data?.data.canAnswer || false,
+    upvotedAnswers: data?.data.upvotedAnswers || [],
+    mutate,
+  };
+};
+
+export const useQuestionActions = () => {
+  const [saving, setSaving] = useState(false);
+
+  // Runs `action`, reporting failures; resolves to null when it failed
+  const run = async <T>(action: () => Promise<T>, success?: string) => {
+    try {
+      setSaving(true);
+      const result = await action();
+      if (success) toast.success(success);
+      return result;
+    } catch (error) {
+      toast.error(api.handleApiError(error));
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return {
+    askQuestion: (productId: string, body: string) =>
+      run(() => api.askQuestion(productId, body), 'Your question has been posted'),
+    answerQuestion: (questionId: string, body: string) =>
+      run(() => api.answerQuestion(questionId, body), 'Thanks for answering'),
+    deleteQuestion: (questionId: string) =>
+      run(() => api.deleteQuestion(questionId), 'Question deleted'),
+    deleteAnswer: (questionId: string, answerId: string) =>
+      run(() => api.deleteAnswer(questionId, answerId), 'Answer deleted'),
+    setUpvote: (questionId: string, answerId: string, upvoted: boolean) =>
+      run(() => api.setAnswerUpvote(questionId, answerId, upvoted)),
+    saving,
+  };
+};
@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import useSWR from 'swr';
+import toast from 'react-hot-toast';
+import {
+  ProductReviewsResponse,
+  Review,
+  ReviewFilters,
+  ReviewInput,
+  ReviewStatus,
+  ReviewVotes,
+  PaginatedResponse,
+} from '../types';
+import * as api from '../utils/api';
+
+const productReviewsFetcher = async ([, productId, filters]: [string, string, string]) =>
+  api.getProductReviews(productId, JSON.parse(filters));
+
+// A product's published reviews with its rating breakdown
+export const useProductReviews = (productId: string, filters: ReviewFilters = {}) => {
+  const { data, error, mutate } = useSWR<ProductReviewsResponse>(
+    ['/reviews', productId, JSON.stringify(filters)],
+    productReviewsFetcher,
+    { keepPreviousData: true }
+  );
+
+  return {
+    reviews: data?.data || [],
+    summary: data?.summary,
+    page: data?.page || 1,
+    pages: data?.pages || 1,
+    total: data?.total || 0,
+    loading: !error && !data,
+    error,
+    mutate,
+  };
+};
+
+// The signed-in customer's own review of a product, whatever its status
+export const useMyReview = (productId: string, enabled: boolean) => {
+  const { data, error, mutate } = useSWR<{ data: Review[] }>(
+    enabled ? ['/reviews/mine', productId] : null,
+    ([, id]: [string, string]) => api.getMyReviews(id)
+  );
+
+  return {
+    review: data?.data[0],
+    loading: enabled && !error && !data,
+    mutate,
+  };
+};
+
+export const useReviewVotes = (productId: string, enabled: boolean) => {
+  const { data, mutate } = useSWR<{ data: ReviewVotes }>(
+    enabled ? ['/reviews/votes', productId] : null,
+    ([, id]: [string, string]) => api.getMyReviewVotes(id)
+  );
+
+  return {
+    votes: data?.data || {},
+    mutate,
+  };
+};
+
+// Write, edit or delete a review, uploading any new photos first
+export const useReviewEditor = () => {
+  const [saving, setSaving] = useState(false);
+
+  const saveReview = async (
+    productId: string,
+    // `photos` are already uploaded; `newPhotos` are uploaded before saving
+    input: ReviewInput & { newPhotos: File[] },
+    existing?: Review
+  ) => {
+    try {
+      setSaving(true);
+      const uploaded = await Promise.all(input.newPhotos.map(api.uploadReviewPhoto));
+      const review = {
+        rating: input.rating,
+        comment: input.comment,
+        photos: [...input.photos, ...uploaded.map(({ data }) => data.url)],
+      };
+      const response = existing
+        ? await api.updateReview(existing._id, review)
+        : await api.createReview(productId, review);
+      toast.success(response.message || 'Review saved');
+      return response.data;
+    } catch (error) {
+      toast.error(api.handleApiError(error));
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteReview = async (review: Review) => {
+    try {
+      setSaving(true);
+      await api.deleteReview(review._id);
+      toast.success('Review deleted');
+      return true;
+    } catch (error) {
+      toast.error(api.handleApiError(error));
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return {
+    saveReview,
+    deleteReview,
+    saving,
+  };
+};
+
+const moderationFetcher = async ([, status, page]: [string, ReviewStatus, number]) =>
+  api.getReviewModerationQueue(status, page);
+
+export const useReviewModeration = (status: ReviewStatus, page = 1) => {
+  const { data, error, mutate } = useSWR<PaginatedResponse<Review[]>>(
+    ['/reviews/moderation', status, page],
+    moderationFetcher,
+    { keepPreviousData: true }
+  );
+
+  const moderate = async (
+    review: Review,
+    decision: Exclude<ReviewStatus, 'pending'>,
+    note?: string
+  ) => {
+    try {
+      await api.moderateReview(review._id, decision, note);
+      toast.success(decision === 'approved' ? 'Review approved' : 'Review rejected');
+      mutate();
+    } catch (error) {
+      toast.error(api.handleApiError(error));
+    }
+  };
+
+  return {
+    reviews: data?.data || [],
+    page: data?.page || 1,
+    pages: data?.pages || 1,
+    total: data?.total || 0,
+    loading: !error && !data,
+    error,
+    moderate,
+    mutate,
+  };
+};
@@ -1,5 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useLocalStorage } from './useStorage';
+import { ProductSearchResult } from '../types';
+import * as api from '../utils/api';
 
 interface SearchOptions<T> {
   initialQuery?: string;
@@ -9,6 +11,8 @@ interface SearchOptions<T> {
   searchFn?: (query: string) => Promise<T[]>;
   cacheResults?: boolean;
   cacheTimeout?: number;
+  // Storage key for cached results; give each kind of search its own
+  cacheKey?: string;
   onSearch?: (results: T[]) => void;
   onError?: (error: Error) => void;
 }
@@ -30,6 +34,7 @@ export function useSearch<T>({
   searchFn,
   cacheResults = true,
   cacheTimeout = 5 * 60 * 1000, // 5 minutes
+  cacheKey = 'search-cache',
   onSearch,
   onError,
 }: SearchOptions<T> = {}) {
@@ -40,10 +45,7 @@ export function useSearch<T>({
   const debounceTimer = useRef<NodeJS.Timeout>();
   
   // Use local storage for caching search results
-  const [searchCache, setSearchCache] = useLocalStorage<SearchCache<T>>(
-    'search-cache',
-    {}
-  );
+  const [searchCache, setSearchCache] = useLocalStorage<SearchCache<T>>(cacheKey, {});
 
   // Clear expired cache entries
   const clearExpiredCache = useCallback(() => {
@@ -210,12 +212,31 @@ export function useSearch<T>({
   };
 }
 
+const searchProductsFn = async (query: string) => {
+  const { data } = await api.searchProducts(query);
+  return data;
+};
+
+// Relevance-ranked, typo-tolerant product search with highlighted matches
+export function useProductSearch(
+  options: Omit<SearchOptions<ProductSearchResult>, 'searchFn' | 'cacheKey'> = {}
+) {
+  return useSearch<ProductSearchResult>({
+    // Catalogue edits should show up quickly
+    cacheTimeout: 60 * 1000,
+    ...options,
+    searchFn: searchProductsFn,
+    cacheKey: 'product-search-cache',
+  });
+}
+
 // Hook for handling search suggestions
 interface UseSuggestionsOptions<T> {
   maxSuggestions?: number;
   minChars?: number;
   getSuggestions?: (query: string) => Promise<T[]>;
   onSelect?: (suggestion: T) => void;
+  cacheKey?: string;
 }
 
 export function useSuggestions<T>({
@@ -223,9 +244,9 @@ export function useSuggestions<T>({
   minChars = 1,
   getSuggestions,
   onSelect,
+  cacheKey = 'suggestions-cache',
 }: UseSuggestionsOptions<T> = {}) {
   const [suggestions, setSuggestions] = useState<T[]>([]);
-  const [loading, setLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
   const [selectedIndex, setSelectedIndex] = useState(-1);
 
@@ -234,6 +255,7 @@ export function useSuggestions<T>({
     minChars,
     maxResults: maxSuggestions,
     searchFn: getSuggestions,
+    cacheKey,
     onSearch: setSuggestions,
     onError: setError,
   });
@@ -278,7 +300,6 @@ export function useSuggestions<T>({
   return {
     ...search,
     suggestions,
-    loading,
     error,
     selectedIndex,
     handleKeyDown,
@@ -292,7 +313,48 @@ export function useSuggestions<T>({
   };
 }
 
+const MAX_RECENT_SEARCHES = 5;
+const NO_RECENT_SEARCHES: string[] = [];
+
+// The shopper's latest searches, newest first, kept in local storage
+export function useRecentSearches(max = MAX_RECENT_SEARCHES) {
+  const [recentSearches, setRecentSearches] = useLocalStorage<string[]>(
+    'recent-searches',
+    NO_RECENT_SEARCHES
+  );
+
+  const addRecentSearch = useCallback(
+    (term: string) => {
+      const trimmed = term.trim();
+      if (!trimmed) return;
+      setRecentSearches((prev) =>
+        [trimmed, ...prev.filter((entry) => entry.toLowerCase() !== trimmed.toLowerCase())].slice(
+          0,
+          max
+        )
+      );
+    },
+    [max, setRecentSearches]
+  );
+
+  const removeRecentSearch = useCallback(
+    (term: string) => setRecentSearches((prev) => prev.filter((entry) => entry !== term)),
+    [setRecentSearches]
+  );
+
+  const clearRecentSearches = useCallback(() => setRecentSearches([]), [setRecentSearches]);
+
+  return {
+    recentSearches,
+    addRecentSearch,
+    removeRecentSearch,
+    clearRecentSearches,
+  };
+}
+
 export default {
   useSearch,
+  useProductSearch,
   useSuggestions,
+  useRecentSearches,
 };
@@ -0,0 +1,26 @@
+import Link from 'next/link';
+import Layout from '../components/layout/Layout';
+import RecentlyViewed from '../components/RecentlyViewed';
+
+const NotFoundPage = () => {
+  return (
+    <Layout title="Page Not Found | Moh-Scent">
+      <div className="container-custom py-16 text-center">
+        <h1 className="text-3xl font-serif font-bold mb-8">Page not found</h1>
+        <p className="text-gray-600 dark:text-gray-400 mb-8">
+          We couldn&apos;t find what you were looking for. It may have been moved or is no
+          longer available.
+        </p>
+        <Link href="/products" className="btn btn-primary">
+          Continue Shopping
+        </Link>
+
+        <div className="mt-16 text-left empty:hidden">
+          <RecentlyViewed title="Pick Up Where You Left Off" />
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default NotFoundPage;
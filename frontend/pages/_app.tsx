@@ -1,7 +1,10 @@
 import type { AppProps } from 'next/app';
 import { ThemeProvider } from 'next-themes';
 import { CartProvider } from '../context/CartContext';
+import { RecentlyViewedProvider } from '../context/RecentlyViewedContext';
+import { CompareProvider } from '../context/CompareContext';
 import Layout from '../components/layout/Layout';
+import CompareTray from '../components/CompareTray';
 import ErrorBoundary from '../components/ErrorBoundary';
 import '../styles/globals.css';
 
@@ -10,9 +13,14 @@ export default function App({ Component, pageProps }: AppProps) {
     <ErrorBoundary>
       <ThemeProvider attribute="class">
         <CartProvider>
-          <Layout>
-            <Component {...pageProps} />
-          </Layout>
+          <RecentlyViewedProvider>
+            <CompareProvider>
+              <Layout>
+                <Component {...pageProps} />
+              </Layout>
+              <CompareTray />
+            </CompareProvider>
+          </RecentlyViewedProvider>
         </CartProvider>
       </ThemeProvider>
     </ErrorBoundary>
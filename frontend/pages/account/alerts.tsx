@@ -0,0 +1,124 @@
+import { NextPage } from 'next';
+import Link from 'next/link';
+import Layout from '../../components/layout/Layout';
+import { useProductAlerts } from '../../hooks/useAlerts';
+import { ProductAlert } from '../../types';
+import { formatPrice } from '../../utils/api';
+import { describeVariant, findVariant } from '../../utils/cart';
+
+// A variant alert goes by that variant's stock
+const alertStock = (alert: ProductAlert) =>
+  findVariant(alert.product, alert.variant)?.stock ?? alert.product.stock;
+
+const describeAlert = (alert: ProductAlert) => {
+  if (alert.type === 'back_in_stock') {
+    const label = describeVariant(alert.product, findVariant(alert.product, alert.variant));
+    if (alert.active) {
+      return label
+        ? `Email me when ${label} is back in stock`
+        : "Email me when it's back in stock";
+    }
+    return alert.lastNotifiedAt
+      ? `Back-in-stock email sent ${new Date(alert.lastNotifiedAt).toLocaleDateString()}`
+      : 'Back-in-stock email sent';
+  }
+  const watchedPrice = alert.referencePrice ?? alert.product.price;
+  return `Email me if the price drops below ${formatPrice(watchedPrice)}`;
+};
+
+const AlertsPage: NextPage = () => {
+  const { alerts, loading, error, saving, subscribe, unsubscribe } = useProductAlerts();
+
+  return (
+    <Layout title="My Alerts | Moh-Scent">
+      <div className="container-custom py-16">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          <h1 className="text-3xl font-serif font-bold">Stock &amp; Price Alerts</h1>
+          <Link href="/orders" className="text-primary-600 hover:underline">
+            My Orders
+          </Link>
+        </div>
+
+        {error ? (
+          <div className="text-center py-16">
+            <p className="text-gray-600 dark:text-gray-400 mb-8">
+              Please log in to see your alerts.
+            </p>
+            <Link href="/products" className="btn btn-primary">
+              Continue Shopping
+            </Link>
+          </div>
+        ) : loading ? (
+          <div className="flex justify-center py-16">
+            <div className="spinner spinner-light" />
+          </div>
+        ) : alerts.length === 0 ? (
+          <div className="text-center py-16">
+            <p className="text-gray-600 dark:text-gray-400 mb-8">
+              You don&apos;t have any alerts. Set one from a product page to hear when it&apos;s
+              restocked or cheaper.
+            </p>
+            <Link href="/products" className="btn btn-primary">
+              Browse Candles
+            </Link>
+          </div>
+        ) : (
+          <ul className="space-y-4">
+            {alerts.map((alert) => (
+              <li key={alert._id} className="card p-4 flex items-center gap-4">
+                <Link href={`/products/${alert.product._id}`} className="shrink-0">
+                  <img
+                    src={alert.product.images[0]}
+                    alt={alert.product.name}
+                    className="w-16 h-16 object-cover rounded-md"
+                  />
+                </Link>
+                <div className="flex-1 min-w-0">
+                  <Link
+                    href={`/products/${alert.product._id}`}
+                    className="font-semibold hover:text-primary-600"
+                  >
+                    {alert.product.name}
+                  </Link>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    {describeAlert(alert)}
+                  </p>
+                  <p className="text-sm">
+                    {formatPrice(alert.product.price)} ·{' '}
+                    {alertStock(alert) > 0 ? (
+                      <span className="text-green-600">In stock</span>
+                    ) : (
+                      <span className="text-red-600">Out of stock</span>
+                    )}
+                  </p>
+                </div>
+                <div className="flex flex-col items-end gap-2 text-sm">
+                  {!alert.active && alertStock(alert) === 0 && (
+                    <button
+                      onClick={() =>
+                        subscribe(alert.product._id, alert.type, alert.variant ?? undefined)
+                      }
+                      disabled={saving}
+                      className="text-primary-600 hover:underline disabled:opacity-50"
+                    >
+                      Alert me again
+                    </button>
+                  )}
+                  <button
+                    onClick={() => unsubscribe(alert)}
+                    disabled={saving}
+                    className="text-red-600 hover:underline disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default AlertsPage;
@@ -0,0 +1,188 @@
+import { useState } from 'react';
+import { NextPage } from 'next';
+import Link from 'next/link';
+import { CheckCircleIcon } from '@heroicons/react/24/outline';
+import Layout from '../../components/layout/Layout';
+import { RatingStars } from '../../components/ProductReviews';
+import { useReviewModeration } from '../../hooks/useReviews';
+import { Review, ReviewStatus } from '../../types';
+
+const statusTabs: { value: ReviewStatus; label: string }[] = [
+  { value: 'pending', label: 'Awaiting approval' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'rejected', label: 'Rejected' },
+];
+
+const ReviewModerationPage: NextPage = () => {
+  const [status, setStatus] = useState<ReviewStatus>('pending');
+  const [page, setPage] = useState(1);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { reviews, pages, total, loading, error, moderate } = useReviewModeration(status, page);
+
+  const handleModerate = async (review: Review, decision: 'approved' | 'rejected') => {
+    setBusyId(review._id);
+    await moderate(review, decision, notes[review._id]?.trim() || undefined);
+    setBusyId(null);
+  };
+
+  return (
+    <Layout title="Review Moderation | Moh-Scent">
+      <div className="container-custom py-8">
+        <h1 className="text-3xl font-serif font-bold mb-8">Review Moderation</h1>
+
+        <div className="flex space-x-2 mb-6">
+          {statusTabs.map((tab) => (
+            <button
+              key={tab.value}
+              onClick={() => {
+                setStatus(tab.value);
+                setPage(1);
+              }}
+              className={`px-4 py-2 rounded-md text-sm ${
+                status === tab.value
+                  ? 'bg-primary-600 text-white'
+                  : 'bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {error ? (
+          <p className="text-center text-gray-600 dark:text-gray-400 py-16">
+            Please log in with an admin account to moderate reviews.
+          </p>
+        ) : loading ? (
+          <div className="flex justify-center py-16">
+            <div className="spinner spinner-light" />
+          </div>
+        ) : reviews.length === 0 ? (
+          <p className="text-center text-gray-600 dark:text-gray-400 py-16">
+            {status === 'pending' ? 'Nothing waiting for review.' : 'No reviews here yet.'}
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              {total} {total === 1 ? 'review' : 'reviews'}
+            </p>
+
+            <div className="space-y-6">
+              {reviews.map((review) => {
+                const product = typeof review.product === 'string' ? null : review.product;
+                const reviewer = typeof review.user === 'string' ? null : review.user;
+
+                return (
+                  <div key={review._id} className="card p-6">
+                    <div className="flex flex-wrap items-start justify-between gap-4 mb-3">
+                      <div className="flex items-center space-x-3">
+                        {product && (
+                          <img
+                            src={product.images[0]}
+                            alt={product.name}
+                            className="w-12 h-12 object-cover rounded-md"
+                          />
+                        )}
+                        <div>
+                          {product && (
+                            <Link
+                              href={`/products/${product._id}`}
+                              className="font-semibold hover:text-primary-600"
+                            >
+                              {product.name}
+                            </Link>
+                          )}
+                          <p className="text-sm text-gray-600 dark:text-gray-400">
+                            {review.name}
+                            {reviewer && ` · ${reviewer.email}`}
+                            {' · '}
+                            {new Date(review.updatedAt).toLocaleString()}
+                          </p>
+                        </div>
+                      </div>
+                      {review.verifiedPurchase && (
+                        <span className="flex items-center text-xs text-green-600">
+                          <CheckCircleIcon className="h-4 w-4 mr-1" />
+                          Verified purchase
+                        </span>
+                      )}
+                    </div>
+
+                    <RatingStars rating={review.rating} className="h-4 w-4" />
+                    <p className="mt-2 text-gray-700 dark:text-gray-300 whitespace-pre-line">
+                      {review.comment}
+                    </p>
+                    {review.photos.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mt-3">
+                        {review.photos.map((url) => (
+                          <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                            <img src={url} alt="" className="w-24 h-24 object-cover rounded-md" />
+                          </a>
+                        ))}
+                      </div>
+                    )}
+                    {review.moderationNote && (
+                      <p className="mt-3 text-sm text-gray-600 dark:text-gray-400">
+                        Note: {review.moderationNote}
+                      </p>
+                    )}
+
+                    <div className="flex flex-wrap items-center gap-3 mt-4">
+                      <input
+                        type="text"
+                        value={notes[review._id] || ''}
+                        onChange={(e) => setNotes({ ...notes, [review._id]: e.target.value })}
+                        placeholder="Note to the customer (optional)"
+                        className="input flex-1 min-w-[12rem]"
+                      />
+                      {review.status !== 'approved' && (
+                        <button
+                          onClick={() => handleModerate(review, 'approved')}
+                          disabled={busyId === review._id}
+                          className="btn btn-primary disabled:opacity-50"
+                        >
+                          Approve
+                        </button>
+                      )}
+                      {review.status !== 'rejected' && (
+                        <button
+                          onClick={() => handleModerate(review, 'rejected')}
+                          disabled={busyId === review._id}
+                          className="btn btn-secondary disabled:opacity-50"
+                        >
+                          Reject
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Pagination */}
+            {pages > 1 && (
+              <div className="mt-8 flex justify-center space-x-2">
+                {Array.from({ length: pages }, (_, i) => i + 1).map((pageNumber) => (
+                  <button
+                    key={pageNumber}
+                    onClick={() => setPage(pageNumber)}
+                    className={`px-4 py-2 rounded-md ${
+                      page === pageNumber
+                        ? 'bg-primary-600 text-white'
+                        : 'bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    {pageNumber}
+                  </button>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default ReviewModerationPage;
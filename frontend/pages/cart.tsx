@@ -1,47 +1,125 @@
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { NextPage } from 'next';
 import Layout from '../components/layout/Layout';
+import PriceSummary from '../components/PriceSummary';
+import BoughtTogether from '../components/BoughtTogether';
+import RecentlyViewed from '../components/RecentlyViewed';
 import { useRouter } from 'next/router';
 import { motion } from 'framer-motion';
-import { PlusIcon, MinusIcon, TrashIcon } from '@heroicons/react/24/outline';
-import { CartItem } from '../types';
+import toast from 'react-hot-toast';
+import {
+  PlusIcon,
+  MinusIcon,
+  TrashIcon,
+  ExclamationCircleIcon,
+} from '@heroicons/react/24/outline';
+import { useCart } from '../context/CartContext';
+import { useQuote } from '../hooks/useOrders';
+import { useBoughtTogether } from '../hooks/useProducts';
+import { CartChange } from '../types';
+import { formatPrice, handleApiError } from '../utils/api';
+import {
+  describeVariant,
+  getItemKey,
+  getItemImage,
+  getItemPrice,
+  getItemStock,
+  getItemVariant,
+} from '../utils/cart';
+
+const describeChange = (change: CartChange) => {
+  const name = change.name || 'An item';
+
+  switch (change.type) {
+    case 'price_changed':
+      return `${name} changed price from ${formatPrice(change.previousPrice ?? 0)} to ${formatPrice(
+        change.currentPrice ?? 0
+      )}.`;
+    case 'stock_reduced':
+      return `Only ${change.availableStock} of ${name} left in stock. Your quantity will be reduced from ${change.requestedQuantity}.`;
+    case 'out_of_stock':
+      return `${name} is out of stock and will be removed from your cart.`;
+    case 'removed':
+      return `${name} is no longer available and will be removed from your cart.`;
+    default:
+      return `${name} has changed.`;
+  }
+};
 
 const CartPage: NextPage = () => {
   const router = useRouter();
-  const [cartItems, setCartItems] = useState<CartItem[]>([]);
+  const {
+    items: cartItems,
+    total: subtotal,
+    updateQuantity: setQuantity,
+    removeItem,
+    cartChanges,
+    revalidateCart,
+    acceptCartChanges,
+    coupon,
+    couponError,
+    applyCoupon,
+    removeCoupon,
+  } = useCart();
+  const [validating, setValidating] = useState(false);
+  const [couponInput, setCouponInput] = useState('');
+  const [applyingCoupon, setApplyingCoupon] = useState(false);
+  const hasRevalidated = useRef(false);
+  const { products: boughtTogether } = useBoughtTogether(
+    cartItems.map((item) => item.product._id)
+  );
 
-  const updateQuantity = (productId: string, newQuantity: number) => {
+  // Check the stored snapshots against live product data once the cart loads
+  useEffect(() => {
+    if (hasRevalidated.current || cartItems.length === 0) return;
+    hasRevalidated.current = true;
+    revalidateCart().catch((error) => console.warn('Error revalidating cart:', error));
+  }, [cartItems.length]);
+
+  const updateQuantity = (itemKey: string, newQuantity: number) => {
     if (newQuantity < 1) return;
-    setCartItems(
-      cartItems.map((item) =>
-        item.product._id === productId
-          ? { ...item, quantity: newQuantity }
-          : item
-      )
-    );
+    setQuantity(itemKey, newQuantity);
   };
 
-  const removeItem = (productId: string) => {
-    setCartItems(cartItems.filter((item) => item.product._id !== productId));
-  };
+  // Shipping and tax depend on the address, so the cart shows the default-zone estimate
+  const { quote } = useQuote({ couponCode: coupon?.code });
 
-  const subtotal = cartItems.reduce(
-    (sum, item) => sum + item.product.price * item.quantity,
-    0
-  );
-  const shipping = subtotal > 100 ? 0 : 10;
-  const tax = subtotal * 0.15;
-  const total = subtotal + shipping + tax;
+  const handleApplyCoupon = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!couponInput.trim()) return;
+
+    try {
+      setApplyingCoupon(true);
+      const applied = await applyCoupon(couponInput.trim());
+      setCouponInput('');
+      toast.success(`Coupon ${applied.code} applied`);
+    } catch (error) {
+      toast.error(handleApiError(error));
+    } finally {
+      setApplyingCoupon(false);
+    }
+  };
 
   const handleCheckout = async () => {
     try {
-      // Implement checkout logic here
-      router.push('/checkout');
+      setValidating(true);
+      const changes = await revalidateCart();
+      // Changes have to be accepted before the customer can continue
+      if (changes.length === 0) {
+        router.push('/checkout');
+      }
     } catch (error) {
-      console.error('Checkout error:', error);
+      toast.error(handleApiError(error));
+    } finally {
+      setValidating(false);
     }
   };
 
+  const handleAcceptChanges = () => {
+    acceptCartChanges();
+    toast.success('Your cart has been updated');
+  };
+
   if (cartItems.length === 0) {
     return (
       <Layout title="Cart | Moh-Scent">
@@ -56,6 +134,10 @@ const CartPage: NextPage = () => {
           >
             Continue Shopping
           </button>
+
+          <div className="mt-16 text-left empty:hidden">
+            <RecentlyViewed />
+          </div>
         </div>
       </Layout>
     );
@@ -66,12 +148,39 @@ const CartPage: NextPage = () => {
       <div className="container-custom py-16">
         <h1 className="text-3xl font-serif font-bold mb-8">Your Cart</h1>
 
+        {/* Revalidation Changes */}
+        {cartChanges.length > 0 && (
+          <div className="mb-8 rounded-lg border border-yellow-300 bg-yellow-50 dark:bg-gray-800 dark:border-yellow-700 p-4">
+            <div className="flex items-start space-x-3">
+              <ExclamationCircleIcon className="h-6 w-6 text-yellow-500 flex-shrink-0" />
+              <div className="flex-1">
+                <h2 className="font-semibold mb-2">
+                  Some items in your cart have changed
+                </h2>
+                <ul className="list-disc pl-5 space-y-1 text-sm text-gray-700 dark:text-gray-300">
+                  {cartChanges.map((change) => (
+                    <li key={`${change.productId}-${change.variantId}-${change.type}`}>
+                      {describeChange(change)}
+                    </li>
+                  ))}
+                </ul>
+                <button
+                  onClick={handleAcceptChanges}
+                  className="btn btn-primary mt-4"
+                >
+                  Accept Changes
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Cart Items */}
           <div className="lg:col-span-2">
             {cartItems.map((item) => (
               <motion.div
-                key={item.product._id}
+                key={getItemKey(item)}
                 layout
                 initial={{ opacity: 0 }}
                 animate={{ opacity: 1 }}
@@ -79,20 +188,25 @@ const CartPage: NextPage = () => {
                 className="flex items-center space-x-4 border-b border-gray-200 dark:border-gray-700 py-4"
               >
                 <img
-                  src={item.product.images[0]}
+                  src={getItemImage(item)}
                   alt={item.product.name}
                   className="w-24 h-24 object-cover rounded-md"
                 />
                 <div className="flex-1">
                   <h3 className="text-lg font-semibold">{item.product.name}</h3>
+                  {item.variant && (
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {describeVariant(item.product, getItemVariant(item))}
+                    </p>
+                  )}
                   <p className="text-gray-600 dark:text-gray-400">
-                    ${item.product.price.toFixed(2)}
+                    {formatPrice(getItemPrice(item))}
                   </p>
                 </div>
                 <div className="flex items-center space-x-2">
                   <button
                     onClick={() =>
-                      updateQuantity(item.product._id, item.quantity - 1)
+                      updateQuantity(getItemKey(item), item.quantity - 1)
                     }
                     className="p-1 rounded-md hover:bg-gray-100 dark:hover:bg-gray-800"
                   >
@@ -101,14 +215,15 @@ const CartPage: NextPage = () => {
                   <span className="w-8 text-center">{item.quantity}</span>
                   <button
                     onClick={() =>
-                      updateQuantity(item.product._id, item.quantity + 1)
+                      updateQuantity(getItemKey(item), item.quantity + 1)
                     }
-                    className="p-1 rounded-md hover:bg-gray-100 dark:hover:bg-gray-800"
+                    disabled={item.quantity >= getItemStock(item)}
+                    className="p-1 rounded-md hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50"
                   >
                     <PlusIcon className="h-4 w-4" />
                   </button>
                   <button
-                    onClick={() => removeItem(item.product._id)}
+                    onClick={() => removeItem(getItemKey(item))}
                     className="p-1 rounded-md hover:bg-gray-100 dark:hover:bg-gray-800 text-red-500"
                   >
                     <TrashIcon className="h-4 w-4" />
@@ -122,35 +237,87 @@ const CartPage: NextPage = () => {
           <div className="lg:col-span-1">
             <div className="bg-gray-50 dark:bg-gray-800 p-6 rounded-lg">
               <h2 className="text-xl font-semibold mb-4">Order Summary</h2>
-              <div className="space-y-2">
-                <div className="flex justify-between">
-                  <span>Subtotal</span>
-                  <span>${subtotal.toFixed(2)}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span>Shipping</span>
-                  <span>${shipping.toFixed(2)}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span>Tax</span>
-                  <span>${tax.toFixed(2)}</span>
-                </div>
-                <div className="border-t border-gray-200 dark:border-gray-700 pt-2 mt-2">
-                  <div className="flex justify-between font-semibold">
-                    <span>Total</span>
-                    <span>${total.toFixed(2)}</span>
+              {quote ? (
+                <PriceSummary
+                  breakdown={quote.priceBreakdown}
+                  discountCode={quote.coupon?.code}
+                  estimated
+                />
+              ) : (
+                <div className="space-y-2">
+                  <div className="flex justify-between">
+                    <span>Subtotal</span>
+                    <span>{formatPrice(subtotal)}</span>
                   </div>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Shipping and tax are calculated at checkout.
+                  </p>
                 </div>
+              )}
+
+              {/* Coupon */}
+              <div className="mt-6">
+                {coupon ? (
+                  <div className="flex items-center justify-between text-sm">
+                    <span>
+                      <span className="font-semibold">{coupon.code}</span>
+                      {coupon.description && ` - ${coupon.description}`}
+                    </span>
+                    <button
+                      onClick={removeCoupon}
+                      className="text-red-500 hover:text-red-600"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ) : (
+                  <form onSubmit={handleApplyCoupon} className="flex space-x-2">
+                    <input
+                      type="text"
+                      value={couponInput}
+                      onChange={(e) => setCouponInput(e.target.value)}
+                      placeholder="Coupon code"
+                      className="input"
+                    />
+                    <button
+                      type="submit"
+                      disabled={applyingCoupon}
+                      className="btn btn-secondary disabled:opacity-50"
+                    >
+                      Apply
+                    </button>
+                  </form>
+                )}
+                {couponError && (
+                  <p className="form-error mt-2">{couponError}</p>
+                )}
               </div>
+
               <button
                 onClick={handleCheckout}
-                className="w-full btn btn-primary mt-6"
+                disabled={validating || cartChanges.length > 0}
+                className="w-full btn btn-primary mt-6 disabled:opacity-50"
               >
-                Proceed to Checkout
+                {validating ? 'Checking your cart...' : 'Proceed to Checkout'}
               </button>
+              {cartChanges.length > 0 && (
+                <p className="mt-2 text-sm text-gray-600 dark:text-gray-400 text-center">
+                  Review and accept the changes above to continue.
+                </p>
+              )}
             </div>
           </div>
         </div>
+
+        {boughtTogether.length > 0 && (
+          <div className="mt-16">
+            <BoughtTogether products={boughtTogether} title="Customers Also Bought" />
+          </div>
+        )}
+
+        <div className="mt-16 empty:hidden">
+          <RecentlyViewed />
+        </div>
       </div>
     </Layout>
   );
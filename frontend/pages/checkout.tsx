@@ -0,0 +1,530 @@
+import { useState, useEffect } from 'react';
+import { NextPage } from 'next';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { motion } from 'framer-motion';
+import { CheckIcon } from '@heroicons/react/24/outline';
+import Layout from '../components/layout/Layout';
+import PriceSummary from '../components/PriceSummary';
+import { useCart } from '../context/CartContext';
+import { useAuth } from '../hooks/useAuth';
+import { useForm, validationRules } from '../hooks/useForm';
+import {
+  useCheckout,
+  useMockCheckout,
+  useCheckoutSession,
+  useQuote,
+  CheckoutStep,
+} from '../hooks/useOrders';
+import { ShippingAddress, PaymentMethod, MockPaymentOutcome } from '../types';
+import { formatPrice } from '../utils/api';
+import {
+  cartItemKey,
+  getItemKey,
+  getItemImage,
+  getItemName,
+  getItemPrice,
+} from '../utils/cart';
+
+const steps: { id: CheckoutStep; label: string }[] = [
+  { id: 'shipping', label: 'Shipping Address' },
+  { id: 'delivery', label: 'Shipping Method' },
+  { id: 'payment', label: 'Payment' },
+  { id: 'review', label: 'Review' },
+];
+
+// The server only accepts test payments outside production
+const mockPaymentsEnabled = process.env.NODE_ENV !== 'production';
+
+const paymentOptions: { id: PaymentMethod; label: string; description: string }[] = [
+  {
+    id: 'razorpay',
+    label: 'Razorpay',
+    description: 'Pay securely with card, UPI or net banking.',
+  },
+  ...(mockPaymentsEnabled
+    ? [
+        {
+          id: 'mock' as const,
+          label: 'Test payment',
+          description: 'Simulated payment for testing. No money is charged.',
+        },
+      ]
+    : []),
+];
+
+const mockOutcomes: { id: MockPaymentOutcome; label: string }[] = [
+  { id: 'success', label: 'Succeed' },
+  { id: 'failure', label: 'Decline' },
+  { id: 'timeout', label: 'Time out' },
+];
+
+const addressFields: { name: keyof ShippingAddress; label: string; autoComplete: string }[] = [
+  { name: 'address', label: 'Street Address', autoComplete: 'street-address' },
+  { name: 'city', label: 'City', autoComplete: 'address-level2' },
+  { name: 'state', label: 'State / Region', autoComplete: 'address-level1' },
+  { name: 'postalCode', label: 'Postal Code', autoComplete: 'postal-code' },
+  { name: 'country', label: 'Country', autoComplete: 'country-name' },
+];
+
+interface ShippingFormProps {
+  initialValues: ShippingAddress;
+  onSubmit: (values: ShippingAddress) => void;
+}
+
+const ShippingForm = ({ initialValues, onSubmit }: ShippingFormProps) => {
+  const { values, errors, touched, handleChange, handleBlur, handleSubmit } =
+    useForm<ShippingAddress>({
+      initialValues,
+      validationRules: {
+        address: { required: true, minLength: 5 },
+        city: { required: true },
+        postalCode: { ...validationRules.postalCode, required: true },
+        country: { required: true },
+      },
+      onSubmit,
+    });
+
+  return (
+    <form onSubmit={handleSubmit} noValidate>
+      {addressFields.map((field) => (
+        <div key={field.name} className="form-group">
+          <label htmlFor={field.name} className="label">
+            {field.label}
+          </label>
+          <input
+            id={field.name}
+            name={field.name}
+            type="text"
+            autoComplete={field.autoComplete}
+            value={values[field.name] ?? ''}
+            onChange={handleChange}
+            onBlur={handleBlur}
+            className="input"
+          />
+          {touched[field.name] && errors[field.name] && (
+            <p className="form-error">{errors[field.name]}</p>
+          )}
+        </div>
+      ))}
+      <div className="flex justify-end">
+        <button type="submit" className="btn btn-primary">
+          Continue to Shipping Method
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const CheckoutPage: NextPage = () => {
+  const router = useRouter();
+  const [mounted, setMounted] = useState(false);
+  const { user, loading: authLoading } = useAuth();
+  const { items, coupon, updateQuantity, removeItem } = useCart();
+  const { session, updateSession } = useCheckoutSession();
+  const {
+    createOrder,
+    loading: razorpayLoading,
+    stockConflicts: razorpayConflicts,
+  } = useCheckout();
+  const {
+    createMockOrder,
+    loading: mockLoading,
+    stockConflicts: mockConflicts,
+  } = useMockCheckout();
+
+  // Session and cart both live in browser storage, so render after mount
+  useEffect(() => setMounted(true), []);
+
+  // Orders belong to an account, so sign in before filling anything in
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.replace(`/login?redirect=${encodeURIComponent('/checkout')}`);
+    }
+  }, [authLoading, user, router]);
+
+  const paymentMethod = mockPaymentsEnabled ? session.paymentMethod : 'razorpay';
+
+  const currentStepIndex = steps.findIndex((step) => step.id === session.step);
+  // Prices follow the address once it's entered; before that the default zone applies
+  const { quote } = useQuote({
+    shippingAddress: session.shippingAddress.country ? session.shippingAddress : undefined,
+    shippingMethod: session.shippingMethod,
+    couponCode: coupon?.code,
+  });
+  const shippingOptions = quote?.shippingOptions || [];
+  const selectedShipping = shippingOptions.find(
+    (option) => option.id === session.shippingMethod
+  );
+  const placingOrder = razorpayLoading || mockLoading;
+
+  // Conflicts stay visible until the cart line fits the available stock
+  const stockConflicts = (
+    paymentMethod === 'mock' ? mockConflicts : razorpayConflicts
+  ).filter((conflict) =>
+    items.some(
+      (item) =>
+        getItemKey(item) === cartItemKey(conflict.product, conflict.variant) &&
+        item.quantity > conflict.available
+    )
+  );
+  const conflictFor = (itemKey: string) =>
+    stockConflicts.find(
+      (conflict) => cartItemKey(conflict.product, conflict.variant) === itemKey
+    );
+
+  const applyAvailableStock = () => {
+    stockConflicts.forEach((conflict) => {
+      const itemKey = cartItemKey(conflict.product, conflict.variant);
+      if (conflict.available > 0) {
+        updateQuantity(itemKey, conflict.available);
+      } else {
+        removeItem(itemKey);
+      }
+    });
+  };
+
+  const goToStep = (step: CheckoutStep) => updateSession({ step });
+
+  const placeOrder = () => {
+    if (paymentMethod === 'mock') {
+      createMockOrder(session.shippingAddress, session.shippingMethod, session.mockOutcome);
+    } else {
+      createOrder(session.shippingAddress, session.shippingMethod);
+    }
+  };
+
+  if (!mounted || !user) {
+    return (
+      <Layout title="Checkout | Moh-Scent">
+        <div className="container-custom py-16 flex justify-center">
+          <div className="spinner spinner-light" />
+        </div>
+      </Layout>
+    );
+  }
+
+  if (items.length === 0) {
+    return (
+      <Layout title="Checkout | Moh-Scent">
+        <div className="container-custom py-16 text-center">
+          <h1 className="text-3xl font-serif font-bold mb-8">Checkout</h1>
+          <p className="text-gray-600 dark:text-gray-400 mb-8">
+            Your cart is empty
+          </p>
+          <Link href="/products" className="btn btn-primary">
+            Continue Shopping
+          </Link>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout title="Checkout | Moh-Scent">
+      <div className="container-custom py-16">
+        <h1 className="text-3xl font-serif font-bold mb-8">Checkout</h1>
+
+        {/* Step Indicator */}
+        <ol className="flex items-center mb-12">
+          {steps.map((step, index) => {
+            const isComplete = index < currentStepIndex;
+            const isCurrent = index === currentStepIndex;
+
+            return (
+              <li key={step.id} className="flex-1 flex items-center">
+                <button
+                  type="button"
+                  disabled={!isComplete}
+                  onClick={() => goToStep(step.id)}
+                  className="flex items-center space-x-2 disabled:cursor-default"
+                >
+                  <span
+                    className={`flex h-8 w-8 items-center justify-center rounded-full text-sm font-semibold ${
+                      isComplete || isCurrent
+                        ? 'bg-primary-600 text-white'
+                        : 'bg-gray-200 text-gray-600 dark:bg-gray-700 dark:text-gray-300'
+                    }`}
+                  >
+                    {isComplete ? <CheckIcon className="h-4 w-4" /> : index + 1}
+                  </span>
+                  <span
+                    className={`hidden sm:inline text-sm font-medium ${
+                      isCurrent ? 'text-primary-600' : 'text-gray-600 dark:text-gray-400'
+                    }`}
+                  >
+                    {step.label}
+                  </span>
+                </button>
+                {index < steps.length - 1 && (
+                  <div className="flex-1 mx-4 h-px bg-gray-200 dark:bg-gray-700" />
+                )}
+              </li>
+            );
+          })}
+        </ol>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <motion.div
+            key={session.step}
+            initial={{ opacity: 0, x: 20 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ duration: 0.3 }}
+            className="lg:col-span-2"
+          >
+            {session.step === 'shipping' && (
+              <ShippingForm
+                initialValues={session.shippingAddress}
+                onSubmit={(shippingAddress) =>
+                  updateSession({ shippingAddress, step: 'delivery' })
+                }
+              />
+            )}
+
+            {session.step === 'delivery' && (
+              <div className="space-y-4">
+                {!quote && (
+                  <div className="flex justify-center py-8">
+                    <div className="spinner spinner-light" />
+                  </div>
+                )}
+                {shippingOptions.map((option) => (
+                  <label
+                    key={option.id}
+                    className={`flex items-center justify-between p-4 rounded-lg border cursor-pointer ${
+                      session.shippingMethod === option.id
+                        ? 'border-primary-600 bg-primary-50 dark:bg-gray-800'
+                        : 'border-gray-200 dark:border-gray-700'
+                    }`}
+                  >
+                    <div className="flex items-center space-x-3">
+                      <input
+                        type="radio"
+                        name="shippingMethod"
+                        value={option.id}
+                        checked={session.shippingMethod === option.id}
+                        onChange={() => updateSession({ shippingMethod: option.id })}
+                      />
+                      <div>
+                        <p className="font-semibold">{option.label}</p>
+                        <p className="text-sm text-gray-600 dark:text-gray-400">
+                          {option.description}
+                        </p>
+                      </div>
+                    </div>
+                    <span className="font-semibold">
+                      {option.price === 0 ? 'Free' : formatPrice(option.price)}
+                    </span>
+                  </label>
+                ))}
+                <div className="flex justify-between">
+                  <button onClick={() => goToStep('shipping')} className="btn btn-secondary">
+                    Back
+                  </button>
+                  <button onClick={() => goToStep('payment')} className="btn btn-primary">
+                    Continue to Payment
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {session.step === 'payment' && (
+              <div className="space-y-4">
+                {paymentOptions.map((option) => (
+                  <label
+                    key={option.id}
+                    className={`flex items-center space-x-3 p-4 rounded-lg border cursor-pointer ${
+                      paymentMethod === option.id
+                        ? 'border-primary-600 bg-primary-50 dark:bg-gray-800'
+                        : 'border-gray-200 dark:border-gray-700'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="paymentMethod"
+                      value={option.id}
+                      checked={paymentMethod === option.id}
+                      onChange={() => updateSession({ paymentMethod: option.id })}
+                    />
+                    <div>
+                      <p className="font-semibold">{option.label}</p>
+                      <p className="text-sm text-gray-600 dark:text-gray-400">
+                        {option.description}
+                      </p>
+                    </div>
+                  </label>
+                ))}
+                {paymentMethod === 'mock' && (
+                  <div className="form-group">
+                    <label htmlFor="mockOutcome" className="label">
+                      Test payment result
+                    </label>
+                    <select
+                      id="mockOutcome"
+                      value={session.mockOutcome || 'success'}
+                      onChange={(e) =>
+                        updateSession({ mockOutcome: e.target.value as MockPaymentOutcome })
+                      }
+                      className="input"
+                    >
+                      {mockOutcomes.map((outcome) => (
+                        <option key={outcome.id} value={outcome.id}>
+                          {outcome.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <button onClick={() => goToStep('delivery')} className="btn btn-secondary">
+                    Back
+                  </button>
+                  <button onClick={() => goToStep('review')} className="btn btn-primary">
+                    Review Order
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {session.step === 'review' && (
+              <div className="space-y-6">
+                <section>
+                  <div className="flex justify-between items-center mb-2">
+                    <h2 className="text-lg font-semibold">Shipping Address</h2>
+                    <button
+                      onClick={() => goToStep('shipping')}
+                      className="text-sm text-primary-600 hover:text-primary-700"
+                    >
+                      Edit
+                    </button>
+                  </div>
+                  <p className="text-gray-600 dark:text-gray-400">
+                    {session.shippingAddress.address}
+                    <br />
+                    {session.shippingAddress.city}
+                    {session.shippingAddress.state && `, ${session.shippingAddress.state}`}{' '}
+                    {session.shippingAddress.postalCode}
+                    <br />
+                    {session.shippingAddress.country}
+                  </p>
+                </section>
+
+                <section>
+                  <div className="flex justify-between items-center mb-2">
+                    <h2 className="text-lg font-semibold">Shipping Method</h2>
+                    <button
+                      onClick={() => goToStep('delivery')}
+                      className="text-sm text-primary-600 hover:text-primary-700"
+                    >
+                      Edit
+                    </button>
+                  </div>
+                  <p className="text-gray-600 dark:text-gray-400">
+                    {selectedShipping
+                      ? `${selectedShipping.label} - ${selectedShipping.description}`
+                      : session.shippingMethod}
+                  </p>
+                </section>
+
+                <section>
+                  <div className="flex justify-between items-center mb-2">
+                    <h2 className="text-lg font-semibold">Payment</h2>
+                    <button
+                      onClick={() => goToStep('payment')}
+                      className="text-sm text-primary-600 hover:text-primary-700"
+                    >
+                      Edit
+                    </button>
+                  </div>
+                  <p className="text-gray-600 dark:text-gray-400">
+                    {paymentOptions.find((option) => option.id === paymentMethod)?.label}
+                  </p>
+                </section>
+
+                <section>
+                  <h2 className="text-lg font-semibold mb-2">Items</h2>
+                  {stockConflicts.length > 0 && (
+                    <div className="p-4 mb-2 rounded-lg border border-red-300 bg-red-50 dark:bg-gray-800 dark:border-red-700">
+                      <p className="text-sm mb-3">
+                        Some items sold out while you were checking out. Update your order to
+                        the quantities still available, then place it again.
+                      </p>
+                      <button onClick={applyAvailableStock} className="btn btn-secondary">
+                        Update Quantities
+                      </button>
+                    </div>
+                  )}
+                  {items.map((item) => {
+                    const itemKey = getItemKey(item);
+                    const conflict = conflictFor(itemKey);
+
+                    return (
+                      <div
+                        key={itemKey}
+                        className="flex items-center space-x-4 border-b border-gray-200 dark:border-gray-700 py-3"
+                      >
+                        <img
+                          src={getItemImage(item)}
+                          alt={item.product.name}
+                          className="w-16 h-16 object-cover rounded-md"
+                        />
+                        <div className="flex-1">
+                          <p className="font-semibold">{getItemName(item)}</p>
+                          <p className="text-sm text-gray-600 dark:text-gray-400">
+                            Qty {item.quantity}
+                          </p>
+                          {conflict && (
+                            <p className="form-error">
+                              {conflict.available > 0
+                                ? `Only ${conflict.available} left in stock`
+                                : 'Out of stock'}
+                            </p>
+                          )}
+                        </div>
+                        <span>{formatPrice(getItemPrice(item) * item.quantity)}</span>
+                      </div>
+                    );
+                  })}
+                </section>
+
+                <div className="flex justify-between">
+                  <button onClick={() => goToStep('payment')} className="btn btn-secondary">
+                    Back
+                  </button>
+                  <button
+                    onClick={placeOrder}
+                    disabled={placingOrder || stockConflicts.length > 0}
+                    className="btn btn-primary disabled:opacity-50"
+                  >
+                    {placingOrder ? 'Placing Order...' : 'Place Order & Pay'}
+                  </button>
+                </div>
+              </div>
+            )}
+          </motion.div>
+
+          {/* Order Summary */}
+          <div className="lg:col-span-1">
+            <div className="bg-gray-50 dark:bg-gray-800 p-6 rounded-lg">
+              <h2 className="text-xl font-semibold mb-4">Order Summary</h2>
+              {quote ? (
+                <PriceSummary
+                  breakdown={quote.priceBreakdown}
+                  discountCode={quote.coupon?.code}
+                  shippingLabel={selectedShipping?.label}
+                  estimated={!session.shippingAddress.country}
+                />
+              ) : (
+                <div className="flex justify-center py-4">
+                  <div className="spinner spinner-light" />
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default CheckoutPage;
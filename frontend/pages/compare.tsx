@@ -0,0 +1,233 @@
+import { useEffect, useState, ReactNode } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import Layout from '../components/layout/Layout';
+import { Product } from '../types';
+import { formatPrice } from '../utils/api';
+import { MAX_COMPARE_ITEMS, useCompare } from '../context/CompareContext';
+import { useProductsByIds } from '../hooks/useProducts';
+
+interface CompareRow {
+  label: string;
+  // Display value, also used to tell whether products differ
+  value: (product: Product) => string;
+  render?: (product: Product) => ReactNode;
+}
+
+const hasPriceRange = (product: Product) =>
+  new Set(product.variants?.map((variant) => variant.price)).size > 1;
+
+// Worked out per variant, since the cheapest variant needn't be the one that burns longest
+const describeCostPerHour = (product: Product) => {
+  const sizes = product.variants?.length ? product.variants : [product];
+  const costs = sizes
+    .filter((size) => size.burnTime > 0)
+    .map((size) => size.price / size.burnTime);
+
+  if (costs.length === 0) return '—';
+
+  const lowest = Math.min(...costs);
+  const highest = Math.max(...costs);
+  return formatPrice(lowest) === formatPrice(highest)
+    ? formatPrice(lowest)
+    : `${formatPrice(lowest)} – ${formatPrice(highest)}`;
+};
+
+const describeStock = (product: Product) => {
+  if (product.stock === 0) return 'Out of stock';
+  return product.stock <= 5 ? `Only ${product.stock} left` : 'In stock';
+};
+
+const ROWS: CompareRow[] = [
+  {
+    label: 'Price',
+    value: (product) => `${hasPriceRange(product) ? 'From ' : ''}${formatPrice(product.price)}`,
+  },
+  { label: 'Category', value: (product) => product.category },
+  { label: 'Scent', value: (product) => product.scent || '—' },
+  {
+    label: 'Dimensions',
+    value: ({ dimensions }) => `${dimensions.height} cm tall × ${dimensions.diameter} cm wide`,
+  },
+  { label: 'Burn time', value: (product) => `About ${product.burnTime} hours` },
+  {
+    label: 'Price per burn hour',
+    value: describeCostPerHour,
+  },
+  {
+    label: 'Rating',
+    value: (product) =>
+      product.numReviews > 0
+        ? `${product.rating.toFixed(1)} / 5 (${product.numReviews} reviews)`
+        : 'No reviews yet',
+  },
+  {
+    label: 'Stock',
+    value: describeStock,
+    render: (product) => (
+      <span
+        className={
+          product.stock === 0
+            ? 'text-red-600'
+            : product.stock <= 5
+            ? 'text-yellow-600'
+            : 'text-green-600'
+        }
+      >
+        {describeStock(product)}
+      </span>
+    ),
+  },
+];
+
+const parseIds = (ids: string | string[] | undefined) =>
+  Array.from(
+    new Set(
+      (Array.isArray(ids) ? ids.join(',') : ids || '')
+        .split(',')
+        .map((id) => id.trim())
+        .filter(Boolean)
+    )
+  ).slice(0, MAX_COMPARE_ITEMS);
+
+const ComparePage = () => {
+  const router = useRouter();
+  const { productIds, setCompare, removeFromCompare } = useCompare();
+  const ids = parseIds(router.query.ids);
+  const key = ids.join(',');
+  const { products, loading } = useProductsByIds(ids);
+  const [differencesOnly, setDifferencesOnly] = useState(false);
+
+  // A shared link replaces whatever was in this visitor's tray
+  useEffect(() => {
+    if (router.isReady && key) setCompare(key.split(','));
+  }, [router.isReady, key, setCompare]);
+
+  // Opened without a selection: show what's in the tray
+  useEffect(() => {
+    if (router.isReady && !key && productIds.length > 0) {
+      router.replace({ query: { ids: productIds.join(',') } }, undefined, { shallow: true });
+    }
+  }, [router, key, productIds]);
+
+  const handleRemove = (productId: string) => {
+    const remaining = ids.filter((id) => id !== productId);
+    removeFromCompare(productId);
+    router.replace(
+      { query: remaining.length > 0 ? { ids: remaining.join(',') } : {} },
+      undefined,
+      { shallow: true }
+    );
+  };
+
+  const rows = ROWS.map((row) => ({
+    ...row,
+    differs: new Set(products.map(row.value)).size > 1,
+  })).filter((row) => !differencesOnly || row.differs);
+
+  return (
+    <Layout title="Compare Candles | Moh-Scent">
+      <div className="container-custom py-8">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          <h1 className="text-3xl font-serif font-bold">Compare Candles</h1>
+          {products.length > 1 && (
+            <label className="flex items-center space-x-2 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={differencesOnly}
+                onChange={(e) => setDifferencesOnly(e.target.checked)}
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              <span>Show differences only</span>
+            </label>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600" />
+          </div>
+        ) : products.length === 0 ? (
+          <div className="text-center py-16">
+            <p className="text-gray-600 dark:text-gray-400 mb-8">
+              Tick &ldquo;Compare&rdquo; on up to {MAX_COMPARE_ITEMS} candles to see them side by
+              side.
+            </p>
+            <Link href="/products" className="btn btn-primary">
+              Browse Candles
+            </Link>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr>
+                  <th className="w-40" />
+                  {products.map((product) => (
+                    <th key={product._id} className="p-4 align-top font-normal min-w-[12rem]">
+                      <div className="relative">
+                        <button
+                          onClick={() => handleRemove(product._id)}
+                          aria-label={`Remove ${product.name} from comparison`}
+                          className="absolute top-1 right-1 p-1 rounded-full bg-white/80 dark:bg-gray-800/80 hover:bg-white"
+                        >
+                          <XMarkIcon className="h-4 w-4" />
+                        </button>
+                        <Link href={`/products/${product._id}`}>
+                          <img
+                            src={product.images[0]}
+                            alt={product.name}
+                            className="w-full aspect-square object-cover rounded-md mb-3"
+                          />
+                          <span className="font-serif font-semibold hover:text-primary-600">
+                            {product.name}
+                          </span>
+                        </Link>
+                      </div>
+                    </th>
+                  ))}
+                  {products.length < MAX_COMPARE_ITEMS && (
+                    <th className="p-4 align-middle font-normal min-w-[12rem]">
+                      <Link
+                        href="/products"
+                        className="flex items-center justify-center aspect-square rounded-md border-2 border-dashed border-gray-300 dark:border-gray-600 text-sm text-gray-600 dark:text-gray-400 hover:border-primary-600"
+                      >
+                        Add another candle
+                      </Link>
+                    </th>
+                  )}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr
+                    key={row.label}
+                    className={`border-t border-gray-200 dark:border-gray-700 ${
+                      row.differs ? 'bg-primary-50 dark:bg-primary-900/20' : ''
+                    }`}
+                  >
+                    <th className="p-4 text-sm font-semibold">{row.label}</th>
+                    {products.map((product) => (
+                      <td key={product._id} className="p-4 text-sm">
+                        {row.render ? row.render(product) : row.value(product)}
+                      </td>
+                    ))}
+                    {products.length < MAX_COMPARE_ITEMS && <td />}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {rows.length === 0 && (
+              <p className="text-center text-gray-600 dark:text-gray-400 py-8">
+                These candles match on everything we compare.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default ComparePage;
@@ -1,6 +1,7 @@
 import { NextPage } from 'next';
 import { motion } from 'framer-motion';
 import Layout from '../components/layout/Layout';
+import RecentlyViewed from '../components/RecentlyViewed';
 import Link from 'next/link';
 
 const Home: NextPage = () => {
@@ -97,6 +98,10 @@ const Home: NextPage = () => {
           </div>
         </section>
 
+        <div className="container-custom py-16 empty:hidden">
+          <RecentlyViewed />
+        </div>
+
         {/* Call to Action */}
         <section className="py-16 bg-primary-50 dark:bg-gray-800">
           <div className="container-custom text-center">
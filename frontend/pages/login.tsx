@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { NextPage } from 'next';
+import Layout from '../components/layout/Layout';
+import { useAuth } from '../hooks/useAuth';
+import { useForm, validationRules } from '../hooks/useForm';
+
+interface AuthValues {
+  name: string;
+  email: string;
+  password: string;
+}
+
+type AuthMode = 'login' | 'register';
+
+const fields: {
+  name: keyof AuthValues;
+  label: string;
+  type: string;
+  autoComplete: Record<AuthMode, string>;
+}[] = [
+  { name: 'name', label: 'Name', type: 'text', autoComplete: { login: 'name', register: 'name' } },
+  {
+    name: 'email',
+    label: 'Email',
+    type: 'email',
+    autoComplete: { login: 'email', register: 'email' },
+  },
+  {
+    name: 'password',
+    label: 'Password',
+    type: 'password',
+    autoComplete: { login: 'current-password', register: 'new-password' },
+  },
+];
+
+interface AuthFormProps {
+  mode: AuthMode;
+  loading: boolean;
+  onSubmit: (values: AuthValues) => Promise<void>;
+}
+
+const AuthForm = ({ mode, loading, onSubmit }: AuthFormProps) => {
+  const { values, errors, touched, handleChange, handleBlur, handleSubmit } =
+    useForm<AuthValues>({
+      initialValues: { name: '', email: '', password: '' },
+      validationRules: {
+        name: mode === 'register' ? { required: true } : undefined,
+        email: validationRules.email,
+        // Passwords set before the current rules still have to work for signing in
+        password: mode === 'register' ? validationRules.password : { required: true },
+      },
+      onSubmit,
+    });
+
+  return (
+    <form onSubmit={handleSubmit} noValidate>
+      {fields
+        .filter((field) => mode === 'register' || field.name !== 'name')
+        .map((field) => (
+          <div key={field.name} className="form-group">
+            <label htmlFor={field.name} className="label">
+              {field.label}
+            </label>
+            <input
+              id={field.name}
+              name={field.name}
+              type={field.type}
+              autoComplete={field.autoComplete[mode]}
+              value={values[field.name]}
+              onChange={handleChange}
+              onBlur={handleBlur}
+              className="input"
+            />
+            {touched[field.name] && errors[field.name] && (
+              <p className="form-error">{errors[field.name]}</p>
+            )}
+          </div>
+        ))}
+      <button type="submit" disabled={loading} className="btn btn-primary w-full disabled:opacity-50">
+        {mode === 'login' ? 'Sign In' : 'Create Account'}
+      </button>
+    </form>
+  );
+};
+
+// Sends the customer on to `?redirect=` once they're signed in
+const LoginPage: NextPage = () => {
+  const [mode, setMode] = useState<AuthMode>('login');
+  const { login, register, loading } = useAuth();
+
+  const handleSubmit = async ({ name, email, password }: AuthValues) => {
+    if (mode === 'login') {
+      await login(email, password);
+    } else {
+      await register(name, email, password);
+    }
+  };
+
+  return (
+    <Layout title={`${mode === 'login' ? 'Sign In' : 'Create Account'} | Moh-Scent`}>
+      <div className="container-custom py-16 max-w-md">
+        <h1 className="text-3xl font-serif font-bold mb-8 text-center">
+          {mode === 'login' ? 'Sign In' : 'Create Account'}
+        </h1>
+        <AuthForm key={mode} mode={mode} loading={loading} onSubmit={handleSubmit} />
+        <p className="mt-6 text-center text-sm text-gray-600 dark:text-gray-400">
+          {mode === 'login' ? 'New to Moh-Scent?' : 'Already have an account?'}{' '}
+          <button
+            type="button"
+            onClick={() => setMode(mode === 'login' ? 'register' : 'login')}
+            className="text-primary-600 hover:underline"
+          >
+            {mode === 'login' ? 'Create an account' : 'Sign in'}
+          </button>
+        </p>
+      </div>
+    </Layout>
+  );
+};
+
+export default LoginPage;
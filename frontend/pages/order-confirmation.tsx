@@ -0,0 +1,127 @@
+import { NextPage } from 'next';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { motion } from 'framer-motion';
+import { CheckCircleIcon } from '@heroicons/react/24/outline';
+import Layout from '../components/layout/Layout';
+import PriceSummary from '../components/PriceSummary';
+import RefundHistory from '../components/RefundHistory';
+import { useOrder } from '../hooks/useOrders';
+import { formatPrice } from '../utils/api';
+import { cartItemKey } from '../utils/cart';
+
+const OrderConfirmationPage: NextPage = () => {
+  const router = useRouter();
+  const orderId = typeof router.query.orderId === 'string' ? router.query.orderId : '';
+  const { order, loading, error } = useOrder(orderId);
+
+  if (router.isReady && (!orderId || error)) {
+    return (
+      <Layout title="Order Confirmation | Moh-Scent">
+        <div className="container-custom py-16 text-center">
+          <h1 className="text-3xl font-serif font-bold mb-8">Order not found</h1>
+          <p className="text-gray-600 dark:text-gray-400 mb-8">
+            We couldn&apos;t find the order you were looking for.
+          </p>
+          <Link href="/products" className="btn btn-primary">
+            Continue Shopping
+          </Link>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (loading || !order) {
+    return (
+      <Layout title="Order Confirmation | Moh-Scent">
+        <div className="container-custom py-16 flex justify-center">
+          <div className="spinner spinner-light" />
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout title="Order Confirmation | Moh-Scent">
+      <div className="container-custom py-16 max-w-3xl">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.4 }}
+          className="text-center mb-12"
+        >
+          <CheckCircleIcon className="h-16 w-16 text-green-500 mx-auto mb-4" />
+          <h1 className="text-3xl font-serif font-bold mb-4">
+            {order.status === 'cancelled' ? 'Order cancelled' : 'Thank you for your order!'}
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Order #{order._id}
+            {order.status === 'cancelled'
+              ? ' has been cancelled.'
+              : order.isPaid
+                ? ' has been paid and is being prepared.'
+                : ' is awaiting payment confirmation.'}
+          </p>
+        </motion.div>
+
+        <div className="bg-gray-50 dark:bg-gray-800 p-6 rounded-lg space-y-6">
+          <section>
+            <h2 className="text-lg font-semibold mb-2">Items</h2>
+            {order.orderItems.map((item) => (
+              <div
+                key={item._id || cartItemKey(item.product, item.variant)}
+                className="flex items-center space-x-4 border-b border-gray-200 dark:border-gray-700 py-3"
+              >
+                <img
+                  src={item.image}
+                  alt={item.name}
+                  className="w-16 h-16 object-cover rounded-md"
+                />
+                <div className="flex-1">
+                  <p className="font-semibold">{item.name}</p>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    {item.variantLabel && `${item.variantLabel} · `}Qty {item.quantity}
+                  </p>
+                </div>
+                <span>{formatPrice(item.price * item.quantity)}</span>
+              </div>
+            ))}
+          </section>
+
+          <section className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <h2 className="text-lg font-semibold mb-2">Shipping To</h2>
+              <p className="text-gray-600 dark:text-gray-400">
+                {order.shippingAddress.address}
+                <br />
+                {order.shippingAddress.city}
+                {order.shippingAddress.state && `, ${order.shippingAddress.state}`}{' '}
+                {order.shippingAddress.postalCode}
+                <br />
+                {order.shippingAddress.country}
+              </p>
+            </div>
+            <PriceSummary
+              breakdown={order}
+              discountCode={order.discount?.code}
+              shippingLabel={order.shippingMethod}
+            />
+          </section>
+
+          <RefundHistory refunds={order.refunds || []} />
+        </div>
+
+        <div className="mt-8 flex justify-center space-x-4">
+          <Link href={`/orders/${order._id}`} className="btn btn-secondary">
+            Track Order
+          </Link>
+          <Link href="/products" className="btn btn-primary">
+            Continue Shopping
+          </Link>
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default OrderConfirmationPage;
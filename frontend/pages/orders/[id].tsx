@@ -0,0 +1,199 @@
+import { NextPage } from 'next';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import Layout from '../../components/layout/Layout';
+import OrderStatusBadge from '../../components/OrderStatusBadge';
+import OrderTimeline from '../../components/OrderTimeline';
+import PriceSummary from '../../components/PriceSummary';
+import RefundHistory from '../../components/RefundHistory';
+import { useOrder, useCancelOrder, useInvoiceDownload } from '../../hooks/useOrders';
+import { formatPrice } from '../../utils/api';
+import { cartItemKey } from '../../utils/cart';
+
+const OrderDetailsPage: NextPage = () => {
+  const router = useRouter();
+  const orderId = typeof router.query.id === 'string' ? router.query.id : '';
+  // Poll while the order is still moving so the timeline updates on its own
+  const { order, loading, error, mutate } = useOrder(orderId, { live: true });
+  const { cancelOrder, loading: cancelling } = useCancelOrder();
+  const { downloadInvoice, loading: downloadingInvoice } = useInvoiceDownload();
+
+  const handleCancel = async () => {
+    if (!window.confirm('Cancel this order?')) return;
+    const cancelledOrder = await cancelOrder(orderId);
+    if (cancelledOrder) {
+      mutate({ success: true, data: cancelledOrder }, false);
+    }
+  };
+
+  if (router.isReady && (!orderId || error)) {
+    return (
+      <Layout title="Order | Moh-Scent">
+        <div className="container-custom py-16 text-center">
+          <h1 className="text-3xl font-serif font-bold mb-8">Order not found</h1>
+          <p className="text-gray-600 dark:text-gray-400 mb-8">
+            We couldn&apos;t find the order you were looking for.
+          </p>
+          <Link href="/products" className="btn btn-primary">
+            Continue Shopping
+          </Link>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (loading || !order) {
+    return (
+      <Layout title="Order | Moh-Scent">
+        <div className="container-custom py-16 flex justify-center">
+          <div className="spinner spinner-light" />
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout title={`Order #${order._id} | Moh-Scent`}>
+      <div className="container-custom py-16">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-serif font-bold">Order #{order._id}</h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              Placed on {new Date(order.createdAt).toLocaleDateString()}
+            </p>
+          </div>
+          <OrderStatusBadge status={order.status} />
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-2 space-y-8">
+            <section className="bg-gray-50 dark:bg-gray-800 p-6 rounded-lg">
+              <h2 className="text-lg font-semibold mb-4">Order Status</h2>
+              <OrderTimeline order={order} />
+            </section>
+
+            <section className="bg-gray-50 dark:bg-gray-800 p-6 rounded-lg">
+              <h2 className="text-lg font-semibold mb-2">Items</h2>
+              {order.orderItems.map((item) => (
+                <div
+                  key={item._id || cartItemKey(item.product, item.variant)}
+                  className="flex items-center space-x-4 border-b border-gray-200 dark:border-gray-700 py-3"
+                >
+                  <img
+                    src={item.image}
+                    alt={item.name}
+                    className="w-16 h-16 object-cover rounded-md"
+                  />
+                  <div className="flex-1">
+                    <Link
+                      href={`/products/${item.product}`}
+                      className="font-semibold hover:text-primary-600"
+                    >
+                      {item.name}
+                    </Link>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {item.variantLabel && `${item.variantLabel} · `}Qty {item.quantity}
+                    </p>
+                  </div>
+                  <span>{formatPrice(item.price * item.quantity)}</span>
+                </div>
+              ))}
+            </section>
+
+            {order.refunds && order.refunds.length > 0 && (
+              <div className="bg-gray-50 dark:bg-gray-800 p-6 rounded-lg">
+                <RefundHistory refunds={order.refunds} />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-8">
+            <section className="bg-gray-50 dark:bg-gray-800 p-6 rounded-lg">
+              <h2 className="text-lg font-semibold mb-2">Tracking</h2>
+              <p className="text-gray-600 dark:text-gray-400 capitalize">
+                {order.shippingMethod} shipping
+              </p>
+              {order.trackingNumber ? (
+                <p className="mt-2">
+                  Tracking number:{' '}
+                  <span className="font-mono font-semibold">{order.trackingNumber}</span>
+                </p>
+              ) : (
+                <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+                  A tracking number will appear here once your order ships.
+                </p>
+              )}
+              {order.deliveredAt && (
+                <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+                  Delivered on {new Date(order.deliveredAt).toLocaleDateString()}
+                </p>
+              )}
+            </section>
+
+            <section className="bg-gray-50 dark:bg-gray-800 p-6 rounded-lg">
+              <h2 className="text-lg font-semibold mb-2">Shipping To</h2>
+              <p className="text-gray-600 dark:text-gray-400">
+                {order.shippingAddress.address}
+                <br />
+                {order.shippingAddress.city}
+                {order.shippingAddress.state && `, ${order.shippingAddress.state}`}{' '}
+                {order.shippingAddress.postalCode}
+                <br />
+                {order.shippingAddress.country}
+              </p>
+            </section>
+
+            <section className="bg-gray-50 dark:bg-gray-800 p-6 rounded-lg">
+              <h2 className="text-lg font-semibold mb-4">Summary</h2>
+              <PriceSummary
+                breakdown={order}
+                discountCode={order.discount?.code}
+                shippingLabel={order.shippingMethod}
+              />
+            </section>
+
+            {order.isPaid && (
+              <section className="bg-gray-50 dark:bg-gray-800 p-6 rounded-lg">
+                <h2 className="text-lg font-semibold mb-2">Invoice</h2>
+                {order.invoice?.number && (
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                    {order.invoice.number} &middot; issued{' '}
+                    {new Date(order.invoice.issuedAt).toLocaleDateString()}
+                  </p>
+                )}
+                <div className="flex space-x-4">
+                  <button
+                    onClick={() => downloadInvoice(order, 'pdf')}
+                    disabled={downloadingInvoice}
+                    className="btn btn-primary flex-1 disabled:opacity-50"
+                  >
+                    Download PDF
+                  </button>
+                  <button
+                    onClick={() => downloadInvoice(order, 'html')}
+                    disabled={downloadingInvoice}
+                    className="btn btn-secondary flex-1 disabled:opacity-50"
+                  >
+                    Print
+                  </button>
+                </div>
+              </section>
+            )}
+
+            {['pending', 'processing'].includes(order.status) && (
+              <button
+                onClick={handleCancel}
+                disabled={cancelling}
+                className="btn btn-secondary w-full disabled:opacity-50"
+              >
+                {cancelling ? 'Cancelling...' : 'Cancel Order'}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default OrderDetailsPage;
@@ -0,0 +1,268 @@
+import { useState, useEffect } from 'react';
+import { NextPage } from 'next';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import Layout from '../../components/layout/Layout';
+import OrderStatusBadge from '../../components/OrderStatusBadge';
+import { useMyOrders, useReorder } from '../../hooks/useOrders';
+import { CartChange, Order, OrderFilters, OrderStatus } from '../../types';
+import { formatPrice } from '../../utils/api';
+import { cartItemKey } from '../../utils/cart';
+
+const statusOptions: { value: OrderStatus | ''; label: string }[] = [
+  { value: '', label: 'All orders' },
+  { value: 'pending', label: 'Pending' },
+  { value: 'processing', label: 'Processing' },
+  { value: 'shipped', label: 'Shipped' },
+  { value: 'delivered', label: 'Delivered' },
+  { value: 'cancelled', label: 'Cancelled' },
+];
+
+const describeReorderChange = (change: CartChange) => {
+  const name = change.name || 'An item';
+
+  switch (change.type) {
+    case 'price_changed':
+      return `${name} now costs ${formatPrice(change.currentPrice ?? 0)} (was ${formatPrice(
+        change.previousPrice ?? 0
+      )}).`;
+    case 'stock_reduced':
+      return `Only ${change.availableStock} of ${name} could be added.`;
+    case 'out_of_stock':
+      return `${name} is out of stock and wasn't added.`;
+    case 'removed':
+      return `${name} is no longer sold.`;
+    default:
+      return `${name} has changed.`;
+  }
+};
+
+const queryValue = (value: string | string[] | undefined) =>
+  typeof value === 'string' ? value : '';
+
+const OrdersPage: NextPage = () => {
+  const router = useRouter();
+  // Filters live in the URL so a filtered view can be bookmarked or shared
+  const filters: OrderFilters = {
+    status: (queryValue(router.query.status) as OrderStatus) || undefined,
+    from: queryValue(router.query.from) || undefined,
+    to: queryValue(router.query.to) || undefined,
+    q: queryValue(router.query.q) || undefined,
+    page: Number(router.query.page) || 1,
+  };
+  const { orders, page, pages, total, loading, error } = useMyOrders(filters);
+  const { reorder, loading: reordering } = useReorder();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [reorderChanges, setReorderChanges] = useState<Record<string, CartChange[]>>({});
+  const [reorderingId, setReorderingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSearchTerm(filters.q || '');
+  }, [filters.q]);
+
+  const updateFilters = (changes: Partial<OrderFilters>) => {
+    const next = { ...filters, page: 1, ...changes };
+    const query = Object.fromEntries(
+      Object.entries(next).filter(([key, value]) => value && !(key === 'page' && value === 1))
+    );
+    router.push({ pathname: '/orders', query }, undefined, { shallow: true });
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateFilters({ q: searchTerm.trim() || undefined });
+  };
+
+  const handleReorder = async (order: Order) => {
+    setReorderingId(order._id);
+    const changes = await reorder(order);
+    setReorderingId(null);
+    if (changes) {
+      setReorderChanges((prev) => ({ ...prev, [order._id]: changes }));
+    }
+  };
+
+  return (
+    <Layout title="My Orders | Moh-Scent">
+      <div className="container-custom py-16">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          <h1 className="text-3xl font-serif font-bold">My Orders</h1>
+          <Link href="/account/alerts" className="text-primary-600 hover:underline">
+            Stock &amp; Price Alerts
+          </Link>
+        </div>
+
+        {/* Filters */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-8">
+          <form onSubmit={handleSearch} className="md:col-span-2 relative">
+            <label htmlFor="order-search" className="sr-only">
+              Search by product
+            </label>
+            <input
+              id="order-search"
+              type="search"
+              placeholder="Search by product name"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="input pr-10"
+            />
+            <button
+              type="submit"
+              aria-label="Search"
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-primary-600"
+            >
+              <MagnifyingGlassIcon className="h-5 w-5" />
+            </button>
+          </form>
+          <select
+            aria-label="Status"
+            value={filters.status || ''}
+            onChange={(e) =>
+              updateFilters({ status: (e.target.value as OrderStatus) || undefined })
+            }
+            className="input"
+          >
+            {statusOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <div className="flex items-center space-x-2">
+            <input
+              type="date"
+              aria-label="From"
+              value={filters.from || ''}
+              max={filters.to}
+              onChange={(e) => updateFilters({ from: e.target.value || undefined })}
+              className="input"
+            />
+            <span className="text-gray-500">-</span>
+            <input
+              type="date"
+              aria-label="To"
+              value={filters.to || ''}
+              min={filters.from}
+              onChange={(e) => updateFilters({ to: e.target.value || undefined })}
+              className="input"
+            />
+          </div>
+        </div>
+
+        {error ? (
+          <div className="text-center py-16">
+            <p className="text-gray-600 dark:text-gray-400 mb-8">
+              Please log in to see your orders.
+            </p>
+            <Link href="/products" className="btn btn-primary">
+              Continue Shopping
+            </Link>
+          </div>
+        ) : loading ? (
+          <div className="flex justify-center py-16">
+            <div className="spinner spinner-light" />
+          </div>
+        ) : orders.length === 0 ? (
+          <div className="text-center py-16">
+            <p className="text-gray-600 dark:text-gray-400 mb-8">
+              {filters.status || filters.from || filters.to || filters.q
+                ? 'No orders match these filters.'
+                : "You haven't placed any orders yet."}
+            </p>
+            <Link href="/products" className="btn btn-primary">
+              Start Shopping
+            </Link>
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              {total} {total === 1 ? 'order' : 'orders'}
+            </p>
+            <div className="space-y-4">
+              {orders.map((order) => (
+                <div key={order._id} className="bg-gray-50 dark:bg-gray-800 p-6 rounded-lg">
+                  <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                    <div>
+                      <Link
+                        href={`/orders/${order._id}`}
+                        className="font-semibold hover:text-primary-600"
+                      >
+                        Order #{order._id}
+                      </Link>
+                      <p className="text-sm text-gray-600 dark:text-gray-400">
+                        {new Date(order.createdAt).toLocaleDateString()} &middot;{' '}
+                        {formatPrice(order.totalPrice)}
+                      </p>
+                    </div>
+                    <OrderStatusBadge status={order.status} />
+                  </div>
+
+                  <div className="flex flex-wrap gap-4 mb-4">
+                    {order.orderItems.map((item) => (
+                      <div key={item._id || cartItemKey(item.product, item.variant)} className="flex items-center space-x-2">
+                        <img
+                          src={item.image}
+                          alt={item.name}
+                          className="w-12 h-12 object-cover rounded-md"
+                        />
+                        <span className="text-sm">
+                          {item.name}
+                          {item.variantLabel && ` (${item.variantLabel})`} &times; {item.quantity}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+
+                  {reorderChanges[order._id]?.length > 0 && (
+                    <ul className="mb-4 p-4 rounded-lg border border-yellow-300 bg-yellow-50 dark:bg-gray-900 dark:border-yellow-700 text-sm space-y-1">
+                      {reorderChanges[order._id].map((change) => (
+                        <li key={`${change.productId}-${change.type}`}>
+                          {describeReorderChange(change)}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  <div className="flex space-x-4">
+                    <Link href={`/orders/${order._id}`} className="btn btn-secondary">
+                      View Order
+                    </Link>
+                    <button
+                      onClick={() => handleReorder(order)}
+                      disabled={reordering}
+                      className="btn btn-primary disabled:opacity-50"
+                    >
+                      {reorderingId === order._id ? 'Adding...' : 'Buy Again'}
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Pagination */}
+            {pages > 1 && (
+              <div className="mt-8 flex justify-center space-x-2">
+                {Array.from({ length: pages }, (_, i) => i + 1).map((pageNumber) => (
+                  <button
+                    key={pageNumber}
+                    onClick={() => updateFilters({ page: pageNumber })}
+                    className={`px-4 py-2 rounded-md ${
+                      page === pageNumber
+                        ? 'bg-primary-600 text-white'
+                        : 'bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    {pageNumber}
+                  </button>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default OrdersPage;
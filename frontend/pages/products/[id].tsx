@@ -1,32 +1,240 @@
+import { useState, useEffect } from 'react';
 import { GetServerSideProps } from 'next';
+import Link from 'next/link';
+import toast from 'react-hot-toast';
 import Layout from '../../components/layout/Layout';
+import BoughtTogether from '../../components/BoughtTogether';
+import SEO from '../../components/SEO';
 import ProductCard from '../../components/ProductCard';
+import ProductAlerts from '../../components/ProductAlerts';
+import ProductGallery from '../../components/ProductGallery';
+import ProductQuestions from '../../components/ProductQuestions';
+import ProductReviews, { RatingStars } from '../../components/ProductReviews';
+import QuantitySelector from '../../components/QuantitySelector';
+import ScentProfile from '../../components/ScentProfile';
+import VariantPicker from '../../components/VariantPicker';
+import { useCart } from '../../context/CartContext';
+import { useRecentlyViewed } from '../../context/RecentlyViewedContext';
+import { useProductRecommendations } from '../../hooks/useProducts';
 import { Product } from '../../types';
+import { formatPrice, serverApi } from '../../utils/api';
+import { cartItemKey, getDefaultVariant, getItemKey } from '../../utils/cart';
+import { generateProductStructuredData } from '../../utils/seo';
 import axios from 'axios';
 
 interface ProductDetailsProps {
   product: Product;
 }
 
+const getDefaultSelection = (product: Product) => {
+  const variant = getDefaultVariant(product);
+  return variant ? { ...variant.options } : {};
+};
+
 const ProductDetails: React.FC<ProductDetailsProps> = ({ product }) => {
+  const { items, addItem } = useCart();
+  const { recordView } = useRecentlyViewed();
+  const { relatedProducts, boughtTogether } = useProductRecommendations(product._id);
+  const [quantity, setQuantity] = useState(1);
+  const [selectedOptions, setSelectedOptions] = useState(() => getDefaultSelection(product));
+
+  const options = product.options || [];
+  const variants = product.variants || [];
+  const hasVariants = variants.length > 0;
+  const variant = variants.find((candidate) =>
+    options.every((option) => candidate.options[option.name] === selectedOptions[option.name])
+  );
+  const price = variant?.price ?? product.price;
+  const stock = hasVariants ? variant?.stock ?? 0 : product.stock;
+  const dimensions = variant?.dimensions ?? product.dimensions;
+  const burnTime = variant?.burnTime ?? product.burnTime;
+  const weight = variant ? variant.weight : product.weight;
+  const images = Array.from(new Set([...(variant?.images || []), ...product.images]));
+
+  // Stock already sitting in the cart can't be added again
+  const inCart =
+    items.find((item) => getItemKey(item) === cartItemKey(product._id, variant?._id))
+      ?.quantity || 0;
+  const available = Math.max(stock - inCart, 0);
+
+  useEffect(() => {
+    setQuantity(1);
+    setSelectedOptions(getDefaultSelection(product));
+    recordView(product._id);
+  }, [product._id]);
+
+  useEffect(() => {
+    setQuantity((current) => Math.min(current, Math.max(available, 1)));
+  }, [available]);
+
+  const handleAddToCart = () => {
+    if (available === 0 || (hasVariants && !variant)) return;
+    addItem(product, quantity, variant?._id);
+    toast.success(`Added ${quantity} × ${product.name} to your cart`);
+    setQuantity(1);
+  };
+
+  const specs = [
+    { label: 'Category', value: product.category },
+    ...(product.scent ? [{ label: 'Scent', value: product.scent }] : []),
+    ...(variant ? [{ label: 'SKU', value: variant.sku }] : []),
+    {
+      label: 'Dimensions',
+      value: `${dimensions.height} cm tall × ${dimensions.diameter} cm wide`,
+    },
+    { label: 'Burn time', value: `About ${burnTime} hours` },
+    ...(weight ? [{ label: 'Weight', value: `${weight} g` }] : []),
+  ];
+
   return (
-    <Layout>
+    <Layout title={`${product.name} | Moh-Scent`} description={product.description}>
+      <SEO
+        title={`${product.name} | Moh-Scent`}
+        description={product.description}
+        ogImage={product.images[0]}
+        ogType="product"
+        structuredData={generateProductStructuredData(product)}
+      />
+
       <div className="container-custom py-16">
-        <h1 className="text-4xl font-bold text-center text-primary-600 mb-6">
-          {product.name}
-        </h1>
-        <div className="flex flex-col md:flex-row items-center">
-          <img src={product.images[0]} alt={product.name} className="w-full md:w-1/2 h-64 object-cover rounded-md" />
-          <div className="md:ml-8 mt-4 md:mt-0">
-            <p className="text-lg text-gray-600 dark:text-gray-400 mb-4">
-              {product.description}
+        <nav className="text-sm text-gray-600 dark:text-gray-400 mb-8">
+          <Link href="/products" className="hover:text-primary-600">
+            Products
+          </Link>{' '}
+          /{' '}
+          <Link
+            href={{ pathname: '/products', query: { category: product.category.toLowerCase() } }}
+            className="hover:text-primary-600"
+          >
+            {product.category}
+          </Link>{' '}
+          / <span className="text-gray-900 dark:text-gray-100">{product.name}</span>
+        </nav>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-12">
+          <ProductGallery
+            key={`${product._id}-${variant?._id}`}
+            images={images}
+            name={product.name}
+          />
+
+          <div>
+            <h1 className="text-4xl font-serif font-bold mb-4">{product.name}</h1>
+
+            {product.numReviews > 0 && (
+              <a href="#reviews" className="flex items-center space-x-2 mb-4">
+                <RatingStars rating={product.rating} />
+                <span className="text-sm text-gray-600 dark:text-gray-400">
+                  {product.rating.toFixed(1)} ({product.numReviews}{' '}
+                  {product.numReviews === 1 ? 'review' : 'reviews'})
+                </span>
+              </a>
+            )}
+
+            <p className="text-2xl font-semibold text-primary-600 mb-6">
+              {formatPrice(price)}
             </p>
-            <p className="text-xl font-semibold text-primary-600 mb-4">
-              ${product.price.toFixed(2)}
+
+            <p className="text-gray-600 dark:text-gray-400 mb-8 whitespace-pre-line">
+              {product.description}
             </p>
-            <button className="btn btn-primary">Add to Cart</button>
+
+            {hasVariants && (
+              <div className="mb-6">
+                <VariantPicker
+                  options={options}
+                  variants={variants}
+                  selected={selectedOptions}
+                  onChange={setSelectedOptions}
+                />
+              </div>
+            )}
+
+            <div className="mb-8">
+              {hasVariants && !variant ? (
+                <p className="font-semibold text-red-600">This combination isn&apos;t available</p>
+              ) : stock === 0 ? (
+                <p className="font-semibold text-red-600">Out of stock</p>
+              ) : (
+                <>
+                  <p
+                    className={`mb-4 text-sm ${
+                      stock <= 5 ? 'text-yellow-600' : 'text-green-600'
+                    }`}
+                  >
+                    {stock <= 5 ? `Only ${stock} left` : 'In stock'}
+                    {inCart > 0 && ` · ${inCart} in your cart`}
+                  </p>
+                  <div className="flex items-center space-x-4">
+                    <QuantitySelector
+                      value={quantity}
+                      max={available}
+                      onChange={setQuantity}
+                      disabled={available === 0}
+                    />
+                    <button
+                      onClick={handleAddToCart}
+                      disabled={available === 0}
+                      className="btn btn-primary flex-1 disabled:opacity-50"
+                    >
+                      {available === 0 ? 'All available stock is in your cart' : 'Add to Cart'}
+                    </button>
+                  </div>
+                </>
+              )}
+              <div className="mt-4">
+                <ProductAlerts product={product} variant={variant} />
+              </div>
+            </div>
+
+            <section>
+              <h2 className="text-lg font-semibold mb-4">Details</h2>
+              <dl className="divide-y divide-gray-200 dark:divide-gray-700">
+                {specs.map((spec) => (
+                  <div key={spec.label} className="flex justify-between py-2">
+                    <dt className="text-gray-600 dark:text-gray-400">{spec.label}</dt>
+                    <dd className="font-medium">{spec.value}</dd>
+                  </div>
+                ))}
+              </dl>
+            </section>
+
+            {product.scentProfile && (
+              <div className="mt-8">
+                <ScentProfile profile={product.scentProfile} />
+              </div>
+            )}
           </div>
         </div>
+
+        {boughtTogether.length > 0 && (!hasVariants || variant) && (
+          <div className="mt-16">
+            <BoughtTogether products={boughtTogether} anchor={{ product, variant }} />
+          </div>
+        )}
+
+        <div id="reviews" className="mt-16">
+          <ProductReviews
+            productId={product._id}
+            rating={product.rating}
+            numReviews={product.numReviews}
+          />
+        </div>
+
+        <div id="questions" className="mt-16">
+          <ProductQuestions productId={product._id} />
+        </div>
+
+        {relatedProducts.length > 0 && (
+          <section className="mt-16">
+            <h2 className="text-2xl font-serif font-bold mb-6">You May Also Like</h2>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+              {relatedProducts.map((related) => (
+                <ProductCard key={related._id} product={related} />
+              ))}
+            </div>
+          </section>
+        )}
       </div>
     </Layout>
   );
@@ -34,13 +242,22 @@ const ProductDetails: React.FC<ProductDetailsProps> = ({ product }) => {
 
 export const getServerSideProps: GetServerSideProps = async (context) => {
   const { id } = context.params!;
-  const { data } = await axios.get(`${process.env.NEXT_PUBLIC_API_URL}/products/${id}`);
 
-  return {
-    props: {
-      product: data.data,
-    },
-  };
+  try {
+    // Recommendations, reviews and questions load in the browser
+    const { data } = await serverApi.get(`/products/${id}`);
+
+    return {
+      props: {
+        product: data.data,
+      },
+    };
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
+      return { notFound: true };
+    }
+    throw error;
+  }
 };
 
 export default ProductDetails;
@@ -1,11 +1,15 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { GetServerSideProps } from 'next';
 import { useRouter } from 'next/router';
+import Link from 'next/link';
 import Layout from '../../components/layout/Layout';
 import ProductGrid from '../../components/ProductGrid';
-import { Product } from '../../types';
-import axios from 'axios';
-import { motion } from 'framer-motion';
+import ProductFilters, { FilterChanges, SelectedFilters } from '../../components/ProductFilters';
+import Highlight from '../../components/Highlight';
+import { useProductSearch } from '../../hooks/useSearch';
+import { Product, ProductFacets } from '../../types';
+import { serverApi } from '../../utils/api';
+import { ParsedUrlQuery } from 'querystring';
 import { FunnelIcon, MagnifyingGlassIcon } from '@heroicons/react/24/outline';
 
 interface ProductsPageProps {
@@ -13,53 +17,105 @@ interface ProductsPageProps {
   totalProducts: number;
   currentPage: number;
   totalPages: number;
+  keyword: string;
+  facets: ProductFacets;
 }
 
+const SORT_OPTIONS = [
+  { value: '', label: 'Newest' },
+  { value: 'price-asc', label: 'Price: low to high' },
+  { value: 'price-desc', label: 'Price: high to low' },
+  { value: 'rating-desc', label: 'Top rated' },
+];
+
+const readList = (value: string | string[] | undefined) =>
+  (Array.isArray(value) ? value : [value])
+    .flatMap((entry) => entry?.split(',') ?? [])
+    .filter(Boolean);
+
+const readNumber = (value: string | string[] | undefined) => {
+  const number = Number(Array.isArray(value) ? value[0] : value);
+  return value !== undefined && value !== '' && Number.isFinite(number) ? number : undefined;
+};
+
+const readFilters = (query: ParsedUrlQuery): SelectedFilters => ({
+  category: readList(query.category).map((category) => category.toLowerCase()),
+  scent: readList(query.scent),
+  family: readList(query.family).map((family) => family.toLowerCase()),
+  note: readList(query.note).map((note) => note.toLowerCase()),
+  price: readList(query.price),
+  minPrice: readNumber(query.minPrice),
+  maxPrice: readNumber(query.maxPrice),
+  rating: readNumber(query.rating),
+  inStock: query.inStock === 'true',
+});
+
+const FILTER_PARAMS = [
+  'category',
+  'scent',
+  'family',
+  'note',
+  'price',
+  'minPrice',
+  'maxPrice',
+  'rating',
+  'inStock',
+];
+
 const ProductsPage: React.FC<ProductsPageProps> = ({
   products,
   totalProducts,
   currentPage,
   totalPages,
+  keyword,
+  facets,
 }) => {
   const router = useRouter();
-  const [searchTerm, setSearchTerm] = useState('');
+  const search = useProductSearch({ initialQuery: keyword, maxResults: 5 });
+  const [showMatches, setShowMatches] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
-  const [selectedCategory, setSelectedCategory] = useState<string>('');
-  const [priceRange, setPriceRange] = useState<{ min: number; max: number }>({
-    min: 0,
-    max: 1000,
-  });
 
-  const categories = ['All', 'Scented', 'Unscented', 'Decorative', 'Seasonal'];
+  const selectedFilters = readFilters(router.query);
+  const sort = router.query.sortBy
+    ? `${router.query.sortBy}-${router.query.sortOrder || 'desc'}`
+    : '';
+  const sortOptions = keyword
+    ? [{ value: '', label: 'Best match' }, ...SORT_OPTIONS.slice(1)]
+    : SORT_OPTIONS;
 
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
+  // Every filter lives in the URL; changing one starts again from page one
+  const updateQuery = (changes: FilterChanges) => {
+    const query = { ...router.query, ...changes, page: undefined };
     router.push({
       pathname: '/products',
-      query: { ...router.query, keyword: searchTerm },
+      query: Object.fromEntries(
+        Object.entries(query).filter(([, value]) => value !== undefined && value !== '')
+      ),
     });
   };
 
-  const handleCategoryChange = (category: string) => {
-    setSelectedCategory(category);
-    router.push({
-      pathname: '/products',
-      query: {
-        ...router.query,
-        category: category === 'All' ? undefined : category.toLowerCase(),
-      },
-    });
+  const clearFilters = () =>
+    updateQuery(Object.fromEntries(FILTER_PARAMS.map((param) => [param, undefined])));
+
+  const handleSortChange = (value: string) => {
+    const [sortBy, sortOrder] = value ? value.split('-') : [];
+    updateQuery({ sortBy, sortOrder });
   };
 
-  const handlePriceChange = () => {
-    router.push({
-      pathname: '/products',
-      query: {
-        ...router.query,
-        minPrice: priceRange.min,
-        maxPrice: priceRange.max,
-      },
-    });
+  // Keep the box in sync when navigating between searches. The setter changes whenever
+  // the search cache does, so it's read through a ref to only react to the keyword.
+  const setSearchQuery = useRef(search.setQuery);
+  setSearchQuery.current = search.setQuery;
+
+  useEffect(() => {
+    setSearchQuery.current(keyword);
+    setShowMatches(false);
+  }, [keyword]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setShowMatches(false);
+    updateQuery({ keyword: search.query.trim() || undefined });
   };
 
   return (
@@ -71,142 +127,137 @@ const ProductsPage: React.FC<ProductsPageProps> = ({
             Our Products
           </h1>
           <div className="flex items-center space-x-4 w-full md:w-auto">
-            <form onSubmit={handleSearch} className="flex-1 md:w-64">
+            <form onSubmit={handleSearch} className="flex-1 md:w-80">
               <div className="relative">
                 <input
-                  type="text"
+                  type="search"
                   placeholder="Search products..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
+                  value={search.query}
+                  onChange={(e) => {
+                    search.setQuery(e.target.value);
+                    setShowMatches(true);
+                  }}
+                  onFocus={() => setShowMatches(true)}
+                  // Let clicks on a match land before the list closes
+                  onBlur={() => setTimeout(() => setShowMatches(false), 150)}
                   className="w-full pl-10 pr-4 py-2 rounded-md border border-gray-300 focus:ring-primary-500 focus:border-primary-500"
                 />
                 <MagnifyingGlassIcon className="h-5 w-5 text-gray-400 absolute left-3 top-1/2 transform -translate-y-1/2" />
+
+                {showMatches && search.query.trim() !== keyword && search.results.length > 0 && (
+                  <ul className="absolute z-20 mt-1 w-full rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-lg divide-y divide-gray-100 dark:divide-gray-700">
+                    {search.results.map(({ product, highlights }) => (
+                      <li key={product._id}>
+                        <Link
+                          href={`/products/${product._id}`}
+                          className="block px-4 py-2 hover:bg-gray-50 dark:hover:bg-gray-700"
+                        >
+                          <span className="block font-medium">
+                            <Highlight segments={highlights.name} />
+                          </span>
+                          {highlights.snippet.some((segment) => segment.match) && (
+                            <span className="block text-xs text-gray-600 dark:text-gray-400 line-clamp-2">
+                              <Highlight segments={highlights.snippet} />
+                            </span>
+                          )}
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
             </form>
             <button
               onClick={() => setShowFilters(!showFilters)}
-              className="p-2 rounded-md border border-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+              aria-expanded={showFilters}
+              aria-label="Toggle filters"
+              className="md:hidden p-2 rounded-md border border-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
             >
               <FunnelIcon className="h-5 w-5" />
             </button>
           </div>
         </div>
 
-        {/* Filters */}
-        <motion.div
-          initial={false}
-          animate={{ height: showFilters ? 'auto' : 0 }}
-          transition={{ duration: 0.3 }}
-          className="overflow-hidden mb-8"
-        >
-          <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-md">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {/* Categories */}
-              <div>
-                <h3 className="font-semibold mb-2">Categories</h3>
-                <div className="flex flex-wrap gap-2">
-                  {categories.map((category) => (
-                    <button
-                      key={category}
-                      onClick={() => handleCategoryChange(category)}
-                      className={`px-3 py-1 rounded-full text-sm ${
-                        selectedCategory === category
-                          ? 'bg-primary-600 text-white'
-                          : 'bg-white dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600'
-                      }`}
-                    >
-                      {category}
-                    </button>
+        <div className="flex flex-col md:flex-row gap-8">
+          {/* Facets */}
+          <aside className={`md:w-64 md:shrink-0 ${showFilters ? '' : 'hidden md:block'}`}>
+            <ProductFilters
+              facets={facets}
+              selected={selectedFilters}
+              onChange={updateQuery}
+              onClear={clearFilters}
+            />
+          </aside>
+
+          <div className="flex-1">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+              <p className="text-gray-600 dark:text-gray-400">
+                {totalProducts} {totalProducts === 1 ? 'product' : 'products'}
+                {keyword && <> for &ldquo;{keyword}&rdquo;</>}
+              </p>
+              <label className="flex items-center space-x-2 text-sm">
+                <span>Sort by</span>
+                <select
+                  value={sort}
+                  onChange={(e) => handleSortChange(e.target.value)}
+                  className="rounded-md border border-gray-300 py-1 dark:bg-gray-800"
+                >
+                  {sortOptions.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
                   ))}
-                </div>
-              </div>
+                </select>
+              </label>
+            </div>
 
-              {/* Price Range */}
-              <div>
-                <h3 className="font-semibold mb-2">Price Range</h3>
-                <div className="flex items-center space-x-4">
-                  <input
-                    type="number"
-                    value={priceRange.min}
-                    onChange={(e) =>
-                      setPriceRange({ ...priceRange, min: Number(e.target.value) })
-                    }
-                    className="w-24 px-2 py-1 rounded-md border border-gray-300"
-                    placeholder="Min"
-                  />
-                  <span>to</span>
-                  <input
-                    type="number"
-                    value={priceRange.max}
-                    onChange={(e) =>
-                      setPriceRange({ ...priceRange, max: Number(e.target.value) })
-                    }
-                    className="w-24 px-2 py-1 rounded-md border border-gray-300"
-                    placeholder="Max"
-                  />
+            {products.length === 0 ? (
+              <p className="py-16 text-center text-gray-600 dark:text-gray-400">
+                No products match these filters.
+              </p>
+            ) : (
+              <ProductGrid products={products} />
+            )}
+            {/* Pagination */}
+            {totalPages > 1 && (
+              <div className="mt-8 flex justify-center space-x-2">
+                {Array.from({ length: totalPages }, (_, i) => i + 1).map((page) => (
                   <button
-                    onClick={handlePriceChange}
-                    className="btn btn-primary"
+                    key={page}
+                    onClick={() =>
+                      router.push({
+                        pathname: '/products',
+                        query: { ...router.query, page },
+                      })
+                    }
+                    className={`px-4 py-2 rounded-md ${
+                      currentPage === page
+                        ? 'bg-primary-600 text-white'
+                        : 'bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700'
+                    }`}
                   >
-                    Apply
+                    {page}
                   </button>
-                </div>
+                ))}
               </div>
-            </div>
+            )}
           </div>
-        </motion.div>
-
-        {/* Product Grid */}
-        <ProductGrid products={products} />
-
-        {/* Pagination */}
-        {totalPages > 1 && (
-          <div className="mt-8 flex justify-center space-x-2">
-            {Array.from({ length: totalPages }, (_, i) => i + 1).map((page) => (
-              <button
-                key={page}
-                onClick={() =>
-                  router.push({
-                    pathname: '/products',
-                    query: { ...router.query, page },
-                  })
-                }
-                className={`px-4 py-2 rounded-md ${
-                  currentPage === page
-                    ? 'bg-primary-600 text-white'
-                    : 'bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700'
-                }`}
-              >
-                {page}
-              </button>
-            ))}
-          </div>
-        )}
+        </div>
       </div>
     </Layout>
   );
 };
 
 export const getServerSideProps: GetServerSideProps = async ({ query }) => {
-  const {
-    keyword = '',
-    category = '',
-    minPrice,
-    maxPrice,
-    page = 1,
-  } = query;
-
-  const queryParams = new URLSearchParams({
-    ...(keyword && { keyword: String(keyword) }),
-    ...(category && { category: String(category) }),
-    ...(minPrice && { minPrice: String(minPrice) }),
-    ...(maxPrice && { maxPrice: String(maxPrice) }),
-    page: String(page),
+  // Filters, sorting and paging are passed straight through to the API
+  const queryParams = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    (Array.isArray(value) ? value : [value]).forEach((entry) => {
+      if (entry) queryParams.append(key, entry);
+    });
   });
 
-  const { data } = await axios.get(
-    `${process.env.NEXT_PUBLIC_API_URL}/products?${queryParams}`
-  );
+  const { data } = await serverApi.get(`/products?${queryParams}`);
 
   return {
     props: {
@@ -214,6 +265,8 @@ export const getServerSideProps: GetServerSideProps = async ({ query }) => {
       totalProducts: data.total,
       currentPage: data.page,
       totalPages: data.pages,
+      keyword: String(query.keyword || ''),
+      facets: data.facets,
     },
   };
 };
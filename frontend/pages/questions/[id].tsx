@@ -0,0 +1,106 @@
+import { GetServerSideProps } from 'next';
+import Link from 'next/link';
+import { CheckCircleIcon } from '@heroicons/react/24/outline';
+import Layout from '../../components/layout/Layout';
+import SEO from '../../components/SEO';
+import { Product, Question } from '../../types';
+import { serverApi } from '../../utils/api';
+import { generateCanonicalUrl, generateQAPageStructuredData } from '../../utils/seo';
+import axios from 'axios';
+
+interface QuestionPageProps {
+  question: Question;
+  product: Pick<Product, '_id' | 'name'>;
+}
+
+// A single product question with its answers, so each one can be linked to and
+// described to search engines on its own
+const QuestionPage: React.FC<QuestionPageProps> = ({ question, product }) => {
+  const url = generateCanonicalUrl(`/questions/${question._id}`);
+
+  return (
+    <Layout title={`${question.body} | ${product.name} | Moh-Scent`} description={question.body}>
+      <SEO
+        title={`${question.body} | ${product.name} | Moh-Scent`}
+        description={question.body}
+        structuredData={
+          question.answers.length > 0 ? generateQAPageStructuredData(question, url) : undefined
+        }
+      />
+
+      <div className="container-custom py-16 max-w-3xl">
+        <nav className="text-sm text-gray-600 dark:text-gray-400 mb-8">
+          <Link href={`/products/${product._id}`} className="hover:text-primary-600">
+            {product.name}
+          </Link>{' '}
+          /{' '}
+          <Link href={`/products/${product._id}#questions`} className="hover:text-primary-600">
+            Questions &amp; Answers
+          </Link>
+        </nav>
+
+        <h1 className="text-2xl font-serif font-bold">Q: {question.body}</h1>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mt-1 mb-8">
+          Asked by {question.name} on {new Date(question.createdAt).toLocaleDateString()}
+        </p>
+
+        {question.answers.length > 0 ? (
+          <ul className="space-y-6">
+            {question.answers.map((answer) => (
+              <li key={answer._id} className="pl-4 border-l-2 border-gray-200 dark:border-gray-700">
+                <p className="text-gray-700 dark:text-gray-300 whitespace-pre-line">
+                  {answer.body}
+                </p>
+                <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1 text-sm text-gray-600 dark:text-gray-400">
+                  <span>
+                    {answer.name} · {new Date(answer.createdAt).toLocaleDateString()}
+                  </span>
+                  {answer.isStaff ? (
+                    <span className="text-primary-600">Moh-Scent team</span>
+                  ) : (
+                    answer.verifiedBuyer && (
+                      <span className="flex items-center text-green-600">
+                        <CheckCircleIcon className="h-4 w-4 mr-1" />
+                        Verified buyer
+                      </span>
+                    )
+                  )}
+                  <span>{answer.upvoteCount} found this helpful</span>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-gray-600 dark:text-gray-400">No answers yet.</p>
+        )}
+
+        <Link href={`/products/${product._id}#questions`} className="btn btn-secondary mt-10">
+          See all questions about {product.name}
+        </Link>
+      </div>
+    </Layout>
+  );
+};
+
+export const getServerSideProps: GetServerSideProps = async (context) => {
+  const { id } = context.params!;
+
+  try {
+    const { data: question } = await serverApi.get(`/questions/${id}`);
+    const { data: product } = await serverApi.get(`/products/${question.data.product}`);
+
+    return {
+      props: {
+        question: question.data,
+        product: { _id: product.data._id, name: product.data.name },
+      },
+    };
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
+      return { notFound: true };
+    }
+    throw error;
+  }
+};
+
+export default QuestionPage;
@@ -18,4 +18,5 @@ declare module '@heroicons/react/24/outline' {
   export const HeartIcon: ComponentType<SVGProps<SVGSVGElement>>;
   export const ExclamationCircleIcon: ComponentType<SVGProps<SVGSVGElement>>;
   export const CheckCircleIcon: ComponentType<SVGProps<SVGSVGElement>>;
+  export const CheckIcon: ComponentType<SVGProps<SVGSVGElement>>;
 }
@@ -14,6 +14,7 @@ export interface Product {
   images: string[];
   category: 'Scented' | 'Unscented' | 'Decorative' | 'Seasonal';
   scent?: string;
+  scentProfile?: ScentProfile;
   stock: number;
   rating: number;
   numReviews: number;
@@ -23,16 +24,181 @@ export interface Product {
     diameter: number;
   };
   burnTime: number;
-  reviews: Review[];
+  weight?: number;
+  options?: ProductOption[];
+  variants?: ProductVariant[];
   createdAt: string;
+  // Present on keyword search results
+  highlights?: SearchHighlights;
 }
 
+export type ScentFamily =
+  | 'floral'
+  | 'woody'
+  | 'gourmand'
+  | 'citrus'
+  | 'fresh'
+  | 'herbal'
+  | 'spicy'
+  | 'amber'
+  | 'fruity';
+
+export type ScentIntensity = 'light' | 'moderate' | 'strong';
+
+// Notes are lowercase; top notes come through first, base notes linger
+export interface ScentProfile {
+  families: ScentFamily[];
+  notes: {
+    top?: string[];
+    heart?: string[];
+    base?: string[];
+  };
+  intensity?: ScentIntensity;
+}
+
+// A run of text, flagged when it matched the search query
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchHighlights {
+  name: HighlightSegment[];
+  snippet: HighlightSegment[];
+}
+
+export interface ProductSearchResult {
+  product: Pick<
+    Product,
+    '_id' | 'name' | 'description' | 'price' | 'images' | 'category' | 'scent' | 'stock'
+  >;
+  score: number;
+  highlights: SearchHighlights;
+}
+
+// An option axis such as size, wax or vessel
+export interface ProductOption {
+  name: string;
+  values: string[];
+}
+
+// One sellable combination of option values, with its own price and stock
+export interface ProductVariant {
+  _id: string;
+  sku: string;
+  options: Record<string, string>;
+  price: number;
+  stock: number;
+  dimensions: {
+    height: number;
+    diameter: number;
+  };
+  burnTime: number;
+  weight?: number;
+  images?: string[];
+}
+
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+export type ReviewSort = 'helpful' | 'newest' | 'highest' | 'lowest';
+
 export interface Review {
   _id: string;
-  user: string;
+  // Populated on the customer's own reviews and in the moderation queue
+  product: string | Pick<Product, '_id' | 'name' | 'images'>;
+  user: string | Pick<User, '_id' | 'name' | 'email'>;
   name: string;
   rating: number;
   comment: string;
+  photos: string[];
+  verifiedPurchase: boolean;
+  status: ReviewStatus;
+  moderationNote?: string;
+  helpfulCount: number;
+  unhelpfulCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReviewInput {
+  rating: number;
+  comment: string;
+  photos: string[];
+}
+
+export interface ReviewFilters {
+  sort?: ReviewSort;
+  rating?: number;
+  page?: number;
+}
+
+export interface ReviewSummary {
+  rating: number;
+  numReviews: number;
+  // 5 stars down to 1
+  distribution: { stars: number; count: number }[];
+}
+
+export interface ProductReviewsResponse extends PaginatedResponse<Review[]> {
+  summary: ReviewSummary;
+}
+
+// The signed-in customer's votes by review ID: true helpful, false unhelpful
+export type ReviewVotes = Record<string, boolean>;
+
+export interface ReviewVoteResult {
+  helpfulCount: number;
+  unhelpfulCount: number;
+  vote: boolean | null;
+}
+
+export interface Answer {
+  _id: string;
+  user: string;
+  name: string;
+  body: string;
+  isStaff: boolean;
+  verifiedBuyer: boolean;
+  upvoteCount: number;
+  createdAt: string;
+}
+
+export interface Question {
+  _id: string;
+  product: string;
+  user: string;
+  name: string;
+  body: string;
+  // Most upvoted first
+  answers: Answer[];
+  answerCount: number;
+  createdAt: string;
+}
+
+export interface QuestionFilters {
+  q?: string;
+  page?: number;
+}
+
+// What the signed-in customer can do in a product's Q&A
+export interface QuestionActivity {
+  canAnswer: boolean;
+  upvotedAnswers: string[];
+}
+
+export type ProductAlertType = 'back_in_stock' | 'price_drop';
+
+export interface ProductAlert {
+  _id: string;
+  product: Pick<Product, '_id' | 'name' | 'images' | 'price' | 'stock' | 'options' | 'variants'>;
+  type: ProductAlertType;
+  // Back-in-stock alerts can watch a single variant
+  variant?: string | null;
+  // Price drops are measured against this
+  referencePrice?: number;
+  // Back-in-stock alerts switch off once sent
+  active: boolean;
+  lastNotifiedAt?: string;
   createdAt: string;
 }
 
@@ -49,20 +215,185 @@ export interface User {
 
 export interface CartItem {
   product: Product;
+  // The chosen variant's ID, for products sold in variants
+  variant?: string;
   quantity: number;
 }
 
-export interface Order {
+// A cart line as the API receives it
+export interface CartLine {
+  product: string;
+  variant?: string;
+  quantity: number;
+}
+
+export interface RecentlyViewedItem {
+  product: string;
+  viewedAt: string;
+}
+
+export interface RecentlyViewedHistory {
+  items: RecentlyViewedItem[];
+}
+
+export type CartChangeType = 'price_changed' | 'stock_reduced' | 'out_of_stock' | 'removed';
+
+export interface CartChange {
+  productId: string;
+  variantId?: string;
+  name?: string;
+  type: CartChangeType;
+  previousPrice?: number;
+  currentPrice?: number;
+  requestedQuantity?: number;
+  availableStock?: number;
+}
+
+export interface CartValidation {
+  items: CartItem[];
+  changes: CartChange[];
+}
+
+export interface OrderItem {
+  _id?: string;
+  product: string;
+  variant?: string;
+  sku?: string;
+  variantLabel?: string;
+  name: string;
+  image: string;
+  price: number;
+  quantity: number;
+}
+
+export interface PriceBreakdown {
+  itemsPrice: number;
+  discountPrice: number;
+  taxPrice: number;
+  shippingPrice: number;
+  totalPrice: number;
+  taxRate?: number;
+  taxInclusive?: boolean;
+}
+
+export interface ShippingAddress {
+  address: string;
+  city: string;
+  state?: string;
+  postalCode: string;
+  country: string;
+}
+
+export type CouponType = 'percentage' | 'fixed' | 'free_shipping' | 'buy_x_get_y';
+
+export interface AppliedDiscount {
+  code: string;
+  type: CouponType;
+  description?: string;
+  amount: number;
+}
+
+export interface CouponQuote {
+  code: string;
+  type: CouponType;
+  description?: string;
+  discount: number;
+  priceBreakdown: PriceBreakdown;
+}
+
+export type ShippingMethod = 'standard' | 'express';
+
+export type PaymentMethod = 'razorpay' | 'mock';
+
+// Forced result of a mock payment, for QA
+export type MockPaymentOutcome = 'success' | 'failure' | 'timeout';
+
+export type OrderStatus = 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+
+export interface OrderFilters {
+  status?: OrderStatus;
+  from?: string;
+  to?: string;
+  q?: string;
+  page?: number;
+}
+
+export type StatusEventType =
+  | 'placed'
+  | 'paid'
+  | 'status_changed'
+  | 'delivered'
+  | 'cancelled'
+  | 'expired';
+
+export interface StatusEvent {
+  _id: string;
+  event: StatusEventType;
+  status: OrderStatus;
+  note?: string;
+  actor: 'customer' | 'admin' | 'system';
+  createdAt: string;
+}
+
+export type RefundStatus = 'pending' | 'processed' | 'failed';
+
+export interface Refund {
+  _id: string;
+  refundId?: string;
+  amount: number;
+  reason?: string;
+  status: RefundStatus;
+  createdAt: string;
+}
+
+// A line the server couldn't reserve stock for when placing an order
+export interface StockConflict {
+  product: string;
+  variant?: string;
+  name: string;
+  requested: number;
+  available: number;
+}
+
+export interface ShippingOption {
+  id: ShippingMethod;
+  label: string;
+  description: string;
+  price: number;
+}
+
+export interface Quote {
+  priceBreakdown: PriceBreakdown;
+  shippingOptions: ShippingOption[];
+  coupon: Omit<AppliedDiscount, 'amount'> | null;
+  couponError?: string;
+}
+
+export interface InvoiceTaxLine {
+  name: string;
+  rate: number;
+  amount: number;
+}
+
+export interface Invoice {
+  number: string;
+  issuedAt: string;
+  placeOfSupply: string;
+  taxableValue: number;
+  taxLines: InvoiceTaxLine[];
+}
+
+export type InvoiceFormat = 'html' | 'pdf';
+
+export interface Order extends PriceBreakdown {
   _id: string;
   user: User;
-  orderItems: CartItem[];
-  shippingAddress: {
-    address: string;
-    city: string;
-    postalCode: string;
-    country: string;
-  };
-  paymentMethod: 'razorpay' | 'mock';
+  orderItems: OrderItem[];
+  shippingAddress: ShippingAddress;
+  shippingMethod: ShippingMethod;
+  paymentMethod: PaymentMethod;
+  paymentOrderId?: string;
+  discount?: AppliedDiscount;
   paymentResult?: {
     razorpay_payment_id: string;
     razorpay_order_id: string;
@@ -70,19 +401,36 @@ export interface Order {
     status: string;
     email_address: string;
   };
-  itemsPrice: number;
-  taxPrice: number;
-  shippingPrice: number;
-  totalPrice: number;
   isPaid: boolean;
   paidAt?: string;
   isDelivered: boolean;
   deliveredAt?: string;
-  status: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+  status: OrderStatus;
   trackingNumber?: string;
+  stockStatus: 'reserved' | 'committed' | 'released';
+  reservationExpiresAt?: string;
+  cancelledAt?: string;
+  cancelReason?: string;
+  refunds: Refund[];
+  refundedAmount: number;
+  statusHistory: StatusEvent[];
+  invoice?: Invoice;
   createdAt: string;
 }
 
+export interface PaymentOrder {
+  id: string;
+  amount: number;
+  currency: string;
+  mock?: boolean;
+}
+
+export interface CreateOrderResponse {
+  order: Order;
+  paymentOrder: PaymentOrder;
+  priceBreakdown: PriceBreakdown;
+}
+
 export interface ProductStructuredData {
   _id: string;
   name: string;
@@ -158,18 +506,61 @@ export interface PaginatedResponse<T> extends ApiResponse<T> {
   total: number;
 }
 
+export interface SearchSuggestion {
+  type: 'product' | 'scent' | 'category';
+  value: string;
+  // Set for product suggestions
+  productId?: string;
+  // Number of products, for scent and category suggestions
+  count?: number;
+}
+
+// Multi-select facets (category, scent, family, note, price) are comma-separated lists
 export interface SearchFilters {
   keyword?: string;
   category?: string;
+  scent?: string;
+  family?: string;
+  note?: string;
+  price?: string;
   minPrice?: number;
   maxPrice?: number;
   rating?: number;
+  inStock?: boolean;
   sortBy?: 'price' | 'rating' | 'createdAt';
   sortOrder?: 'asc' | 'desc';
   page?: number;
   limit?: number;
 }
 
+export interface FacetCount<T = string> {
+  value: T;
+  count: number;
+}
+
+export interface PriceBucketFacet extends FacetCount {
+  label: string;
+  min: number;
+  max?: number;
+}
+
+// Each facet is counted with every other active filter applied, but not its own
+export interface ProductFacets {
+  category: FacetCount<Product['category']>[];
+  scent: FacetCount[];
+  family: FacetCount<ScentFamily>[];
+  // The most common notes only
+  note: FacetCount[];
+  price: PriceBucketFacet[];
+  // Products rated at least `value` stars
+  rating: FacetCount<number>[];
+  inStock: { count: number };
+}
+
+export interface ProductListResponse extends PaginatedResponse<Product[]> {
+  facets: ProductFacets;
+}
+
 export interface ValidationRules {
   required?: boolean;
   minLength?: number;
@@ -1,5 +1,41 @@
 import axios from 'axios';
-import { Product, User, Order } from '../types';
+import {
+  Product,
+  User,
+  Order,
+  ApiResponse,
+  CartLine,
+  CartValidation,
+  CouponQuote,
+  CreateOrderResponse,
+  InvoiceFormat,
+  MockPaymentOutcome,
+  OrderFilters,
+  ProductListResponse,
+  ProductSearchResult,
+  RecentlyViewedHistory,
+  RecentlyViewedItem,
+  Quote,
+  ProductAlert,
+  ProductAlertType,
+  ProductReviewsResponse,
+  Question,
+  QuestionActivity,
+  QuestionFilters,
+  Review,
+  ReviewFilters,
+  ReviewInput,
+  ReviewStatus,
+  ReviewVoteResult,
+  ReviewVotes,
+  PaginatedResponse,
+  SearchFilters,
+  SearchSuggestion,
+  ShippingAddress,
+  StockConflict,
+  ShippingMethod,
+  PaymentMethod,
+} from '../types';
 
 const api = axios.create({
   baseURL: process.env.NEXT_PUBLIC_API_URL,
@@ -8,6 +44,16 @@ const api = axios.create({
   },
 });
 
+// For getServerSideProps. The storefront server calls the API from one IP for every
+// visitor, so it sends the shared key that exempts it from the per-IP rate limit.
+// INTERNAL_API_KEY is a server-only variable and never reaches the browser.
+export const serverApi = axios.create({
+  baseURL: process.env.NEXT_PUBLIC_API_URL,
+  headers: {
+    ...(process.env.INTERNAL_API_KEY && { 'X-Internal-Api-Key': process.env.INTERNAL_API_KEY }),
+  },
+});
+
 // Add a request interceptor to include the auth token
 api.interceptors.request.use(
   (config) => {
@@ -23,22 +69,60 @@ api.interceptors.request.use(
 );
 
 // Products
-export const getProducts = async (params?: {
-  keyword?: string;
-  category?: string;
-  minPrice?: number;
-  maxPrice?: number;
-  page?: number;
-}) => {
+export const getProducts = async (params?: SearchFilters): Promise<ProductListResponse> => {
   const { data } = await api.get('/products', { params });
   return data;
 };
 
+// Products in the order asked for; deleted ones are left out
+export const getProductsByIds = async (ids: string[]): Promise<ApiResponse<Product[]>> => {
+  const { data } = await api.get('/products/batch', { params: { ids: ids.join(',') } });
+  return data;
+};
+
 export const getProduct = async (id: string) => {
   const { data } = await api.get(`/products/${id}`);
   return data;
 };
 
+// Products from the same category or with a similar scent
+export const getRelatedProducts = async (productId: string): Promise<ApiResponse<Product[]>> => {
+  const { data } = await api.get(`/products/${productId}/related`);
+  return data;
+};
+
+// Products often bought in the same orders, strongest pairing first
+export const getBoughtTogether = async (productId: string): Promise<ApiResponse<Product[]>> => {
+  const { data } = await api.get(`/products/${productId}/bought-together`);
+  return data;
+};
+
+// Combined recommendations for several products, e.g. everything in the cart
+export const getBoughtTogetherForProducts = async (
+  productIds: string[]
+): Promise<ApiResponse<Product[]>> => {
+  const { data } = await api.get('/products/bought-together', {
+    params: { ids: productIds.join(',') },
+  });
+  return data;
+};
+
+export const searchProducts = async (
+  query: string,
+  limit?: number
+): Promise<ApiResponse<ProductSearchResult[]>> => {
+  const { data } = await api.get('/products/search', { params: { q: query, limit } });
+  return data;
+};
+
+export const getSearchSuggestions = async (
+  query: string,
+  limit?: number
+): Promise<ApiResponse<SearchSuggestion[]>> => {
+  const { data } = await api.get('/products/suggestions', { params: { q: query, limit } });
+  return data;
+};
+
 export const getFeaturedProducts = async () => {
   const { data } = await api.get('/products/featured');
   return data;
@@ -47,13 +131,13 @@ export const getFeaturedProducts = async () => {
 // Auth
 export const login = async (email: string, password: string) => {
   const { data } = await api.post('/auth/login', { email, password });
-  localStorage.setItem('token', data.token);
+  localStorage.setItem('token', data.data.token);
   return data;
 };
 
 export const register = async (name: string, email: string, password: string) => {
   const { data } = await api.post('/auth/register', { name, email, password });
-  localStorage.setItem('token', data.token);
+  localStorage.setItem('token', data.data.token);
   return data;
 };
 
@@ -66,17 +150,224 @@ export const getProfile = async () => {
   return data;
 };
 
+// Cart
+export const getCart = async () => {
+  const { data } = await api.get('/cart');
+  return data;
+};
+
+export const saveCart = async (items: CartLine[]) => {
+  const { data } = await api.put('/cart', { items });
+  return data;
+};
+
+export const mergeCart = async (items: CartLine[]) => {
+  const { data } = await api.post('/cart/merge', { items });
+  return data;
+};
+
+export const getRecentlyViewed = async (): Promise<ApiResponse<RecentlyViewedHistory>> => {
+  const { data } = await api.get('/recently-viewed');
+  return data;
+};
+
+// Merges into the saved history; used for new views and for folding in a guest's history
+export const recordRecentlyViewed = async (
+  items: RecentlyViewedItem[]
+): Promise<ApiResponse<RecentlyViewedHistory>> => {
+  const { data } = await api.post('/recently-viewed', { items });
+  return data;
+};
+
+export const clearRecentlyViewed = async () => {
+  const { data } = await api.delete('/recently-viewed');
+  return data;
+};
+
+export const validateCart = async (
+  items: (CartLine & { name: string; price: number })[]
+): Promise<ApiResponse<CartValidation>> => {
+  const { data } = await api.post('/cart/validate', { items });
+  return data;
+};
+
+// Reviews
+export const getProductReviews = async (
+  productId: string,
+  filters: ReviewFilters = {}
+): Promise<ProductReviewsResponse> => {
+  const { data } = await api.get(`/products/${productId}/reviews`, { params: filters });
+  return data;
+};
+
+export const createReview = async (
+  productId: string,
+  review: ReviewInput
+): Promise<ApiResponse<Review>> => {
+  const { data } = await api.post(`/products/${productId}/reviews`, review);
+  return data;
+};
+
+export const updateReview = async (
+  reviewId: string,
+  review: ReviewInput
+): Promise<ApiResponse<Review>> => {
+  const { data } = await api.put(`/reviews/${reviewId}`, review);
+  return data;
+};
+
+export const deleteReview = async (reviewId: string) => {
+  const { data } = await api.delete(`/reviews/${reviewId}`);
+  return data;
+};
+
+export const getMyReviews = async (productId?: string): Promise<ApiResponse<Review[]>> => {
+  const { data } = await api.get('/reviews/mine', { params: { product: productId } });
+  return data;
+};
+
+export const getMyReviewVotes = async (productId: string): Promise<ApiResponse<ReviewVotes>> => {
+  const { data } = await api.get('/reviews/votes', { params: { product: productId } });
+  return data;
+};
+
+export const voteReview = async (
+  reviewId: string,
+  helpful: boolean | null
+): Promise<ApiResponse<ReviewVoteResult>> => {
+  const { data } = await api.post(`/reviews/${reviewId}/vote`, { helpful });
+  return data;
+};
+
+// Sent as the raw image so the server can store it as-is
+export const uploadReviewPhoto = async (file: File): Promise<ApiResponse<{ url: string }>> => {
+  const { data } = await api.post('/reviews/photos', file, {
+    headers: { 'Content-Type': file.type },
+  });
+  return data;
+};
+
+export const getReviewModerationQueue = async (
+  status: ReviewStatus = 'pending',
+  page = 1
+): Promise<PaginatedResponse<Review[]>> => {
+  const { data } = await api.get('/reviews/moderation', { params: { status, page } });
+  return data;
+};
+
+export const moderateReview = async (
+  reviewId: string,
+  status: Exclude<ReviewStatus, 'pending'>,
+  note?: string
+): Promise<ApiResponse<Review>> => {
+  const { data } = await api.put(`/reviews/${reviewId}/moderate`, { status, note });
+  return data;
+};
+
+// Questions and answers
+export const getProductQuestions = async (
+  productId: string,
+  filters: QuestionFilters = {}
+): Promise<PaginatedResponse<Question[]>> => {
+  const { data } = await api.get(`/products/${productId}/questions`, { params: filters });
+  return data;
+};
+
+export const askQuestion = async (
+  productId: string,
+  body: string
+): Promise<ApiResponse<Question>> => {
+  const { data } = await api.post(`/products/${productId}/questions`, { body });
+  return data;
+};
+
+export const deleteQuestion = async (questionId: string) => {
+  const { data } = await api.delete(`/questions/${questionId}`);
+  return data;
+};
+
+export const answerQuestion = async (
+  questionId: string,
+  body: string
+): Promise<ApiResponse<Question>> => {
+  const { data } = await api.post(`/questions/${questionId}/answers`, { body });
+  return data;
+};
+
+export const deleteAnswer = async (
+  questionId: string,
+  answerId: string
+): Promise<ApiResponse<Question>> => {
+  const { data } = await api.delete(`/questions/${questionId}/answers/${answerId}`);
+  return data;
+};
+
+export const setAnswerUpvote = async (
+  questionId: string,
+  answerId: string,
+  upvoted: boolean
+): Promise<ApiResponse<{ upvoteCount: number; upvoted: boolean }>> => {
+  const url = `/questions/${questionId}/answers/${answerId}/upvote`;
+  const { data } = upvoted ? await api.post(url) : await api.delete(url);
+  return data;
+};
+
+export const getMyQuestionActivity = async (
+  productId: string
+): Promise<ApiResponse<QuestionActivity>> => {
+  const { data } = await api.get('/questions/mine', { params: { product: productId } });
+  return data;
+};
+
+// Product alerts
+export const getMyAlerts = async (productId?: string): Promise<ApiResponse<ProductAlert[]>> => {
+  const { data } = await api.get('/alerts', { params: { product: productId } });
+  return data;
+};
+
+export const createAlert = async (
+  productId: string,
+  type: ProductAlertType,
+  variantId?: string
+): Promise<ApiResponse<ProductAlert>> => {
+  const { data } = await api.post('/alerts', { product: productId, type, variant: variantId });
+  return data;
+};
+
+export const deleteAlert = async (alertId: string) => {
+  const { data } = await api.delete(`/alerts/${alertId}`);
+  return data;
+};
+
+// Coupons
+export const applyCoupon = async (
+  code: string,
+  items: CartLine[],
+  shippingMethod: ShippingMethod = 'standard'
+): Promise<ApiResponse<CouponQuote>> => {
+  const { data } = await api.post('/coupons/apply', { code, items, shippingMethod });
+  return data;
+};
+
+// Pricing
+export const getQuote = async (quoteData: {
+  items: CartLine[];
+  shippingAddress?: ShippingAddress;
+  shippingMethod?: ShippingMethod;
+  couponCode?: string;
+}): Promise<ApiResponse<Quote>> => {
+  const { data } = await api.post('/pricing/quote', quoteData);
+  return data;
+};
+
 // Orders
 export const createOrder = async (orderData: {
-  orderItems: { product: string; quantity: number }[];
-  shippingAddress: {
-    address: string;
-    city: string;
-    postalCode: string;
-    country: string;
-  };
-  paymentMethod: string;
-}) => {
+  orderItems: CartLine[];
+  shippingAddress: ShippingAddress;
+  shippingMethod: ShippingMethod;
+  paymentMethod: PaymentMethod;
+  couponCode?: string;
+}): Promise<ApiResponse<CreateOrderResponse>> => {
   const { data } = await api.post('/orders', orderData);
   return data;
 };
@@ -86,8 +377,8 @@ export const getOrder = async (id: string) => {
   return data;
 };
 
-export const getMyOrders = async () => {
-  const { data } = await api.get('/orders/myorders');
+export const getMyOrders = async (filters: OrderFilters = {}) => {
+  const { data } = await api.get('/orders/myorders', { params: filters });
   return data;
 };
 
@@ -103,6 +394,27 @@ export const updateOrderToPaid = async (
   return data;
 };
 
+export const cancelOrder = async (
+  orderId: string,
+  reason?: string
+): Promise<ApiResponse<Order>> => {
+  const { data } = await api.put(`/orders/${orderId}/cancel`, { reason });
+  return data;
+};
+
+export const processMockPayment = async (orderId: string, outcome?: MockPaymentOutcome) => {
+  const { data } = await api.post(`/orders/${orderId}/mock-payment`, { outcome });
+  return data;
+};
+
+export const getOrderInvoice = async (orderId: string, format: InvoiceFormat): Promise<Blob> => {
+  const { data } = await api.get(`/orders/${orderId}/invoice`, {
+    params: { format },
+    responseType: 'blob',
+  });
+  return data;
+};
+
 // Payment
 export const initializeRazorpay = () => {
   return new Promise((resolve) => {
@@ -131,10 +443,15 @@ export const calculateTotalPrice = (items: { price: number; quantity: number }[]
 };
 
 // Error handling
+// Per-line stock problems returned when an order can't be reserved
+export const getStockConflicts = (error: any): StockConflict[] =>
+  error?.response?.data?.error?.details?.conflicts || [];
+
 export const handleApiError = (error: any) => {
   if (error.response) {
     // Server responded with a status code outside of 2xx range
-    return error.response.data.message || 'An error occurred';
+    const { data } = error.response;
+    return data?.error?.message || data?.message || 'An error occurred';
   } else if (error.request) {
     // Request was made but no response received
     return 'No response from server';
@@ -0,0 +1,48 @@
+import { CartItem, CartLine, Product, ProductVariant } from '../types';
+
+// Lines are unique per product and variant; plain products key on their ID alone
+export const cartItemKey = (productId: string, variantId?: string) =>
+  variantId ? `${productId}:${variantId}` : productId;
+
+export const getItemKey = (item: CartItem) => cartItemKey(item.product._id, item.variant);
+
+export const findVariant = (
+  product: Pick<Product, 'variants'>,
+  variantId?: string | null
+): ProductVariant | undefined =>
+  variantId ? product.variants?.find((variant) => variant._id === variantId) : undefined;
+
+// "Large / Soy / Glass jar", in the product's option order
+export const describeVariant = (product: Pick<Product, 'options'>, variant?: ProductVariant) =>
+  variant && product.options
+    ? product.options.map((option) => variant.options[option.name]).filter(Boolean).join(' / ')
+    : '';
+
+// The variant a product page or one-click add starts on: the first one in stock
+export const getDefaultVariant = (product: Product): ProductVariant | undefined => {
+  const variants = product.variants || [];
+  return variants.find((variant) => variant.stock > 0) || variants[0];
+};
+
+export const getItemVariant = (item: CartItem) => findVariant(item.product, item.variant);
+
+export const getItemPrice = (item: CartItem) =>
+  getItemVariant(item)?.price ?? item.product.price;
+
+export const getItemStock = (item: CartItem) =>
+  getItemVariant(item)?.stock ?? item.product.stock;
+
+export const getItemImage = (item: CartItem) =>
+  getItemVariant(item)?.images?.[0] || item.product.images[0];
+
+export const getItemName = (item: CartItem) => {
+  const label = describeVariant(item.product, getItemVariant(item));
+  return label ? `${item.product.name} (${label})` : item.product.name;
+};
+
+export const toCartPayload = (items: CartItem[]): CartLine[] =>
+  items.map((item) => ({
+    product: item.product._id,
+    ...(item.variant && { variant: item.variant }),
+    quantity: item.quantity,
+  }));
@@ -1,5 +1,6 @@
 import { 
   Product,
+  Question,
   ProductStructuredData,
   ArticleStructuredData,
   BreadcrumbItem 
@@ -45,6 +46,39 @@ export const generateProductStructuredData = (product: Product) => {
   };
 };
 
+// A page showing a single customer question. Nobody accepts answers here, so every
+// answer is a suggested one.
+export const generateQAPageStructuredData = (question: Question, url: string) => {
+  const toAnswer = (answer: Question['answers'][number]) => ({
+    '@type': 'Answer',
+    text: answer.body,
+    dateCreated: answer.createdAt,
+    upvoteCount: answer.upvoteCount,
+    url,
+    author: {
+      '@type': answer.isStaff ? 'Organization' : 'Person',
+      name: answer.name,
+    },
+  });
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'QAPage',
+    mainEntity: {
+      '@type': 'Question',
+      name: question.body,
+      text: question.body,
+      answerCount: question.answerCount,
+      dateCreated: question.createdAt,
+      author: {
+        '@type': 'Person',
+        name: question.name,
+      },
+      ...(question.answers.length > 0 && { suggestedAnswer: question.answers.map(toAnswer) }),
+    },
+  };
+};
+
 export const generateCategoryStructuredData = (
   category: string,
   products: Product[]
@@ -204,6 +238,7 @@ export default {
   generateTitle,
   generateCanonicalUrl,
   generateProductStructuredData,
+  generateQAPageStructuredData,
   generateCategoryStructuredData,
   generateArticleStructuredData,
   generateBreadcrumbStructuredData,